@@ -0,0 +1,269 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { BrandProfile, InsertBrandProfile } from "@shared/schema";
+
+interface BrandProfileSelectProps {
+  value: string | null;
+  onChange: (brandProfileId: string | null) => void;
+  disabled?: boolean;
+  showSummary?: boolean;
+}
+
+const DEFAULT_VOICE = "default";
+
+// Example posts are separated by a line containing only ---
+const EXAMPLE_SEPARATOR = /\n\s*---\s*\n/;
+
+const emptyProfile = {
+  name: "",
+  companyName: "",
+  website: "",
+  perspective: "company",
+  tone: "authoritative, educative and direct",
+  styleReference: "",
+  bannedWords: "",
+  emojiPolicy: "none",
+  ctaStyle: "",
+  examplePosts: "",
+};
+
+// Picks the brand voice used for generated posts and clip captions, with a
+// dialog for adding a new profile
+export default function BrandProfileSelect({
+  value,
+  onChange,
+  disabled,
+  showSummary = true,
+}: BrandProfileSelectProps) {
+  const [creating, setCreating] = useState(false);
+  const [draft, setDraft] = useState(emptyProfile);
+  const queryClient = useQueryClient();
+
+  const { data: profiles = [] } = useQuery<BrandProfile[]>({
+    queryKey: ["/api/brand-profiles"],
+  });
+
+  const createProfileMutation = useMutation({
+    mutationFn: async (data: InsertBrandProfile) => {
+      const res = await apiRequest("POST", "/api/brand-profiles", data);
+      return res.json() as Promise<BrandProfile>;
+    },
+    onSuccess: (profile) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/brand-profiles"] });
+      onChange(profile.id);
+      setCreating(false);
+      setDraft(emptyProfile);
+    },
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createProfileMutation.mutate({
+      name: draft.name.trim(),
+      companyName: draft.companyName.trim() || null,
+      website: draft.website.trim() || null,
+      perspective: draft.perspective as InsertBrandProfile["perspective"],
+      tone: draft.tone.trim(),
+      styleReference: draft.styleReference.trim() || null,
+      bannedWords: draft.bannedWords
+        .split(",")
+        .map((word) => word.trim())
+        .filter(Boolean),
+      emojiPolicy: draft.emojiPolicy as InsertBrandProfile["emojiPolicy"],
+      ctaStyle: draft.ctaStyle.trim() || null,
+      examplePosts: draft.examplePosts
+        .split(EXAMPLE_SEPARATOR)
+        .map((post) => post.trim())
+        .filter(Boolean),
+    });
+  };
+
+  const selected = profiles.find((profile) => profile.id === value);
+  const setField = (field: keyof typeof emptyProfile) => (text: string) =>
+    setDraft((prev) => ({ ...prev, [field]: text }));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Select
+          value={value || DEFAULT_VOICE}
+          disabled={disabled}
+          onValueChange={(id) => onChange(id === DEFAULT_VOICE ? null : id)}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Brand voice" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_VOICE}>Default voice</SelectItem>
+            {profiles.map((profile) => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          disabled={disabled}
+          onClick={() => setCreating(true)}
+          title="New brand profile"
+        >
+          <Plus size={16} />
+        </Button>
+      </div>
+      {showSummary && (
+        <p className="text-xs text-neutral-500">
+          {selected
+            ? [selected.companyName, selected.tone].filter(Boolean).join(" · ")
+            : "First-person posts in an authoritative, direct tone without emojis"}
+        </p>
+      )}
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Brand Profile</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="brand-name">Profile name</Label>
+              <Input
+                id="brand-name"
+                value={draft.name}
+                onChange={(e) => setField("name")(e.target.value)}
+                placeholder="Company account"
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="brand-company">Company</Label>
+                <Input
+                  id="brand-company"
+                  value={draft.companyName}
+                  onChange={(e) => setField("companyName")(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="brand-website">Website</Label>
+                <Input
+                  id="brand-website"
+                  value={draft.website}
+                  onChange={(e) => setField("website")(e.target.value)}
+                  placeholder="example.com"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label>Perspective</Label>
+                <Select value={draft.perspective} onValueChange={setField("perspective")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="company">Company account</SelectItem>
+                    <SelectItem value="personal">First person</SelectItem>
+                    <SelectItem value="third-person">Third person</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Emojis</Label>
+                <Select value={draft.emojiPolicy} onValueChange={setField("emojiPolicy")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Never</SelectItem>
+                    <SelectItem value="sparing">Sparingly</SelectItem>
+                    <SelectItem value="allowed">Allowed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="brand-tone">Tone</Label>
+              <Input
+                id="brand-tone"
+                value={draft.tone}
+                onChange={(e) => setField("tone")(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="brand-style">Write in the style of</Label>
+              <Input
+                id="brand-style"
+                value={draft.styleReference}
+                onChange={(e) => setField("styleReference")(e.target.value)}
+                placeholder="Optional writer or account"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="brand-cta">Call-to-action style</Label>
+              <Input
+                id="brand-cta"
+                value={draft.ctaStyle}
+                onChange={(e) => setField("ctaStyle")(e.target.value)}
+                placeholder="Invite readers to book a call"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="brand-banned">Banned words (comma separated)</Label>
+              <Input
+                id="brand-banned"
+                value={draft.bannedWords}
+                onChange={(e) => setField("bannedWords")(e.target.value)}
+                placeholder="synergy, game-changer"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="brand-examples">Example posts (separate with ---)</Label>
+              <Textarea
+                id="brand-examples"
+                value={draft.examplePosts}
+                onChange={(e) => setField("examplePosts")(e.target.value)}
+                rows={5}
+              />
+            </div>
+            {createProfileMutation.isError && (
+              <p className="text-sm text-red-600">Could not save the brand profile.</p>
+            )}
+            <DialogFooter>
+              <Button
+                type="submit"
+                className="bg-primary text-white hover:bg-primary/90"
+                disabled={createProfileMutation.isPending}
+              >
+                Save Profile
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
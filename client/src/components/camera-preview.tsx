@@ -3,11 +3,17 @@ import { Button } from "@/components/ui/button";
 import { Square, Mic, Settings } from "lucide-react";
 import { useMediaRecorder } from "@/hooks/use-media-recorder";
 import { useAudioTranscription } from "@/hooks/use-audio-transcription";
+import { RecordingIngest } from "@/lib/recording-ingest";
 
 interface CameraPreviewProps {
-  onRecordingComplete?: (blob: Blob) => void;
+  // ingest carries the chunks already streamed to the server
+  onRecordingComplete?: (
+    blob: Blob,
+    recordingId?: string,
+    ingest?: RecordingIngest,
+  ) => void;
   sessionId?: string | null;
-  onStartSession?: () => Promise<void>;
+  onStartSession?: () => Promise<string | void>;
   onTranscriptionComplete?: (text: string) => void;
 }
 
@@ -20,7 +26,7 @@ export default function CameraPreview({
   const videoRef = useRef<HTMLVideoElement>(null);
   const [isRecordingAudio, setIsRecordingAudio] = useState(false);
   const [audioLevel, setAudioLevel] = useState(0);
-  const { transcribeAudio } = useAudioTranscription();
+  const { transcribeAudio } = useAudioTranscription(sessionId);
 
   // Real-time transcription state
   const [accumulatedTranscript, setAccumulatedTranscript] = useState("");
@@ -33,6 +39,9 @@ export default function CameraPreview({
   const lastTranscriptTimeRef = useRef<number>(Date.now());
   const silenceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Live upload of the video recording to the session
+  const ingestRef = useRef<RecordingIngest | null>(null);
+
   // Video recording with audio
   const {
     isRecording: isRecordingVideo,
@@ -42,7 +51,8 @@ export default function CameraPreview({
     stopRecording: stopVideoRecording,
     formatDuration,
   } = useMediaRecorder({
-    onStop: (blob) => {
+    onDataAvailable: (chunk) => ingestRef.current?.push(chunk),
+    onStop: (blob, recordingId) => {
       console.log(
         "Video recording stopped, blob:",
         blob,
@@ -51,11 +61,15 @@ export default function CameraPreview({
         "Type:",
         blob.type,
       );
-      onRecordingComplete?.(blob);
+      const ingest = ingestRef.current ?? undefined;
+      ingestRef.current = null;
+      onRecordingComplete?.(blob, recordingId, ingest);
       setIsRecordingAudio(false);
       setAudioLevel(0);
     },
     audio: false, // This is for video recording (video + audio), not audio-only
+    persist: true, // Survives a crash or reload until uploaded
+    sessionId,
   });
 
   // Audio-only recording for transcription
@@ -164,11 +178,15 @@ export default function CameraPreview({
   const handleStartRecording = async () => {
     try {
       // If no session exists, start one first
+      let activeSessionId = sessionId;
       if (!sessionId && onStartSession) {
         console.log("No session found, starting new session...");
-        await onStartSession();
+        activeSessionId = (await onStartSession()) || null;
         await new Promise((resolve) => setTimeout(resolve, 100));
       }
+      ingestRef.current = activeSessionId
+        ? new RecordingIngest(activeSessionId)
+        : null;
 
       console.log("Starting video and audio recording...");
       setIsRecordingAudio(true);
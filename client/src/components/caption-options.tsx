@@ -0,0 +1,100 @@
+import { useQuery } from "@tanstack/react-query";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CaptionPreset, CaptionStyle } from "@shared/schema";
+
+// Sent to the clip rendering endpoints as `captions`
+export interface CaptionSettings {
+  enabled: boolean;
+  presetId?: string;
+  style?: Partial<CaptionStyle>;
+}
+
+interface CaptionOptionsProps {
+  id: string;
+  value: CaptionSettings;
+  onChange: (value: CaptionSettings) => void;
+}
+
+const DEFAULT_PRESET = "default";
+
+export default function CaptionOptions({
+  id,
+  value,
+  onChange,
+}: CaptionOptionsProps) {
+  const { data: presets = [] } = useQuery<CaptionPreset[]>({
+    queryKey: ["/api/caption-presets"],
+  });
+
+  return (
+    <div className="space-y-2 rounded-lg border border-neutral-200 p-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={`${id}-captions`} className="text-sm">
+          Burn in animated captions
+        </Label>
+        <Switch
+          id={`${id}-captions`}
+          checked={value.enabled}
+          onCheckedChange={(enabled) => onChange({ ...value, enabled })}
+        />
+      </div>
+
+      {value.enabled && (
+        <div className="grid grid-cols-2 gap-2">
+          <Select
+            value={value.presetId || DEFAULT_PRESET}
+            onValueChange={(presetId) =>
+              onChange({
+                ...value,
+                presetId: presetId === DEFAULT_PRESET ? undefined : presetId,
+              })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Caption style" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_PRESET}>Default style</SelectItem>
+              {presets.map((preset) => (
+                <SelectItem key={preset.id} value={preset.id}>
+                  {preset.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={value.style?.position || "preset"}
+            onValueChange={(position) =>
+              onChange({
+                ...value,
+                style:
+                  position === "preset"
+                    ? undefined
+                    : { ...value.style, position: position as CaptionStyle["position"] },
+              })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Position" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="preset">Preset position</SelectItem>
+              <SelectItem value="bottom">Bottom</SelectItem>
+              <SelectItem value="middle">Middle</SelectItem>
+              <SelectItem value="top">Top</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { waitForJob } from "@/hooks/use-jobs";
+import type { ClipRendition } from "@shared/schema";
+import type { TightenSettings } from "./tighten-options";
+
+export interface RenditionProfile {
+  id: string;
+  label: string;
+  aspectRatio: string;
+  width: number;
+  height: number;
+  maxDuration: number;
+}
+
+export type Framing = "crop" | "blur";
+
+interface RenditionPickerProps {
+  id: string;
+  profiles: string[];
+  framing: Framing;
+  onChange: (profiles: string[], framing: Framing) => void;
+}
+
+// Profile checkboxes plus crop/blur framing
+export function RenditionPicker({
+  id,
+  profiles,
+  framing,
+  onChange,
+}: RenditionPickerProps) {
+  const { data: available = [] } = useQuery<RenditionProfile[]>({
+    queryKey: ["/api/rendition-profiles"],
+  });
+
+  const toggle = (profileId: string, checked: boolean) =>
+    onChange(
+      checked
+        ? [...profiles, profileId]
+        : profiles.filter((p) => p !== profileId),
+      framing,
+    );
+
+  return (
+    <div className="space-y-2 rounded-lg border border-neutral-200 p-3">
+      <p className="text-sm font-medium">Platform renditions</p>
+      <div className="grid grid-cols-2 gap-2">
+        {available.map((profile) => (
+          <div key={profile.id} className="flex items-center gap-2">
+            <Checkbox
+              id={`${id}-${profile.id}`}
+              checked={profiles.includes(profile.id)}
+              onCheckedChange={(checked) => toggle(profile.id, checked === true)}
+            />
+            <Label htmlFor={`${id}-${profile.id}`} className="text-xs">
+              {profile.label} ({profile.aspectRatio}, max {profile.maxDuration}s)
+            </Label>
+          </div>
+        ))}
+      </div>
+      {profiles.length > 0 && (
+        <Select
+          value={framing}
+          onValueChange={(value) => onChange(profiles, value as Framing)}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="crop">Crop to the action</SelectItem>
+            <SelectItem value="blur">Fit with blurred background</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
+
+interface ClipRenditionsProps {
+  clipId: string;
+  tighten?: TightenSettings; // cut fillers and long pauses from new renditions
+}
+
+// Renditions of a session clip, with controls to render more
+export default function ClipRenditions({ clipId, tighten }: ClipRenditionsProps) {
+  const [profiles, setProfiles] = useState<string[]>([]);
+  const [framing, setFraming] = useState<Framing>("crop");
+  const [progress, setProgress] = useState<number | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: renditions = [] } = useQuery<ClipRendition[]>({
+    queryKey: ["/api/clips", clipId, "renditions"],
+  });
+
+  const renderMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/clips/${clipId}/renditions`, {
+        profiles: profiles.length > 0 ? profiles : undefined,
+        framing,
+        tighten,
+      });
+      const { jobId } = await res.json();
+
+      setProgress(0);
+      const job = await waitForJob(jobId, (update) =>
+        setProgress(update.progress),
+      ).finally(() => setProgress(null));
+      if (job.status === "failed") {
+        throw new Error(job.error || "Rendering failed");
+      }
+      return job.result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/clips", clipId, "renditions"],
+      });
+      setProfiles([]);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Rendering Failed",
+        description: error.message || "Failed to render clip",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <RenditionPicker
+        id={`clip-${clipId}`}
+        profiles={profiles}
+        framing={framing}
+        onChange={(nextProfiles, nextFraming) => {
+          setProfiles(nextProfiles);
+          setFraming(nextFraming);
+        }}
+      />
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => renderMutation.mutate()}
+        disabled={renderMutation.isPending}
+      >
+        {renderMutation.isPending ? (
+          <>
+            <Loader2 className="mr-1 animate-spin" size={12} />
+            Rendering{progress !== null ? ` ${progress}%` : "..."}
+          </>
+        ) : profiles.length > 0 ? (
+          "Render Selected Formats"
+        ) : (
+          "Render for Clip Platform"
+        )}
+      </Button>
+
+      {renditions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {renditions.map((rendition) => (
+            <a
+              key={rendition.id}
+              href={`/api/renditions/${rendition.id}/video?download=1`}
+            >
+              <Badge variant="outline" className="cursor-pointer">
+                <Download className="mr-1" size={10} />
+                {rendition.profile} · {rendition.aspectRatio} · {rendition.framing}
+              </Badge>
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
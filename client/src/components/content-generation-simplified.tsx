@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -29,10 +29,49 @@ import {
   X,
   Sparkles,
   Loader2,
+  RefreshCw,
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Session, Clip, ContentPiece } from "@shared/schema";
+import type { Session, Clip, ContentPiece, Job } from "@shared/schema";
+import CaptionOptions, { type CaptionSettings } from "./caption-options";
+import TightenOptions, { type TightenSettings } from "./tighten-options";
+import BrandProfileSelect from "./brand-profile-select";
+import UsagePanel from "./usage-panel";
+import SpeakerFocus from "./speaker-focus";
+import TranscriptEditor from "./transcript-editor";
+import GlossaryPanel from "./glossary-panel";
+import SilencePanel from "./silence-panel";
+import ClipRenditions, { RenditionPicker, type Framing } from "./clip-renditions";
+import JobProgress from "./job-progress";
+import { useJobs, type TrackedJob } from "@/hooks/use-jobs";
+import { uploadResumable } from "@/lib/resumable-upload";
+import {
+  streamGeneration,
+  isAbortError,
+  GenerationError,
+} from "@/lib/content-stream";
+
+// Generation endpoints answer 502 when the model's output still failed
+// validation after repair attempts, listing what was wrong with it
+function generationErrorMessage(error: unknown, fallback: string): string {
+  // Streamed generations report the same problems in their "error" event
+  if (error instanceof GenerationError && error.issues.length > 0) {
+    return `The AI returned unusable output (${error.issues.slice(0, 2).join("; ")}). Please try again.`;
+  }
+  const match =
+    error instanceof Error ? error.message.match(/^502: ([\s\S]*)$/) : null;
+  if (!match) return fallback;
+  try {
+    const { issues } = JSON.parse(match[1]);
+    return `The AI returned unusable output (${(issues || []).slice(0, 2).join("; ")}). Please try again.`;
+  } catch {
+    return fallback;
+  }
+}
+
+// Freshly generated clips list how their suggested boundaries were changed
+type GeneratedClip = Clip & { adjustments?: string[] };
 
 interface ContentGenerationProps {
   selectedSessionId?: string;
@@ -58,14 +97,125 @@ export default function ContentGeneration({
   const [uploadMode, setUploadMode] = useState(false);
   const [uploadedVideo, setUploadedVideo] = useState<File | null>(null);
   const [uploadedTranscript, setUploadedTranscript] = useState<string>("");
+  // Stored upload for the selected video; transcription and clipping act on it
+  const [uploadId, setUploadId] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
   const [uploadGeneratedContent, setUploadGeneratedContent] = useState<
     ContentPiece[]
   >([]);
-  const [uploadGeneratedClips, setUploadGeneratedClips] = useState<Clip[]>([]);
+  const [uploadGeneratedClips, setUploadGeneratedClips] = useState<GeneratedClip[]>([]);
+  // Cancels the content generation in progress; posts received so far stay
+  const generationAbort = useRef<AbortController | null>(null);
+  const [uploadCaptions, setUploadCaptions] = useState<CaptionSettings>({
+    enabled: false,
+  });
+  const [sessionCaptions, setSessionCaptions] = useState<CaptionSettings>({
+    enabled: false,
+  });
+  const [uploadTighten, setUploadTighten] = useState<TightenSettings>({
+    enabled: false,
+    maxPause: 0.8,
+  });
+  const [sessionTighten, setSessionTighten] = useState<TightenSettings>({
+    enabled: false,
+    maxPause: 0.8,
+  });
+  const [sessionTrimSilence, setSessionTrimSilence] = useState(false);
+  const [uploadProfiles, setUploadProfiles] = useState<string[]>([]);
+  const [uploadFraming, setUploadFraming] = useState<Framing>("crop");
+  const [uploadBrandProfileId, setUploadBrandProfileId] = useState<
+    string | null
+  >(null);
+  // Generate posts and clips from the guest's answers only
+  const [guestOnly, setGuestOnly] = useState(false);
+  const speaker = guestOnly ? "guest" : "all";
 
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
+  // Usage panels refresh after anything that may have called a model
+  const refreshUsage = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => query.queryKey[2] === "usage",
+    });
+
+  // Results of background jobs, including ones resumed after a reload
+  const handleJobFinished = async (entry: TrackedJob, job: Job) => {
+    refreshUsage();
+    // Transcription identifies the speakers
+    queryClient.invalidateQueries({
+      predicate: (query) => query.queryKey[2] === "speakers",
+    });
+    if (job.status === "failed") {
+      toast({
+        title: `${entry.label} failed`,
+        description: job.error || "The background job failed",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const result = job.result as any;
+    switch (entry.kind) {
+      case "upload-transcribe": {
+        setUploadId(result.uploadId);
+        const res = await apiRequest(
+          "GET",
+          `/api/uploads/${result.uploadId}/transcript/words`,
+        );
+        const words = await res.json();
+        const text =
+          words.length > 0
+            ? words.map((w: any) => JSON.stringify(w)).join(" ")
+            : result.text;
+        setUploadedTranscript(text || "");
+        toast({
+          title: "Video Transcribed Successfully",
+          description: `Extracted ${result.text?.length || 0} characters of transcript${
+            result.glossary?.total ? ` and corrected ${result.glossary.total} glossary terms` : ""
+          }. You can now generate content or video clips.`,
+        });
+        break;
+      }
+      case "upload-clips":
+        setUploadGeneratedClips(result.clips || []);
+        toast({
+          title: "Video Clips Generated Successfully",
+          description: `Generated ${result.clips?.length || 0} video clips with precise timing!`,
+        });
+        break;
+      case "session-clips":
+        queryClient.invalidateQueries({
+          queryKey: ["/api/sessions", entry.meta?.sessionId, "clips"],
+        });
+        toast({
+          title: "Video Clips Created",
+          description:
+            "Actual video files have been cut and created successfully",
+        });
+        break;
+      case "session-silence":
+        queryClient.invalidateQueries({
+          queryKey: ["/api/sessions", entry.meta?.sessionId, "silence-map"],
+        });
+        toast({
+          title: "Silence Analyzed",
+          description: `Found ${result.silences} silences totalling ${Math.round(result.silentSeconds)}s`,
+        });
+        break;
+      case "session-jump-cut":
+        queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+        toast({
+          title: "Jump Cut Rendered",
+          description: `${entry.meta?.title || "The interview"} went from ${Math.round(result.originalDuration)}s to ${Math.round(result.editedDuration)}s`,
+        });
+        break;
+    }
+  };
+
+  const { jobs, track: trackJob } = useJobs(handleJobFinished);
+  const isJobRunning = (kind: string) => jobs.some((job) => job.kind === kind);
+
   const { data: sessions = [] } = useQuery<Session[]>({
     queryKey: ["/api/sessions"],
   });
@@ -80,15 +230,27 @@ export default function ContentGeneration({
     enabled: !!selectedSession,
   });
 
+  // How many of this session's generations were answered from the LLM cache
+  const { data: cacheStats } = useQuery<{ hits: number; misses: number; bypassed: number }>({
+    queryKey: ["/api/sessions", selectedSession, "cache-stats"],
+    enabled: !!selectedSession,
+  });
+
   const generateClipsMutation = useMutation({
     mutationFn: async (sessionId: string) => {
+      // Asking again when clips exist means the user wants new ones
       const res = await apiRequest(
         "POST",
         `/api/sessions/${sessionId}/generate-clips`,
+        { regenerate: clips.length > 0, speaker },
       );
       return res.json();
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/sessions", selectedSession, "cache-stats"],
+      });
+      refreshUsage();
       // Invalidate clips query to refresh the display
       queryClient.invalidateQueries({
         queryKey: ["/api/sessions", selectedSession, "clips"],
@@ -118,22 +280,47 @@ export default function ContentGeneration({
     },
   });
 
+  // The session remembers its brand voice for later generations
+  const updateSessionBrandMutation = useMutation({
+    mutationFn: async ({
+      sessionId,
+      brandProfileId,
+    }: {
+      sessionId: string;
+      brandProfileId: string | null;
+    }) => {
+      const res = await apiRequest("PATCH", `/api/sessions/${sessionId}`, {
+        brandProfileId,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+    },
+  });
+
   const createVideoClipsMutation = useMutation({
-    mutationFn: async (data: { sessionId: string }) => {
+    mutationFn: async (data: {
+      sessionId: string;
+      captions: CaptionSettings;
+      tighten: TightenSettings;
+      trimSilence: boolean;
+    }) => {
       const response = await apiRequest(
         "POST",
         `/api/sessions/${data.sessionId}/create-clips`,
+        {
+          captions: data.captions,
+          tighten: data.tighten.enabled ? data.tighten : undefined,
+          trimSilence: data.trimSilence,
+        },
       );
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({
-        queryKey: ["/api/sessions", selectedSession, "clips"],
-      });
-      toast({
-        title: "Video Clips Created",
-        description:
-          "Actual video files have been cut and created successfully",
+      const { jobId } = await response.json();
+      return trackJob({
+        jobId,
+        kind: "session-clips",
+        label: "Cutting session video clips",
+        meta: { sessionId: data.sessionId },
       });
     },
     onError: (error: any) => {
@@ -147,8 +334,16 @@ export default function ContentGeneration({
 
   // Session content generation mutation (like upload version)
   const sessionContentMutation = useMutation({
-    mutationFn: async ({ sessionId }: { sessionId: string }) => {
-      const allContent = [];
+    mutationFn: async ({
+      sessionId,
+      regenerate,
+    }: {
+      sessionId: string;
+      regenerate: boolean;
+    }) => {
+      const allContent: ContentPiece[] = [];
+      const controller = new AbortController();
+      generationAbort.current = controller;
 
       // Generate 3 posts for each content type (9 total) with separate API calls
       const contentTypes = ["carousel", "image", "text"];
@@ -156,15 +351,33 @@ export default function ContentGeneration({
       for (const contentType of contentTypes) {
         // Make 3 separate API calls for each content type
         for (let i = 0; i < 3; i++) {
-          const res = await apiRequest(
-            "POST",
+          // Posts are saved by the server and shown as each one arrives
+          await streamGeneration<ContentPiece, unknown>(
             `/api/sessions/${sessionId}/generate-content`,
+            { contentType, variant: i, regenerate, speaker },
             {
-              contentType,
+              signal: controller.signal,
+              onPost: (piece) => {
+                allContent.push(piece);
+                queryClient.setQueryData<ContentPiece[]>(
+                  ["/api/sessions", sessionId, "content"],
+                  (current = []) => [...current, piece],
+                );
+              },
+              onReset: (removedIds) => {
+                const removed = new Set(removedIds);
+                allContent.splice(
+                  0,
+                  allContent.length,
+                  ...allContent.filter((piece) => !removed.has(piece.id)),
+                );
+                queryClient.setQueryData<ContentPiece[]>(
+                  ["/api/sessions", sessionId, "content"],
+                  (current = []) => current.filter((piece) => !removed.has(piece.id)),
+                );
+              },
             },
           );
-          const result = await res.json();
-          allContent.push(result);
         }
       }
 
@@ -172,6 +385,7 @@ export default function ContentGeneration({
       const clipsRes = await apiRequest(
         "POST",
         `/api/sessions/${sessionId}/generate-clips`,
+        { regenerate, speaker },
       );
       const clips = await clipsRes.json();
 
@@ -184,6 +398,10 @@ export default function ContentGeneration({
       queryClient.invalidateQueries({
         queryKey: ["/api/sessions", selectedSession, "content"],
       });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/sessions", selectedSession, "cache-stats"],
+      });
+      refreshUsage();
       toast({
         title: "Content Generated",
         description:
@@ -191,40 +409,81 @@ export default function ContentGeneration({
       });
     },
     onError: (error) => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/sessions", selectedSession, "content"],
+      });
+      refreshUsage();
+      if (isAbortError(error)) {
+        toast({
+          title: "Generation Cancelled",
+          description: "Posts generated before cancelling have been kept.",
+        });
+        return;
+      }
       console.error("Session content generation error:", error);
       toast({
         title: "Generation Failed",
-        description:
+        description: generationErrorMessage(
+          error,
           "Failed to generate content from session. Please try again.",
+        ),
         variant: "destructive",
       });
     },
   });
 
   const uploadContentMutation = useMutation({
-    mutationFn: async ({ transcript }: { transcript: string }) => {
+    mutationFn: async ({
+      transcript,
+      regenerate = false,
+    }: {
+      transcript: string;
+      regenerate?: boolean; // skip cached results for this transcript
+    }) => {
       setUploadGeneratedContent([]); // Clear previous results
       setUploadGeneratedClips([]);
 
-      // Generate comprehensive content (7-8 posts across all types) in one API call
-      const contentRes = await apiRequest(
-        "POST",
+      const controller = new AbortController();
+      generationAbort.current = controller;
+
+      // Generate comprehensive content (7-8 posts across all types) in one
+      // API call, showing each post as soon as it is written
+      const content: ContentPiece[] = [];
+      const contentResult = await streamGeneration<
+        ContentPiece,
+        { uploadId?: string; summary: { total: number; carousels: number; images: number; texts: number } }
+      >(
         "/api/generate-content-from-upload",
         {
           transcript,
+          uploadId,
           generateComprehensive: true, // Use new comprehensive generation
+          brandProfileId: uploadBrandProfileId || undefined,
+          regenerate,
+          speaker,
+        },
+        {
+          signal: controller.signal,
+          onPost: (post) => {
+            content.push(post);
+            setUploadGeneratedContent((current) => [...current, post]);
+          },
+          onReset: () => {
+            // Every post of this generation is replaced
+            content.length = 0;
+            setUploadGeneratedContent([]);
+          },
         },
       );
-      const contentResult = await contentRes.json();
 
       return {
-        content: contentResult.posts || [],
+        content,
         clips,
         summary: contentResult.summary,
       };
     },
     onSuccess: (data) => {
-      setUploadGeneratedContent(data.content);
+      refreshUsage();
       setUploadGeneratedClips(data.clips);
       toast({
         title: "Content Generated Successfully",
@@ -234,16 +493,43 @@ export default function ContentGeneration({
       });
     },
     onError: (error) => {
+      if (isAbortError(error)) {
+        toast({
+          title: "Generation Cancelled",
+          description: "Posts generated before cancelling are still shown.",
+        });
+        return;
+      }
       console.error("Upload content generation error:", error);
       toast({
         title: "Generation Failed",
-        description:
+        description: generationErrorMessage(
+          error,
           "Failed to generate content from upload. Please try again.",
+        ),
         variant: "destructive",
       });
     },
   });
 
+  // Send the selected video once through a resumable upload; later steps
+  // refer to the stored upload by ID
+  const ensureUploaded = async (videoFile: File): Promise<string> => {
+    if (uploadId) return uploadId;
+
+    setUploadProgress(0);
+    try {
+      const storedUploadId = await uploadResumable(videoFile, {
+        onProgress: (uploaded, total) =>
+          setUploadProgress(Math.round((uploaded / total) * 100)),
+      });
+      setUploadId(storedUploadId);
+      return storedUploadId;
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
   // Transcribe video only (extract transcript from video)
   const videoTranscribeMutation = useMutation({
     mutationFn: async ({ videoFile }: { videoFile: File }) => {
@@ -258,34 +544,18 @@ export default function ContentGeneration({
         videoFile.size,
       );
 
-      const formData = new FormData();
-      formData.append("video", videoFile, videoFile.name);
-
-      const response = await fetch("/api/upload-video-transcribe", {
-        method: "POST",
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("Video transcription error:", errorText);
-        throw new Error(
-          `Video transcription failed: ${response.status} - ${errorText}`,
-        );
-      }
+      const storedUploadId = await ensureUploaded(videoFile);
 
-      const result = await response.json();
-      console.log("Video transcription success:", result);
-      return result;
-    },
-    onSuccess: (data) => {
-      const text = data.transcript.words
-        ? data.transcript.words.map((w) => JSON.stringify(w)).join(" ")
-        : data.transcript?.text;
-      setUploadedTranscript(text || "");
-      toast({
-        title: "Video Transcribed Successfully",
-        description: `Extracted ${data.transcript?.text?.length || 0} characters of transcript. You can now generate content or video clips.`,
+      // Transcription carries on as a background job
+      const response = await apiRequest(
+        "POST",
+        `/api/uploads/${storedUploadId}/transcribe`,
+      );
+      const { jobId } = await response.json();
+      return trackJob({
+        jobId,
+        kind: "upload-transcribe",
+        label: `Transcribing ${videoFile.name}`,
       });
     },
     onError: (error) => {
@@ -316,32 +586,27 @@ export default function ContentGeneration({
 
       console.log("Starting video clip generation:", videoFile.name);
 
-      const formData = new FormData();
-      formData.append("video", videoFile, videoFile.name);
-      formData.append("transcript", transcript);
-
-      const response = await fetch("/api/upload-video-generate-clips", {
-        method: "POST",
-        body: formData,
-      });
+      // Reuses the stored video when it was uploaded for transcription
+      const storedUploadId = await ensureUploaded(videoFile);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("Video clip generation error:", errorText);
-        throw new Error(
-          `Video clip generation failed: ${response.status} - ${errorText}`,
-        );
-      }
-
-      const result = await response.json();
-      console.log("Video clip generation success:", result);
-      return result;
-    },
-    onSuccess: (data) => {
-      setUploadGeneratedClips(data.clips || []);
-      toast({
-        title: "Video Clips Generated Successfully",
-        description: `Generated ${data.clips?.length || 0} video clips with precise timing!`,
+      const response = await apiRequest(
+        "POST",
+        `/api/uploads/${storedUploadId}/generate-clips`,
+        {
+          transcript,
+          captions: uploadCaptions.enabled ? uploadCaptions : undefined,
+          tighten: uploadTighten.enabled ? uploadTighten : undefined,
+          profiles: uploadProfiles.length > 0 ? uploadProfiles : undefined,
+          framing: uploadFraming,
+          brandProfileId: uploadBrandProfileId || undefined,
+          speaker,
+        },
+      );
+      const { jobId } = await response.json();
+      return trackJob({
+        jobId,
+        kind: "upload-clips",
+        label: `Generating clips for ${videoFile.name}`,
       });
     },
     onError: (error) => {
@@ -359,11 +624,11 @@ export default function ContentGeneration({
     const file = event.target.files?.[0];
     if (file) {
       const fileSizeMB = Math.round(file.size / 1024 / 1024);
-      if (fileSizeMB > 500) {
+      if (fileSizeMB > 5 * 1024) {
         toast({
           title: "File Too Large",
           description:
-            "Video files must be under 500MB. Please compress your video or use the transcript-only option.",
+            "Video files must be under 5GB. Please compress your video or use the transcript-only option.",
           variant: "destructive",
         });
         event.target.value = ""; // Clear the input
@@ -378,6 +643,7 @@ export default function ContentGeneration({
       }
 
       setUploadedVideo(file);
+      setUploadId(null); // A new file needs a new transcription
     }
   };
 
@@ -409,7 +675,7 @@ export default function ContentGeneration({
     }
   };
 
-  const generateContentFromTranscript = async () => {
+  const generateContentFromTranscript = async (regenerate = false) => {
     if (!uploadedTranscript.trim()) {
       alert(
         "Please provide a transcript (transcribe a video or paste/upload text)",
@@ -420,6 +686,7 @@ export default function ContentGeneration({
     try {
       await uploadContentMutation.mutateAsync({
         transcript: uploadedTranscript,
+        regenerate,
       });
     } catch (error) {
       console.error("Failed to generate content:", error);
@@ -522,6 +789,10 @@ export default function ContentGeneration({
               </CardContent>
             </Card>
           </div>
+
+          <div className="max-w-2xl mx-auto mt-6 text-left">
+            <JobProgress jobs={jobs} />
+          </div>
         </div>
       </div>
     );
@@ -558,6 +829,7 @@ export default function ContentGeneration({
                 setUploadMode(false);
                 setUploadedVideo(null);
                 setUploadedTranscript("");
+                setUploadId(null);
                 setUploadGeneratedContent([]);
                 setUploadGeneratedClips([]);
               }}
@@ -568,6 +840,33 @@ export default function ContentGeneration({
         </div>
 
         <div className="space-y-6">
+          <JobProgress jobs={jobs} />
+          {uploadId && (
+            <SpeakerFocus
+              owner="uploads"
+              id={uploadId}
+              guestOnly={guestOnly}
+              onChange={setGuestOnly}
+            />
+          )}
+          {uploadId && <UsagePanel owner="uploads" id={uploadId} />}
+          <GlossaryPanel
+            owner="uploads"
+            id={uploadId}
+            onCorrected={(words) =>
+              setUploadedTranscript(words.map((w) => JSON.stringify(w)).join(" "))
+            }
+          />
+          {uploadId && (
+            <TranscriptEditor
+              owner="uploads"
+              id={uploadId}
+              onEdited={(words) =>
+                setUploadedTranscript(words.map((w) => JSON.stringify(w)).join(" "))
+              }
+            />
+          )}
+
           {/* Upload Options */}
           <Card>
             <CardContent className="p-6">
@@ -653,6 +952,16 @@ export default function ContentGeneration({
               <CardContent className="p-6">
                 <h3 className="font-semibold mb-4">Processing Workflow</h3>
 
+                <div className="space-y-2 mb-4">
+                  <h4 className="text-sm font-medium text-neutral-700">
+                    Brand Voice
+                  </h4>
+                  <BrandProfileSelect
+                    value={uploadBrandProfileId}
+                    onChange={setUploadBrandProfileId}
+                  />
+                </div>
+
                 {/* Step 1: Transcribe Video (if video uploaded) */}
                 {uploadedVideo && (
                   <div className="space-y-2 mb-4">
@@ -661,10 +970,14 @@ export default function ContentGeneration({
                     </h4>
                     <Button
                       onClick={transcribeVideo}
-                      disabled={videoTranscribeMutation.isPending}
+                      disabled={
+                        videoTranscribeMutation.isPending ||
+                        isJobRunning("upload-transcribe")
+                      }
                       className="w-full bg-blue-600 text-white hover:bg-blue-700"
                     >
-                      {videoTranscribeMutation.isPending ? (
+                      {videoTranscribeMutation.isPending ||
+                      isJobRunning("upload-transcribe") ? (
                         <>
                           <Loader2 className="mr-2" size={16} />
                           Transcribing Video (5-15 min for large files)...
@@ -676,18 +989,17 @@ export default function ContentGeneration({
                         </>
                       )}
                     </Button>
-                    {videoTranscribeMutation.isPending && (
-                      <div className="text-sm text-neutral-600 mt-2 space-y-1">
-                        <p>
-                          🎬 Processing video file (this may take several
-                          minutes)...
-                        </p>
-                        <p>
-                          🎤 Extracting audio and transcribing with word-level
-                          timing...
-                        </p>
-                      </div>
-                    )}
+                    {videoTranscribeMutation.isPending &&
+                      !isJobRunning("upload-transcribe") && (
+                        <div className="text-sm text-neutral-600 mt-2">
+                          <p>
+                            🎬 Uploading video file
+                            {uploadProgress !== null
+                              ? ` (${uploadProgress}%)`
+                              : "..."}
+                          </p>
+                        </div>
+                      )}
                   </div>
                 )}
 
@@ -700,7 +1012,7 @@ export default function ContentGeneration({
                         : "Generate LinkedIn Content"}
                     </h4>
                     <Button
-                      onClick={generateContentFromTranscript}
+                      onClick={() => generateContentFromTranscript()}
                       disabled={uploadContentMutation.isPending}
                       className="w-full bg-primary text-white hover:bg-primary/90"
                     >
@@ -717,14 +1029,38 @@ export default function ContentGeneration({
                       )}
                     </Button>
                     {uploadContentMutation.isPending && (
-                      <div className="text-sm text-neutral-600 mt-2">
-                        <p>Creating comprehensive LinkedIn content...</p>
-                        <p className="text-xs mt-1">
-                          Generating 7-8 unique posts with different angles and
-                          variations...
-                        </p>
+                      <div className="text-sm text-neutral-600 mt-2 flex items-start justify-between gap-2">
+                        <div>
+                          <p>
+                            Creating comprehensive LinkedIn content...
+                            {uploadGeneratedContent.length > 0 &&
+                              ` ${uploadGeneratedContent.length} posts so far`}
+                          </p>
+                          <p className="text-xs mt-1">
+                            Posts appear below as each one is written.
+                          </p>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => generationAbort.current?.abort()}
+                        >
+                          Cancel
+                        </Button>
                       </div>
                     )}
+                    {!uploadContentMutation.isPending &&
+                      uploadGeneratedContent.length > 0 && (
+                        <Button
+                          variant="outline"
+                          onClick={() => generateContentFromTranscript(true)}
+                          className="w-full"
+                          title="Generating again reuses the previous posts for this transcript; this writes new ones"
+                        >
+                          <RefreshCw className="mr-2" size={16} />
+                          Regenerate Fresh Posts
+                        </Button>
+                      )}
                   </div>
                 )}
 
@@ -734,12 +1070,35 @@ export default function ContentGeneration({
                     <h4 className="text-sm font-medium text-neutral-700">
                       Step 2b: Generate Video Clips
                     </h4>
+                    <CaptionOptions
+                      id="upload"
+                      value={uploadCaptions}
+                      onChange={setUploadCaptions}
+                    />
+                    <TightenOptions
+                      id="upload"
+                      value={uploadTighten}
+                      onChange={setUploadTighten}
+                    />
+                    <RenditionPicker
+                      id="upload"
+                      profiles={uploadProfiles}
+                      framing={uploadFraming}
+                      onChange={(profiles, framing) => {
+                        setUploadProfiles(profiles);
+                        setUploadFraming(framing);
+                      }}
+                    />
                     <Button
                       onClick={generateVideoClips}
-                      disabled={videoClipMutation.isPending}
+                      disabled={
+                        videoClipMutation.isPending ||
+                        isJobRunning("upload-clips")
+                      }
                       className="w-full bg-green-600 text-white hover:bg-green-700"
                     >
-                      {videoClipMutation.isPending ? (
+                      {videoClipMutation.isPending ||
+                      isJobRunning("upload-clips") ? (
                         <>
                           <Loader2 className="mr-2" size={16} />
                           Generating Video Clips...
@@ -751,11 +1110,16 @@ export default function ContentGeneration({
                         </>
                       )}
                     </Button>
-                    {videoClipMutation.isPending && (
-                      <div className="text-sm text-neutral-600 mt-2">
-                        <p>Creating video clips...</p>
-                      </div>
-                    )}
+                    {videoClipMutation.isPending &&
+                      !isJobRunning("upload-clips") && (
+                        <div className="text-sm text-neutral-600 mt-2">
+                          <p>
+                            {uploadProgress !== null
+                              ? `Uploading video (${uploadProgress}%)...`
+                              : "Queueing clip generation..."}
+                          </p>
+                        </div>
+                      )}
                   </div>
                 )}
 
@@ -765,7 +1129,7 @@ export default function ContentGeneration({
                     ✓ Generated {uploadGeneratedContent.length} LinkedIn posts!
                   </p>
                 )}
-                {videoClipMutation.isSuccess && (
+                {videoClipMutation.isSuccess && uploadGeneratedClips.length > 0 && (
                   <p className="text-sm text-green-600 mt-2">
                     ✓ Generated {uploadGeneratedClips.length} video clips with
                     precise timing!
@@ -904,7 +1268,7 @@ export default function ContentGeneration({
                               size="sm"
                               onClick={() => {
                                 const link = document.createElement("a");
-                                link.href = `/api/clips/${clip.id}/download`;
+                                link.href = `/api/clips/${clip.id}/download${uploadId ? `?uploadId=${uploadId}` : ""}`;
                                 link.download = `${clip.title.replace(/[^a-z0-9]/gi, "_").toLowerCase()}.mp4`;
                                 link.click();
                               }}
@@ -928,6 +1292,13 @@ export default function ContentGeneration({
                       <div className="text-xs text-neutral-500 mt-2">
                         Social Score: {clip.socialScore}/100
                       </div>
+                      {clip.adjustments && clip.adjustments.length > 0 && (
+                        <ul className="text-xs text-neutral-500 mt-1 list-disc pl-4">
+                          {clip.adjustments.map((adjustment) => (
+                            <li key={adjustment}>{adjustment}</li>
+                          ))}
+                        </ul>
+                      )}
                       {clip.detailed_caption && (
                         <div className="mt-3 p-3 bg-blue-50 border border-blue-200 rounded-lg">
                           <h6 className="text-xs font-medium text-blue-800 mb-1">
@@ -1350,7 +1721,7 @@ export default function ContentGeneration({
                       <video
                         controls
                         className="w-full h-full object-cover"
-                        src={`/api/clips/${viewingClip.id}/video`}
+                        src={`/api/clips/${viewingClip.id}/video${uploadId ? `?uploadId=${uploadId}` : ""}`}
                         onError={(e) => {
                           console.error("Video loading error:", e);
                           // Fallback to placeholder if video fails to load
@@ -1432,19 +1803,39 @@ export default function ContentGeneration({
             Duration: {formatTime(selectedSessionData?.duration || 0)} • Topic:{" "}
             {selectedSessionData?.topic}
           </p>
+          {cacheStats && cacheStats.hits + cacheStats.misses + cacheStats.bypassed > 0 && (
+            <p className="text-xs text-neutral-500">
+              AI cache: {cacheStats.hits} reused, {cacheStats.misses + cacheStats.bypassed}{" "}
+              generated
+            </p>
+          )}
         </div>
         <div className="flex items-center gap-3">
           <Button
             onClick={() =>
-              sessionContentMutation.mutate({ sessionId: selectedSession })
+              sessionContentMutation.mutate({
+                sessionId: selectedSession,
+                // Existing posts would come back unchanged from the cache
+                regenerate: contentPieces.length > 0,
+              })
             }
             disabled={!selectedSession || sessionContentMutation.isPending}
             className="bg-blue-600 text-white hover:bg-blue-700"
           >
             {sessionContentMutation.isPending
               ? "Generating..."
-              : "Generate All Content"}
+              : contentPieces.length > 0
+                ? "Regenerate All Content"
+                : "Generate All Content"}
           </Button>
+          {sessionContentMutation.isPending && (
+            <Button
+              variant="outline"
+              onClick={() => generationAbort.current?.abort()}
+            >
+              Cancel
+            </Button>
+          )}
           <Button
             onClick={() => downloadContentPackage(selectedSessionData)}
             disabled={!selectedSession}
@@ -1453,6 +1844,19 @@ export default function ContentGeneration({
             <Download className="mr-2" size={16} />
             Download Package
           </Button>
+          <div className="w-56">
+            <BrandProfileSelect
+              value={selectedSessionData?.brandProfileId ?? null}
+              disabled={!selectedSession}
+              showSummary={false}
+              onChange={(brandProfileId) =>
+                updateSessionBrandMutation.mutate({
+                  sessionId: selectedSession,
+                  brandProfileId,
+                })
+              }
+            />
+          </div>
           <Select value={selectedSession} onValueChange={setSelectedSession}>
             <SelectTrigger className="w-64">
               <SelectValue placeholder="Select a session" />
@@ -1470,6 +1874,41 @@ export default function ContentGeneration({
         </div>
       </div>
 
+      <JobProgress jobs={jobs} />
+      {selectedSession && (
+        <SpeakerFocus
+          owner="sessions"
+          id={selectedSession}
+          guestOnly={guestOnly}
+          onChange={setGuestOnly}
+        />
+      )}
+      {selectedSession && <UsagePanel owner="sessions" id={selectedSession} />}
+      {selectedSession && <GlossaryPanel owner="sessions" id={selectedSession} />}
+      {selectedSessionData && (
+        <SilencePanel
+          session={selectedSessionData}
+          busy={isJobRunning("session-silence") || isJobRunning("session-jump-cut")}
+          trimClips={sessionTrimSilence}
+          onTrimClipsChange={setSessionTrimSilence}
+          onJobQueued={(jobId, kind) =>
+            trackJob({
+              jobId,
+              kind,
+              label:
+                kind === "session-silence"
+                  ? "Finding silences"
+                  : "Rendering jump cut",
+              meta: {
+                sessionId: selectedSessionData.id,
+                title: selectedSessionData.title,
+              },
+            })
+          }
+        />
+      )}
+      {selectedSession && <TranscriptEditor owner="sessions" id={selectedSession} />}
+
       {/* Video Clips Section */}
       <Card>
         <CardContent className="p-6">
@@ -1494,13 +1933,20 @@ export default function ContentGeneration({
                     onClick={() =>
                       createVideoClipsMutation.mutate({
                         sessionId: selectedSession,
+                        captions: sessionCaptions,
+                        tighten: sessionTighten,
+                        trimSilence: sessionTrimSilence,
                       })
                     }
-                    disabled={createVideoClipsMutation.isPending}
+                    disabled={
+                      createVideoClipsMutation.isPending ||
+                      isJobRunning("session-clips")
+                    }
                     variant="outline"
                     className="border-primary text-primary hover:bg-primary/10"
                   >
-                    {createVideoClipsMutation.isPending
+                    {createVideoClipsMutation.isPending ||
+                    isJobRunning("session-clips")
                       ? "Cutting..."
                       : "Create Video Files"}
                   </Button>
@@ -1524,6 +1970,22 @@ export default function ContentGeneration({
             </div>
           </div>
 
+          {clips.length > 0 && (
+            <div className="mb-6 space-y-2">
+              <CaptionOptions
+                id="session"
+                value={sessionCaptions}
+                onChange={setSessionCaptions}
+              />
+              <TightenOptions
+                id="session"
+                value={sessionTighten}
+                onChange={setSessionTighten}
+                clips={clips.map((clip) => ({ id: clip.id, title: clip.title }))}
+              />
+            </div>
+          )}
+
           {clips.length === 0 && !generateClipsMutation.isPending && (
             <div className="text-center py-8 text-neutral-500">
               <p className="mb-2">No video clips generated yet</p>
@@ -2052,6 +2514,11 @@ export default function ContentGeneration({
                   </div>
                 </div>
 
+                <ClipRenditions
+                  clipId={viewingClip.id}
+                  tighten={sessionTighten.enabled ? sessionTighten : undefined}
+                />
+
                 <div className="flex items-center justify-between pt-4">
                   <Badge variant="outline">
                     Platform: {viewingClip.platform}
@@ -4,7 +4,22 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Bot, User, Send } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
-import type { Conversation } from "@shared/schema";
+import type { Conversation, Session } from "@shared/schema";
+
+interface PersonaSummary {
+  id: string;
+  label: string;
+  description: string;
+  maxFollowUps: number;
+}
+
+// Server's pacing call after each answer
+interface NextStep {
+  action: "follow-up" | "next-question" | "wrap-up";
+  reason: string;
+  elapsedSeconds: number;
+  targetSeconds: number;
+}
 
 interface ConversationFlowProps {
   sessionId: string;
@@ -26,6 +41,8 @@ export default function ConversationFlow({
   const [needsCorrection, setNeedsCorrection] = useState(false);
   const [currentBaseQuestion, setCurrentBaseQuestion] = useState<string>("");
   const [currentQuestion, setCurrentQuestion] = useState<string>("");
+  const [nextStep, setNextStep] = useState<NextStep | null>(null);
+  const [closingAsked, setClosingAsked] = useState(false);
   const queryClient = useQueryClient();
 
   const { data: conversations = [] } = useQuery<Conversation[]>({
@@ -33,6 +50,16 @@ export default function ConversationFlow({
     enabled: !!sessionId,
   });
 
+  const { data: session } = useQuery<Session>({
+    queryKey: ["/api/sessions", sessionId],
+    enabled: !!sessionId,
+  });
+  const { data: personas = [] } = useQuery<PersonaSummary[]>({
+    queryKey: ["/api/personas"],
+  });
+  const persona = personas.find((p) => p.id === session?.aiPersonality);
+  const maxFollowUps = persona?.maxFollowUps ?? 2;
+
   const createConversationMutation = useMutation({
     mutationFn: async (data: {
       sessionId: string;
@@ -58,6 +85,7 @@ export default function ConversationFlow({
       followUpIndex?: number;
       baseQuestion?: string;
       userResponse?: string;
+      closing?: boolean;
     }) => {
       const res = await apiRequest("POST", "/api/ai/question", data);
       return res.json();
@@ -84,9 +112,22 @@ export default function ConversationFlow({
       response: string;
       sessionId: string;
       questionId?: string;
+      followUpsAsked?: number;
     }) => {
-      const res = await apiRequest("POST", "/api/ai/feedback", data);
-      return res.json();
+      try {
+        const res = await apiRequest("POST", "/api/ai/feedback", data);
+        return res.json();
+      } catch (error) {
+        // Keep the interview moving; pacing falls back to the follow-up count
+        console.warn("AI feedback unavailable:", error);
+        return {
+          feedbacks: [
+            { type: "info", message: "Feedback isn't available for this answer." },
+          ],
+          needsCorrection: false,
+          responseQuality: 0,
+        };
+      }
     },
   });
 
@@ -144,7 +185,9 @@ export default function ConversationFlow({
       response: text,
       sessionId,
       questionId: currentQuestionId || undefined,
+      followUpsAsked: followUpIndex,
     });
+    setNextStep(feedback.nextStep ?? null);
 
     // Add AI feedback
     await createConversationMutation.mutateAsync({
@@ -157,6 +200,12 @@ export default function ConversationFlow({
 
     setNeedsCorrection(feedback.needsCorrection);
 
+    // The server paces the interview against its target duration; older
+    // responses without nextStep fall back to a fixed number of follow-ups
+    const action: NextStep["action"] =
+      feedback.nextStep?.action ??
+      (followUpIndex < maxFollowUps ? "follow-up" : "next-question");
+
     // Determine next action based on feedback
     if (feedback.needsCorrection) {
       // If correction needed, ask for clarification/improvement (doesn't count as follow-up)
@@ -170,9 +219,23 @@ export default function ConversationFlow({
         });
         setIsTyping(false);
       }, 1500);
-    } else if (currentQuestionId && followUpIndex < 2) {
-      // Ask contextual follow-up question based on user's response (max 2 follow-ups)
-      console.log(`Asking follow-up question ${followUpIndex + 1} of 2`);
+    } else if (action === "wrap-up" && closingAsked) {
+      // The closing question has been answered
+      setIsTyping(false);
+    } else if (action === "wrap-up") {
+      console.log("Target duration reached, asking closing question");
+      setTimeout(async () => {
+        await getAIQuestionMutation.mutateAsync({ sessionId, closing: true });
+        setClosingAsked(true);
+        setFollowUpIndex(0);
+        setCurrentBaseQuestion("");
+        setIsTyping(false);
+      }, 2000);
+    } else if (currentQuestionId && action === "follow-up") {
+      // Ask contextual follow-up question based on user's response
+      console.log(
+        `Asking follow-up question ${followUpIndex + 1} of ${maxFollowUps}`,
+      );
       setTimeout(async () => {
         await getAIQuestionMutation.mutateAsync({
           sessionId,
@@ -185,7 +248,7 @@ export default function ConversationFlow({
         setIsTyping(false);
       }, 2000);
     } else {
-      // Move to next primary question after 2 follow-ups or no more questions
+      // Move to the next primary question
       console.log(
         `Moving to next question. Follow-ups completed: ${followUpIndex}`,
       );
@@ -237,10 +300,10 @@ export default function ConversationFlow({
               {followUpIndex > 0 && (
                 <div className="flex items-center space-x-2 mt-1">
                   <p className="text-xs text-blue-600">
-                    Follow-up question {followUpIndex} of 2
+                    Follow-up question {followUpIndex} of {maxFollowUps}
                   </p>
                   <div className="flex space-x-1">
-                    {[1, 2].map((num) => (
+                    {Array.from({ length: maxFollowUps }, (_, i) => i + 1).map((num) => (
                       <div
                         key={num}
                         className={`w-2 h-2 rounded-full ${
@@ -251,6 +314,18 @@ export default function ConversationFlow({
                   </div>
                 </div>
               )}
+              {nextStep && (
+                <p className="text-xs text-blue-600 mt-1">
+                  {Math.round(nextStep.elapsedSeconds / 60)} of ~
+                  {Math.round(nextStep.targetSeconds / 60)} min
+                  {persona ? ` · ${persona.label}` : ""} · {nextStep.reason}
+                </p>
+              )}
+              {closingAsked && nextStep?.action === "wrap-up" && (
+                <p className="text-xs font-medium text-blue-700 mt-1">
+                  Interview complete. You can end the session.
+                </p>
+              )}
             </div>
           </div>
         </div>
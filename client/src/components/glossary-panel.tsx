@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { apiRequest } from "@/lib/queryClient";
+import { BookOpen, Plus, Wand2, X } from "lucide-react";
+import type { GlossaryTerm, InsertGlossaryTerm } from "@shared/schema";
+
+interface WordTiming {
+  word: string;
+  start: number;
+  end: number;
+}
+
+interface GlossaryReport {
+  total: number;
+  byTerm: Record<string, number>;
+  replacements: Array<{ position: number; start: number; from: string; to: string }>;
+}
+
+interface GlossaryPanelProps {
+  owner: "sessions" | "uploads";
+  id?: string | null;
+  onCorrected?: (words: WordTiming[]) => void;
+}
+
+// Names and terms the transcriber should spell correctly. Workspace terms
+// apply to every recording; a session can add its own. Applying the glossary
+// corrects an existing transcript and lists what was replaced.
+export default function GlossaryPanel({ owner, id, onCorrected }: GlossaryPanelProps) {
+  const queryClient = useQueryClient();
+  const sessionId = owner === "sessions" ? id || undefined : undefined;
+  const [term, setTerm] = useState("");
+  const [aliases, setAliases] = useState("");
+  const [sessionOnly, setSessionOnly] = useState(false);
+  const [report, setReport] = useState<GlossaryReport | null>(null);
+
+  const { data: terms = [] } = useQuery<GlossaryTerm[]>({
+    queryKey: [`/api/glossary${sessionId ? `?sessionId=${sessionId}` : ""}`],
+  });
+
+  const invalidateGlossary = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/glossary"),
+    });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertGlossaryTerm) => {
+      const res = await apiRequest("POST", "/api/glossary", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateGlossary();
+      setTerm("");
+      setAliases("");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (termId: string) => apiRequest("DELETE", `/api/glossary/${termId}`),
+    onSuccess: invalidateGlossary,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/${owner}/${id}/transcript/glossary`);
+      return res.json();
+    },
+    onSuccess: (result: { words: WordTiming[]; report: GlossaryReport }) => {
+      setReport(result.report);
+      if (result.report.total === 0) return;
+      queryClient.setQueryData([`/api/${owner}`, id, "transcript", "words"], result.words);
+      queryClient.invalidateQueries({ queryKey: [`/api/${owner}`, id, "speakers"] });
+      onCorrected?.(result.words);
+    },
+  });
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!term.trim()) return;
+    createMutation.mutate({
+      term: term.trim(),
+      aliases: aliases
+        .split(",")
+        .map((alias) => alias.trim())
+        .filter(Boolean),
+      sessionId: sessionOnly && sessionId ? sessionId : null,
+    });
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-neutral-800">
+          <BookOpen className="text-primary mr-2 inline" size={20} />
+          Glossary
+        </h3>
+
+        {terms.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {terms.map((t) => (
+              <Badge
+                key={t.id}
+                variant={t.sessionId ? "default" : "secondary"}
+                title={[
+                  t.sessionId ? "This session" : "Workspace",
+                  t.aliases.length > 0 ? `also heard as: ${t.aliases.join(", ")}` : "",
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              >
+                {t.term}
+                <button
+                  type="button"
+                  className="ml-1"
+                  onClick={() => deleteMutation.mutate(t.id)}
+                  aria-label={`Remove ${t.term}`}
+                >
+                  <X size={12} />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor={`${owner}-glossary-term`} className="text-xs">
+              Term
+            </Label>
+            <Input
+              id={`${owner}-glossary-term`}
+              value={term}
+              onChange={(e) => setTerm(e.target.value)}
+              placeholder="LangChain"
+              className="h-8 w-40"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${owner}-glossary-aliases`} className="text-xs">
+              Misheard as (comma-separated)
+            </Label>
+            <Input
+              id={`${owner}-glossary-aliases`}
+              value={aliases}
+              onChange={(e) => setAliases(e.target.value)}
+              placeholder="long chain, lane chain"
+              className="h-8 w-56"
+            />
+          </div>
+          {sessionId && (
+            <div className="flex items-center gap-2 pb-1">
+              <Switch
+                id={`${owner}-glossary-session-only`}
+                checked={sessionOnly}
+                onCheckedChange={setSessionOnly}
+              />
+              <Label htmlFor={`${owner}-glossary-session-only`} className="text-xs">
+                This session only
+              </Label>
+            </div>
+          )}
+          <Button type="submit" size="sm" disabled={!term.trim() || createMutation.isPending}>
+            <Plus size={14} className="mr-1" />
+            Add
+          </Button>
+        </form>
+
+        {id && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => applyMutation.mutate()}
+            disabled={terms.length === 0 || applyMutation.isPending}
+          >
+            <Wand2 size={14} className="mr-1" />
+            Apply to transcript
+          </Button>
+        )}
+
+        {report && (
+          <div className="text-xs text-neutral-600 space-y-1">
+            <p>
+              {report.total === 0
+                ? "Nothing to correct."
+                : `Corrected ${report.total} ${report.total === 1 ? "word" : "words"}:`}
+            </p>
+            {report.replacements.slice(0, 20).map((r) => (
+              <p key={r.position}>
+                <span className="text-neutral-400">
+                  {Math.floor(r.start / 60)}:{Math.floor(r.start % 60).toString().padStart(2, "0")}
+                </span>{" "}
+                {r.from} → <strong>{r.to}</strong>
+              </p>
+            ))}
+            {report.replacements.length > 20 && (
+              <p>…and {report.replacements.length - 20} more</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,38 @@
+import { Progress } from "@/components/ui/progress";
+import { Loader2 } from "lucide-react";
+import type { TrackedJob } from "@/hooks/use-jobs";
+
+interface JobProgressProps {
+  jobs: TrackedJob[];
+}
+
+// Live progress for background jobs started from this page
+export default function JobProgress({ jobs }: JobProgressProps) {
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-neutral-200 p-3">
+      {jobs.map((entry) => {
+        const progress = entry.job?.progress ?? 0;
+        const message =
+          entry.job?.status === "queued"
+            ? entry.job.message || "Queued"
+            : entry.job?.message || "Starting";
+
+        return (
+          <div key={entry.jobId} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="flex items-center font-medium text-neutral-700">
+                <Loader2 className="mr-2 animate-spin" size={14} />
+                {entry.label}
+              </span>
+              <span className="text-neutral-500">{progress}%</span>
+            </div>
+            <Progress value={progress} />
+            <p className="text-xs text-neutral-500">{message}</p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
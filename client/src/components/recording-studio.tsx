@@ -19,12 +19,30 @@ import {
   AlertTriangle,
   Download,
   Trash2,
+  Loader2,
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { uploadResumable } from "@/lib/resumable-upload";
+import type { RecordingIngest } from "@/lib/recording-ingest";
+import {
+  listRecordings,
+  assembleRecording,
+  deleteRecording,
+  type StoredRecording,
+} from "@/lib/recording-store";
 import CameraPreview from "./camera-preview";
 import ConversationFlow from "./conversation-flow";
+import BrandProfileSelect from "./brand-profile-select";
 import type { InsertSession } from "@shared/schema";
 
+const TARGET_DURATIONS = [
+  "5-10 minutes",
+  "10-15 minutes",
+  "15-20 minutes",
+  "20-30 minutes",
+  "30-45 minutes",
+];
+
 interface RecordingStudioProps {
   onNavigateToContent?: (sessionId: string) => void;
 }
@@ -40,15 +58,31 @@ export default function RecordingStudio({
   const [allTranscriptions, setAllTranscriptions] = useState<string[]>([]);
   const [generatedContent, setGeneratedContent] = useState<any>(null);
   const [isGeneratingContent, setIsGeneratingContent] = useState(false);
+  // Recordings left in IndexedDB by a crash or reload before they were uploaded
+  const [unfinishedRecordings, setUnfinishedRecordings] = useState<
+    StoredRecording[]
+  >([]);
+  const [videoUploadProgress, setVideoUploadProgress] = useState<
+    number | null
+  >(null);
+  const [videoUploadError, setVideoUploadError] = useState<string | null>(null);
+  const [videoSaved, setVideoSaved] = useState(false);
   const [sessionSettings, setSessionSettings] = useState({
     title: "Entrepreneurial Journey",
     topic: "Entrepreneurial Journey",
     targetDuration: "15-20 minutes",
     aiPersonality: "friendly",
+    brandProfileId: null as string | null,
   });
 
   const queryClient = useQueryClient();
 
+  const { data: personas = [] } = useQuery<
+    Array<{ id: string; label: string; description: string }>
+  >({
+    queryKey: ["/api/personas"],
+  });
+
   const createSessionMutation = useMutation({
     mutationFn: async (data: InsertSession) => {
       const res = await apiRequest("POST", "/api/sessions", data);
@@ -76,7 +110,7 @@ export default function RecordingStudio({
     },
   });
 
-  const handleStartSession = async (): Promise<void> => {
+  const handleStartSession = async (): Promise<string> => {
     return new Promise((resolve, reject) => {
       if (!currentSession) {
         createSessionMutation.mutate(
@@ -88,7 +122,7 @@ export default function RecordingStudio({
             onSuccess: (data) => {
               setCurrentSession(data.id);
               console.log("Session started:", data.id);
-              resolve();
+              resolve(data.id);
             },
             onError: (error) => {
               console.error("Failed to start session:", error);
@@ -97,7 +131,7 @@ export default function RecordingStudio({
           },
         );
       } else {
-        resolve();
+        resolve(currentSession);
       }
     });
   };
@@ -113,7 +147,59 @@ export default function RecordingStudio({
     }
   };
 
-  const handleRecordingComplete = (blob: Blob) => {
+  useEffect(() => {
+    listRecordings()
+      .then(setUnfinishedRecordings)
+      .catch((error) => console.warn("Could not read stored recordings:", error));
+  }, []);
+
+  // Upload a recording and attach it to its session. The IndexedDB copy is
+  // only dropped once the server has the video.
+  const saveRecording = async (
+    blob: Blob,
+    sessionId: string,
+    recordingId?: string,
+  ) => {
+    const extension = blob.type.includes("mp4") ? "mp4" : "webm";
+    const file = new File([blob], `session_${sessionId}.${extension}`, {
+      type: blob.type || "video/webm",
+      lastModified: 0, // stable fingerprint so a retry resumes the same upload
+    });
+
+    setVideoUploadError(null);
+    setVideoUploadProgress(0);
+    try {
+      const uploadId = await uploadResumable(file, {
+        onProgress: (uploaded, total) =>
+          setVideoUploadProgress(Math.round((uploaded / total) * 100)),
+      });
+      await apiRequest("POST", `/api/sessions/${sessionId}/video`, {
+        uploadId,
+        duration: Math.floor(blob.size / 100000), // Rough duration estimate
+      });
+      await apiRequest("PATCH", `/api/sessions/${sessionId}`, {
+        status: "completed",
+      });
+      if (recordingId) await deleteRecording(recordingId);
+      await apiRequest("POST", `/api/sessions/${sessionId}/transcribe`);
+      setVideoSaved(true);
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      console.log("Session video uploaded:", sessionId);
+    } catch (error) {
+      console.error("Session video upload failed:", error);
+      setVideoUploadError(
+        "Video upload failed. It is saved in this browser and can be recovered after a reload.",
+      );
+    } finally {
+      setVideoUploadProgress(null);
+    }
+  };
+
+  const handleRecordingComplete = async (
+    blob: Blob,
+    recordingId?: string,
+    ingest?: RecordingIngest,
+  ) => {
     console.log(
       "Recording completed:",
       blob,
@@ -125,21 +211,63 @@ export default function RecordingStudio({
 
     // Store video blob for download
     setVideoBlob(blob);
-    const videoUrl = URL.createObjectURL(blob);
+    setVideoSaved(false);
     console.log("Video blob stored, download should now be available");
 
-    if (currentSession) {
-      updateSessionMutation.mutate({
-        id: currentSession,
-        data: {
+    // Normally the chunks already reached the server during the interview;
+    // it assembles the video and starts transcribing
+    if (ingest && !ingest.failed) {
+      try {
+        const result = await ingest.finish();
+        console.log("Live upload complete:", result.videoKey, "job:", result.jobId);
+        if (recordingId) await deleteRecording(recordingId);
+        setVideoSaved(true);
+        queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+        return;
+      } catch (error) {
+        console.warn("Live upload incomplete, uploading whole recording:", error);
+      }
+    }
+
+    const sessionId = ingest?.sessionId ?? currentSession;
+    if (sessionId) {
+      await saveRecording(blob, sessionId, recordingId);
+    }
+  };
+
+  const handleRecoverRecording = async (recording: StoredRecording) => {
+    try {
+      const blob = await assembleRecording(recording.id);
+      setVideoBlob(blob);
+      setUnfinishedRecordings((current) =>
+        current.filter((r) => r.id !== recording.id),
+      );
+
+      // Crashed before the session was created: give it one now
+      let sessionId = recording.sessionId;
+      if (!sessionId) {
+        const res = await apiRequest("POST", "/api/sessions", {
+          ...sessionSettings,
+          title: `${sessionSettings.title} (recovered)`,
           status: "completed",
-          videoUrl: videoUrl,
-          duration: Math.floor(blob.size / 100000), // Rough duration estimate
-        },
-      });
+        });
+        sessionId = (await res.json()).id as string;
+      }
+
+      await saveRecording(blob, sessionId, recording.id);
+    } catch (error) {
+      console.error("Failed to recover recording:", error);
+      setVideoUploadError("Could not recover the recording.");
     }
   };
 
+  const handleDiscardRecording = async (recording: StoredRecording) => {
+    await deleteRecording(recording.id);
+    setUnfinishedRecordings((current) =>
+      current.filter((r) => r.id !== recording.id),
+    );
+  };
+
   // Fetch transcript when session changes
   const { data: conversations = [] } = useQuery<any[]>({
     queryKey: ["/api/sessions", currentSession, "conversations"],
@@ -230,6 +358,7 @@ export default function RecordingStudio({
 
   const handleClearVideo = () => {
     setVideoBlob(null);
+    setVideoSaved(false);
     setTranscriptionText("");
     setGeneratedContent(null);
     console.log("Video blob cleared");
@@ -338,6 +467,134 @@ export default function RecordingStudio({
 
       {/* Session Settings Panel - Right */}
       <div className="lg:col-span-1 space-y-6">
+        {unfinishedRecordings.length > 0 && (
+          <Card>
+            <CardContent className="p-6 space-y-3">
+              <div className="flex items-center text-amber-700">
+                <AlertTriangle className="mr-2" size={18} />
+                <h3 className="text-lg font-semibold">Unfinished Recording</h3>
+              </div>
+              {unfinishedRecordings.map((recording) => (
+                <div
+                  key={recording.id}
+                  className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-2"
+                >
+                  <p className="text-xs text-amber-800">
+                    Started {new Date(recording.startedAt).toLocaleString()} •{" "}
+                    {Math.round((recording.size / 1024 / 1024) * 100) / 100} MB
+                    {recording.finished ? "" : " • interrupted"}
+                  </p>
+                  <div className="flex space-x-2">
+                    <Button
+                      size="sm"
+                      onClick={() => handleRecoverRecording(recording)}
+                      disabled={videoUploadProgress !== null}
+                      className="flex-1"
+                    >
+                      <RotateCcw className="mr-2" size={14} />
+                      Recover & Upload
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDiscardRecording(recording)}
+                      className="text-red-600 border-red-200 hover:bg-red-50"
+                    >
+                      <Trash2 size={14} />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Interview setup, fixed once the session starts */}
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            <h3 className="text-lg font-semibold text-neutral-800">
+              Session Settings
+            </h3>
+            <div className="space-y-2">
+              <Label htmlFor="session-title">Title</Label>
+              <Input
+                id="session-title"
+                value={sessionSettings.title}
+                disabled={!!currentSession}
+                onChange={(e) =>
+                  setSessionSettings((prev) => ({
+                    ...prev,
+                    title: e.target.value,
+                    topic: e.target.value,
+                  }))
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Interviewer</Label>
+              <Select
+                value={sessionSettings.aiPersonality}
+                disabled={!!currentSession}
+                onValueChange={(value) =>
+                  setSessionSettings((prev) => ({ ...prev, aiPersonality: value }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {personas.map((persona) => (
+                    <SelectItem key={persona.id} value={persona.id}>
+                      {persona.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-neutral-500">
+                {personas.find((p) => p.id === sessionSettings.aiPersonality)
+                  ?.description}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Target Duration</Label>
+              <Select
+                value={sessionSettings.targetDuration}
+                disabled={!!currentSession}
+                onValueChange={(value) =>
+                  setSessionSettings((prev) => ({ ...prev, targetDuration: value }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TARGET_DURATIONS.map((duration) => (
+                    <SelectItem key={duration} value={duration}>
+                      {duration}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Brand Voice</Label>
+              {/* Only affects generated content, so it can change mid-session */}
+              <BrandProfileSelect
+                value={sessionSettings.brandProfileId}
+                onChange={(brandProfileId) => {
+                  setSessionSettings((prev) => ({ ...prev, brandProfileId }));
+                  if (currentSession) {
+                    updateSessionMutation.mutate({
+                      id: currentSession,
+                      data: { brandProfileId },
+                    });
+                  }
+                }}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Quick Actions */}
         <Card>
           <CardContent className="p-6">
@@ -385,6 +642,22 @@ export default function RecordingStudio({
                       </div>
                       <CheckCircle className="text-green-600" size={20} />
                     </div>
+                    {videoUploadProgress !== null && (
+                      <p className="flex items-center text-xs text-green-700 mt-2">
+                        <Loader2 className="mr-1 animate-spin" size={12} />
+                        Uploading to server ({videoUploadProgress}%)
+                      </p>
+                    )}
+                    {videoSaved && (
+                      <p className="text-xs text-green-700 mt-2">
+                        Saved to the server • transcription started
+                      </p>
+                    )}
+                    {videoUploadError && (
+                      <p className="text-xs text-red-600 mt-2">
+                        {videoUploadError}
+                      </p>
+                    )}
                   </div>
 
                   <div className="space-y-2">
@@ -0,0 +1,130 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Download, Scissors, VolumeX } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Session, SilenceMap } from "@shared/schema";
+
+interface SilencePanelProps {
+  session: Session;
+  // The page follows the queued job and refreshes the session when it ends
+  onJobQueued: (jobId: string, kind: "session-silence" | "session-jump-cut") => void;
+  busy?: boolean;
+  // Sent with the session's clip renders as `trimSilence`
+  trimClips: boolean;
+  onTrimClipsChange: (trimClips: boolean) => void;
+}
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.round(seconds % 60).toString().padStart(2, "0")}`;
+
+// Silence map of a session's recording, and the jump-cut edit of the whole
+// interview built from it
+export default function SilencePanel({
+  session,
+  onJobQueued,
+  busy,
+  trimClips,
+  onTrimClipsChange,
+}: SilencePanelProps) {
+  const { toast } = useToast();
+
+  const { data: silenceMap } = useQuery<SilenceMap>({
+    queryKey: ["/api/sessions", session.id, "silence-map"],
+  });
+
+  const queueMutation = useMutation({
+    mutationFn: async (kind: "session-silence" | "session-jump-cut") => {
+      const res = await apiRequest(
+        "POST",
+        kind === "session-silence"
+          ? `/api/sessions/${session.id}/silence-map`
+          : `/api/sessions/${session.id}/jump-cut`,
+      );
+      const { jobId } = await res.json();
+      onJobQueued(jobId, kind);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't start processing",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const silent = silenceMap
+    ? silenceMap.silences.reduce((total, s) => total + (s.end - s.start), 0)
+    : 0;
+  const disabled = busy || queueMutation.isPending;
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <h3 className="text-sm font-semibold text-neutral-800">
+          <VolumeX className="mr-2 inline" size={16} />
+          Silence
+        </h3>
+
+        <p className="text-xs text-neutral-600">
+          {silenceMap
+            ? `${silenceMap.silences.length} silences, ${formatDuration(silent)} of ${formatDuration(silenceMap.duration)} (quieter than ${silenceMap.noiseDb} dB for ${silenceMap.minSilence}s or more)`
+            : "Not analyzed yet. It runs before the first trimmed clip or jump cut."}
+        </p>
+        {session.jumpCut && (
+          <p className="text-xs text-neutral-600">
+            Jump cut: {formatDuration(session.jumpCut.edits.originalDuration)} →{" "}
+            {formatDuration(session.jumpCut.edits.editedDuration)}
+          </p>
+        )}
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="session-trim-silence" className="text-sm">
+            Trim silence from clip starts and ends
+          </Label>
+          <Switch
+            id="session-trim-silence"
+            checked={trimClips}
+            onCheckedChange={onTrimClipsChange}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => queueMutation.mutate("session-silence")}
+            disabled={disabled}
+          >
+            <VolumeX className="mr-1" size={14} />
+            {silenceMap ? "Analyze again" : "Analyze silence"}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => queueMutation.mutate("session-jump-cut")}
+            disabled={disabled}
+          >
+            <Scissors className="mr-1" size={14} />
+            {session.jumpCut ? "Render jump cut again" : "Render jump cut"}
+          </Button>
+          {session.jumpCut && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                window.open(`/api/sessions/${session.id}/jump-cut/video?download=1`, "_blank")
+              }
+            >
+              <Download className="mr-1" size={14} />
+              Download jump cut
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeftRight, Users } from "lucide-react";
+import type { SpeakerSegment } from "@shared/schema";
+
+interface SpeakerFocusProps {
+  owner: "sessions" | "uploads";
+  id: string;
+  guestOnly: boolean;
+  onChange: (guestOnly: boolean) => void;
+}
+
+const talkMinutes = (segments: SpeakerSegment[], speaker: string) =>
+  segments
+    .filter((segment) => segment.speaker === speaker)
+    .reduce((total, segment) => total + segment.endTime - segment.startTime, 0) / 60;
+
+// Choose whether posts and clips come from the whole interview or only the
+// guest's answers, and fix the speakers when the wrong voice was taken as
+// the guest
+export default function SpeakerFocus({ owner, id, guestOnly, onChange }: SpeakerFocusProps) {
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/${owner}`, id, "speakers"];
+  const { data: segments = [] } = useQuery<SpeakerSegment[]>({
+    queryKey,
+    enabled: !!id,
+  });
+
+  const swapMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/${owner}/${id}/speakers/swap`);
+      return res.json();
+    },
+    onSuccess: (swapped: SpeakerSegment[]) => {
+      queryClient.setQueryData(queryKey, swapped);
+    },
+  });
+
+  // Sessions can fall back to their conversation timeline; uploads need
+  // speakers identified during transcription
+  const unavailable = owner === "uploads" && segments.length === 0;
+  useEffect(() => {
+    if (unavailable && guestOnly) onChange(false);
+  }, [unavailable, guestOnly]);
+
+  if (unavailable) return null;
+
+  return (
+    <div className="space-y-2 rounded-lg border border-neutral-200 p-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={`${owner}-guest-only`} className="text-sm">
+          <Users className="mr-2 inline" size={14} />
+          Guest answers only
+        </Label>
+        <Switch
+          id={`${owner}-guest-only`}
+          checked={guestOnly}
+          onCheckedChange={onChange}
+        />
+      </div>
+
+      {segments.length > 0 && (
+        <div className="flex items-center justify-between text-xs text-neutral-500">
+          <span>
+            Guest {talkMinutes(segments, "guest").toFixed(1)} min · Interviewer{" "}
+            {talkMinutes(segments, "interviewer").toFixed(1)} min
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => swapMutation.mutate()}
+            disabled={swapMutation.isPending}
+            title="Swap guest and interviewer"
+          >
+            <ArrowLeftRight size={14} />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
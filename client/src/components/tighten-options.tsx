@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Eye, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { EditDecisionList } from "@shared/schema";
+
+// Sent to the clip rendering endpoints as `tighten`
+export interface TightenSettings {
+  enabled: boolean;
+  maxPause: number | null; // null keeps every pause
+}
+
+interface TightenOptionsProps {
+  id: string;
+  value: TightenSettings;
+  onChange: (value: TightenSettings) => void;
+  // Session clips whose edit decisions can be previewed before rendering
+  clips?: Array<{ id: string; title: string }>;
+}
+
+const KEEP_PAUSES = "keep";
+const PAUSE_CHOICES = [0.5, 0.8, 1.5];
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, "0")}`;
+
+const REASON_LABELS: Record<EditDecisionList["cuts"][number]["reason"], string> = {
+  filler: "Filler",
+  "false-start": "False start",
+  pause: "Pause",
+  silence: "Silence",
+};
+
+// Render clips with fillers, false starts and long pauses cut out, and
+// preview what would be cut from each clip
+export default function TightenOptions({ id, value, onChange, clips }: TightenOptionsProps) {
+  const [preview, setPreview] = useState<Array<{ title: string; edits: EditDecisionList }> | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadPreview = async () => {
+    if (!clips) return;
+    setLoading(true);
+    try {
+      const results = await Promise.all(
+        clips.map(async (clip) => {
+          const res = await apiRequest("POST", `/api/clips/${clip.id}/edit-decisions`, {
+            maxPause: value.maxPause,
+          });
+          return { title: clip.title, edits: (await res.json()) as EditDecisionList };
+        }),
+      );
+      setPreview(results);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border border-neutral-200 p-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={`${id}-tighten`} className="text-sm">
+          Remove fillers and long pauses
+        </Label>
+        <Switch
+          id={`${id}-tighten`}
+          checked={value.enabled}
+          onCheckedChange={(enabled) => onChange({ ...value, enabled })}
+        />
+      </div>
+
+      {value.enabled && (
+        <div className="flex items-center gap-2">
+          <Select
+            value={value.maxPause === null ? KEEP_PAUSES : String(value.maxPause)}
+            onValueChange={(choice) =>
+              onChange({ ...value, maxPause: choice === KEEP_PAUSES ? null : Number(choice) })
+            }
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAUSE_CHOICES.map((seconds) => (
+                <SelectItem key={seconds} value={String(seconds)}>
+                  Shorten pauses over {seconds}s
+                </SelectItem>
+              ))}
+              <SelectItem value={KEEP_PAUSES}>Keep all pauses</SelectItem>
+            </SelectContent>
+          </Select>
+          {clips && clips.length > 0 && (
+            <Button variant="outline" size="sm" onClick={loadPreview} disabled={loading}>
+              {loading ? (
+                <Loader2 className="mr-1 animate-spin" size={14} />
+              ) : (
+                <Eye className="mr-1" size={14} />
+              )}
+              Preview edits
+            </Button>
+          )}
+        </div>
+      )}
+
+      <Dialog open={preview !== null} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit decisions</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 text-sm">
+            {preview?.map(({ title, edits }) => (
+              <div key={title}>
+                <p className="font-medium">
+                  {title}{" "}
+                  <span className="font-normal text-neutral-500">
+                    {edits.originalDuration.toFixed(1)}s → {edits.editedDuration.toFixed(1)}s
+                  </span>
+                </p>
+                {edits.cuts.length === 0 ? (
+                  <p className="text-neutral-500">Nothing to cut</p>
+                ) : (
+                  <ul className="text-neutral-600">
+                    {edits.cuts.map((cut) => (
+                      <li key={cut.start}>
+                        <span className="text-neutral-400">
+                          {formatTime(cut.start)}–{formatTime(cut.end)}
+                        </span>{" "}
+                        {REASON_LABELS[cut.reason]}
+                        {cut.text && <> “{cut.text}”</>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
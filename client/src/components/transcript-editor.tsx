@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Combine, FileText, Loader2, Pencil } from "lucide-react";
+import type { SpeakerSegment } from "@shared/schema";
+
+interface WordTiming {
+  word: string;
+  start: number;
+  end: number;
+}
+
+type TranscriptEdit =
+  | { op: "replace"; position: number; word: string }
+  | { op: "merge"; position: number }
+  | { op: "split"; position: number; words: string[] }
+  | { op: "speaker"; from: number; to: number; speaker: "interviewer" | "guest" };
+
+interface TranscriptEditorProps {
+  owner: "sessions" | "uploads";
+  id: string;
+  onEdited?: (words: WordTiming[]) => void;
+}
+
+interface Selection {
+  from: number;
+  to: number;
+}
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, "0")}`;
+
+// Correct the word-level transcript in place. Click a word to fix it (typing
+// several words splits it), merge it with the next word, or shift-click to
+// select a run of words and give it to the other speaker. Every edit keeps
+// the word timings, so subtitles, captions, search and later generations use
+// the corrected words.
+export default function TranscriptEditor({ owner, id, onEdited }: TranscriptEditorProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const wordsKey = [`/api/${owner}`, id, "transcript", "words"];
+  const speakersKey = [`/api/${owner}`, id, "speakers"];
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const { data: words = [], isLoading } = useQuery<WordTiming[]>({
+    queryKey: wordsKey,
+    enabled: !!id,
+  });
+  const { data: segments = [] } = useQuery<SpeakerSegment[]>({
+    queryKey: speakersKey,
+    enabled: !!id,
+  });
+
+  const editMutation = useMutation({
+    mutationFn: async (edits: TranscriptEdit[]) => {
+      const res = await apiRequest("POST", `/api/${owner}/${id}/transcript/edits`, { edits });
+      return res.json();
+    },
+    onSuccess: (edited: { words: WordTiming[]; speakers: SpeakerSegment[] }) => {
+      queryClient.setQueryData(wordsKey, edited.words);
+      queryClient.invalidateQueries({ queryKey: speakersKey });
+      setSelection(null);
+      onEdited?.(edited.words);
+    },
+    onError: (error) => {
+      toast({
+        title: "Edit failed",
+        description: error instanceof Error ? error.message : "Could not save the correction",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const select = (position: number, extend: boolean) => {
+    if (extend && selection) {
+      setSelection({
+        from: Math.min(selection.from, position),
+        to: Math.max(selection.to, position),
+      });
+      return;
+    }
+    setSelection({ from: position, to: position });
+    setDraft(words[position].word.trim());
+  };
+
+  const saveWord = () => {
+    if (!selection) return;
+    const parts = draft.trim().split(/\s+/).filter(Boolean);
+    if (parts.length === 0) return;
+    editMutation.mutate([
+      parts.length > 1
+        ? { op: "split", position: selection.from, words: parts }
+        : { op: "replace", position: selection.from, word: parts[0] },
+    ]);
+  };
+
+  const speakerAt = (position: number) =>
+    segments.find((s) => s.startPosition <= position && position <= s.endPosition)?.speaker;
+
+  // Paragraph per speaker turn, or the whole transcript when there are none
+  const turns =
+    segments.length > 0
+      ? segments.map((s) => ({ speaker: s.speaker, from: s.startPosition, to: s.endPosition }))
+      : [{ speaker: undefined, from: 0, to: words.length - 1 }];
+
+  if (!id) return null;
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-neutral-800">
+          <FileText className="text-primary mr-2 inline" size={20} />
+          Transcript
+        </h3>
+
+        {isLoading && <Loader2 className="animate-spin text-neutral-400" size={16} />}
+        {!isLoading && words.length === 0 && (
+          <p className="text-sm text-neutral-500">
+            Transcribe the recording to edit its words.
+          </p>
+        )}
+
+        {selection && (
+          <div className="flex flex-wrap items-center gap-2 rounded-lg border border-neutral-200 p-3">
+            <span className="text-xs text-neutral-500">
+              {formatTime(words[selection.from]?.start ?? 0)}
+              {selection.to > selection.from && ` – ${formatTime(words[selection.to]?.end ?? 0)}`}
+            </span>
+            {selection.from === selection.to ? (
+              <>
+                <Input
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && saveWord()}
+                  className="h-8 w-48"
+                />
+                <Button size="sm" onClick={saveWord} disabled={editMutation.isPending}>
+                  <Pencil size={14} className="mr-1" />
+                  Save
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => editMutation.mutate([{ op: "merge", position: selection.from }])}
+                  disabled={editMutation.isPending || selection.from >= words.length - 1}
+                  title="Join with the next word"
+                >
+                  <Combine size={14} className="mr-1" />
+                  Merge with next
+                </Button>
+              </>
+            ) : (
+              <span className="text-xs text-neutral-500">
+                {selection.to - selection.from + 1} words selected
+              </span>
+            )}
+            {(["guest", "interviewer"] as const).map((speaker) => (
+              <Button
+                key={speaker}
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  editMutation.mutate([
+                    { op: "speaker", from: selection.from, to: selection.to, speaker },
+                  ])
+                }
+                disabled={editMutation.isPending}
+              >
+                Set {speaker === "guest" ? "Guest" : "Interviewer"}
+              </Button>
+            ))}
+            <Button size="sm" variant="ghost" onClick={() => setSelection(null)}>
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {words.length > 0 && (
+          <div className="max-h-96 space-y-3 overflow-y-auto text-sm leading-7">
+            {turns.map((turn) => (
+              <p key={turn.from}>
+                {turn.speaker && (
+                  <span className="mr-2 text-xs font-semibold uppercase text-neutral-500">
+                    {turn.speaker === "guest" ? "Guest" : "Interviewer"}
+                  </span>
+                )}
+                {words.slice(turn.from, turn.to + 1).map((word, offset) => {
+                  const position = turn.from + offset;
+                  const selected =
+                    selection && position >= selection.from && position <= selection.to;
+                  return (
+                    <span
+                      key={position}
+                      onClick={(e) => select(position, e.shiftKey)}
+                      title={`${formatTime(word.start)} · ${speakerAt(position) ?? "unassigned"}`}
+                      className={`cursor-pointer rounded px-0.5 hover:bg-neutral-100 ${
+                        selected ? "bg-primary/20" : ""
+                      }`}
+                    >
+                      {word.word.trim()}{" "}
+                    </span>
+                  );
+                })}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
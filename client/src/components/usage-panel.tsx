@@ -0,0 +1,124 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { RefreshCw, Receipt } from "lucide-react";
+
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  audioMinutes: number;
+  costUsd: number;
+  unpricedCalls: number;
+}
+
+interface UsageReport extends UsageTotals {
+  byTask: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+}
+
+interface UsagePanelProps {
+  owner: "sessions" | "uploads";
+  id: string;
+}
+
+const TASK_LABELS: Record<string, string> = {
+  question: "Interview questions",
+  feedback: "Answer feedback",
+  "all-content": "Posts (all types)",
+  content: "Posts",
+  clips: "Clip selection",
+  digest: "Transcript digest",
+  transcription: "Transcription",
+};
+
+const formatCost = (usd: number) =>
+  usd > 0 && usd < 0.01 ? "< $0.01" : `$${usd.toFixed(2)}`;
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+
+// What processing a session or upload has cost so far: model tokens,
+// transcribed audio minutes and the estimated spend, broken down by task
+export default function UsagePanel({ owner, id }: UsagePanelProps) {
+  const { data: usage, refetch, isFetching } = useQuery<UsageReport>({
+    queryKey: [`/api/${owner}`, id, "usage"],
+    enabled: !!id,
+  });
+
+  if (!usage || usage.calls === 0) return null;
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-neutral-800">
+            <Receipt className="mr-2 inline" size={16} />
+            Processing Cost
+          </h3>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            title="Refresh usage"
+          >
+            <RefreshCw size={14} />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-4 gap-3 text-sm">
+          <div>
+            <p className="text-xs text-neutral-500">Estimated cost</p>
+            <p className="font-semibold">{formatCost(usage.costUsd)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-neutral-500">Input tokens</p>
+            <p className="font-semibold">{formatTokens(usage.inputTokens)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-neutral-500">Output tokens</p>
+            <p className="font-semibold">{formatTokens(usage.outputTokens)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-neutral-500">Audio</p>
+            <p className="font-semibold">{usage.audioMinutes.toFixed(1)} min</p>
+          </div>
+        </div>
+
+        <table className="w-full text-xs">
+          <thead className="text-neutral-500">
+            <tr>
+              <th className="text-left font-normal">Task</th>
+              <th className="text-right font-normal">Calls</th>
+              <th className="text-right font-normal">Tokens in / out</th>
+              <th className="text-right font-normal">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Object.entries(usage.byTask).map(([task, totals]) => (
+              <tr key={task} className="border-t border-neutral-100">
+                <td className="py-1">{TASK_LABELS[task] ?? task}</td>
+                <td className="text-right">{totals.calls}</td>
+                <td className="text-right">
+                  {task === "transcription"
+                    ? `${totals.audioMinutes.toFixed(1)} min`
+                    : `${formatTokens(totals.inputTokens)} / ${formatTokens(totals.outputTokens)}`}
+                </td>
+                <td className="text-right">{formatCost(totals.costUsd)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {usage.unpricedCalls > 0 && (
+          <p className="text-xs text-neutral-500">
+            {usage.unpricedCalls} call{usage.unpricedCalls === 1 ? "" : "s"} used
+            a model without a known price and {usage.unpricedCalls === 1 ? "is" : "are"}{" "}
+            not included in the cost.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,7 +12,8 @@ interface TranscriptionResult {
   }>;
 }
 
-export function useAudioTranscription() {
+// sessionId attributes the transcription's cost to the interview session
+export function useAudioTranscription(sessionId?: string | null) {
   const [isTranscribing, setIsTranscribing] = useState(false);
 
   const transcribeMutation = useMutation({
@@ -21,6 +22,9 @@ export function useAudioTranscription() {
       // Use appropriate file extension based on blob type
       const fileExtension = audioBlob.type.includes('mp4') ? 'mp4' : 'webm';
       formData.append('audio', audioBlob, `recording.${fileExtension}`);
+      if (sessionId) {
+        formData.append('sessionId', sessionId);
+      }
       
       console.log("Sending audio for transcription:", audioBlob.type, audioBlob.size);
       
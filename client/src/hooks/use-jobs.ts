@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Job } from "@shared/schema";
+
+export interface TrackedJob {
+  jobId: string;
+  kind: string; // what the UI should do with the result
+  label: string;
+  meta?: Record<string, string>;
+  job?: Job; // latest state from the server
+}
+
+const STORAGE_KEY = "trackedJobs";
+
+function loadTracked(): TrackedJob[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+// Follow a job's progress stream until it completes or fails
+export function waitForJob(
+  jobId: string,
+  onUpdate?: (job: Job) => void,
+): Promise<Job> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+
+    source.onmessage = (event) => {
+      const job = JSON.parse(event.data) as Job;
+      onUpdate?.(job);
+      if (job.status === "completed" || job.status === "failed") {
+        source.close();
+        resolve(job);
+      }
+    };
+
+    source.onerror = () => {
+      // EventSource reconnects by itself after network blips; it only gives
+      // up (CLOSED) when the server refuses the stream, e.g. an unknown job
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error(`Lost progress stream for job ${jobId}`));
+      }
+    };
+  });
+}
+
+// Background jobs started from this browser. They are kept in localStorage so
+// progress picks up again after a page reload; onFinished runs once per job.
+export function useJobs(onFinished: (entry: TrackedJob, job: Job) => void) {
+  const [tracked, setTracked] = useState<TrackedJob[]>(loadTracked);
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+  const watching = useRef(new Map<string, Promise<Job>>());
+
+  useEffect(() => {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify(tracked.map(({ job, ...entry }) => entry)),
+    );
+  }, [tracked]);
+
+  const watch = useCallback((entry: TrackedJob): Promise<Job> => {
+    const existing = watching.current.get(entry.jobId);
+    if (existing) return existing;
+
+    const promise = waitForJob(entry.jobId, (job) =>
+      setTracked((current) =>
+        current.map((t) => (t.jobId === job.id ? { ...t, job } : t)),
+      ),
+    ).finally(() => {
+      watching.current.delete(entry.jobId);
+      setTracked((current) => current.filter((t) => t.jobId !== entry.jobId));
+    });
+
+    promise.then(
+      (job) => onFinishedRef.current(entry, job),
+      (error) => console.error(error),
+    );
+
+    watching.current.set(entry.jobId, promise);
+    return promise;
+  }, []);
+
+  // Resume jobs that were running before a reload
+  useEffect(() => {
+    loadTracked().forEach(watch);
+  }, [watch]);
+
+  // Start following a newly queued job; resolves once it has finished
+  // (check job.status) and onFinished has been called
+  const track = useCallback(
+    (entry: TrackedJob): Promise<Job> => {
+      setTracked((current) => [...current, entry]);
+      return watch(entry);
+    },
+    [watch],
+  );
+
+  return { jobs: tracked, track };
+}
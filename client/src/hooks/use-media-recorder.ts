@@ -1,11 +1,19 @@
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect } from "react";
+import {
+  createRecording,
+  appendChunk,
+  updateRecording,
+} from "@/lib/recording-store";
 
 interface UseMediaRecorderOptions {
   onDataAvailable?: (data: Blob) => void;
-  onStop?: (blob: Blob) => void;
+  // recordingId is set when chunks were persisted to IndexedDB
+  onStop?: (blob: Blob, recordingId?: string) => void;
   onAudioLevel?: (level: number) => void;
   audio?: boolean; // Add audio-only option
   deviceId?: string; // Add device selection
+  persist?: boolean; // Save chunks to IndexedDB as they arrive
+  sessionId?: string | null; // Session the persisted recording belongs to
 }
 
 export function useMediaRecorder(options: UseMediaRecorderOptions = {}) {
@@ -18,6 +26,19 @@ export function useMediaRecorder(options: UseMediaRecorderOptions = {}) {
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  const recordingIdRef = useRef<string | null>(null);
+  // Chunk writes run one after another so they land in order
+  const persistQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  // The session is often created after recording starts
+  useEffect(() => {
+    const recordingId = recordingIdRef.current;
+    if (recordingId && options.sessionId) {
+      persistQueueRef.current = persistQueueRef.current
+        .then(() => updateRecording(recordingId, { sessionId: options.sessionId }))
+        .catch((error) => console.warn("Failed to update recording:", error));
+    }
+  }, [options.sessionId]);
 
   const startRecording = useCallback(async () => {
     try {
@@ -106,18 +127,44 @@ export function useMediaRecorder(options: UseMediaRecorderOptions = {}) {
       
       mediaRecorderRef.current = mediaRecorder;
       chunksRef.current = [];
+      recordingIdRef.current = null;
+
+      if (options.persist) {
+        try {
+          const recording = await createRecording(options.sessionId ?? null, mimeType);
+          recordingIdRef.current = recording.id;
+        } catch (error) {
+          // Recording still works, it just isn't crash-safe
+          console.warn("Could not persist recording to IndexedDB:", error);
+        }
+      }
 
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
+          const index = chunksRef.current.length;
           chunksRef.current.push(event.data);
           options.onDataAvailable?.(event.data);
+
+          const recordingId = recordingIdRef.current;
+          if (recordingId) {
+            persistQueueRef.current = persistQueueRef.current
+              .then(() => appendChunk(recordingId, index, event.data))
+              .catch((error) => console.warn("Failed to persist chunk:", error));
+          }
         }
       };
 
-      mediaRecorder.onstop = () => {
+      mediaRecorder.onstop = async () => {
         const blob = new Blob(chunksRef.current, { type: mimeType });
         console.log("MediaRecorder stopped, created blob:", blob.type, blob.size);
-        options.onStop?.(blob);
+
+        const recordingId = recordingIdRef.current ?? undefined;
+        recordingIdRef.current = null;
+        if (recordingId) {
+          await persistQueueRef.current;
+          await updateRecording(recordingId, { finished: true }).catch(() => {});
+        }
+        options.onStop?.(blob, recordingId);
         
         // Clean up
         mediaStream.getTracks().forEach(track => track.stop());
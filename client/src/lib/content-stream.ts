@@ -0,0 +1,85 @@
+// Reads a streamed content generation response. The generation endpoints
+// send server-sent events when asked for text/event-stream: one "post" event
+// per finished post, then "done" or "error". A "reset" event lists posts
+// that were replaced by a repaired response; the replacements follow. EventSource can only GET, so the
+// request is a fetch POST and the event stream is parsed here. Aborting the
+// signal closes the connection, which cancels generation on the server.
+
+export class GenerationError extends Error {
+  constructor(
+    message: string,
+    public issues: string[] = [],
+  ) {
+    super(message);
+  }
+}
+
+interface StreamOptions<TPost> {
+  onPost: (post: TPost) => void;
+  onReset: (removedIds: string[]) => void;
+  signal?: AbortSignal;
+}
+
+export async function streamGeneration<TPost, TDone>(
+  url: string,
+  body: unknown,
+  { onPost, onReset, signal }: StreamOptions<TPost>,
+): Promise<TDone> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+    },
+    body: JSON.stringify(body),
+    credentials: "include",
+    signal,
+  });
+
+  // Validation failures are answered before the stream starts
+  if (!response.ok || !response.body) {
+    const { message } = await response.json().catch(() => ({ message: "" }));
+    throw new GenerationError(message || `Generation failed: ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const message = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      let data = "";
+      for (const line of message.split("\n")) {
+        if (line.startsWith("event: ")) event = line.slice(7);
+        else if (line.startsWith("data: ")) data += line.slice(6);
+      }
+      if (!data) continue;
+
+      const payload = JSON.parse(data);
+      if (event === "post") {
+        onPost(payload as TPost);
+      } else if (event === "reset") {
+        onReset(payload.removed);
+      } else if (event === "done") {
+        return payload as TDone;
+      } else if (event === "error") {
+        throw new GenerationError(payload.message, payload.issues);
+      }
+    }
+  }
+
+  throw new GenerationError("Generation ended before it finished");
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
@@ -0,0 +1,106 @@
+import { UploadError } from "@/lib/resumable-upload";
+
+// Streams MediaRecorder chunks to the server while a session is being
+// recorded. Chunks are sent one at a time in order and retried on failure;
+// if one can't be delivered the ingest is marked failed and the caller falls
+// back to uploading the whole recording afterwards.
+
+const MAX_RETRIES = 4;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export interface IngestResult {
+  videoKey: string;
+  size: number;
+  jobId: string; // transcription job queued by the server
+}
+
+export class RecordingIngest {
+  private nextIndex = 0;
+  private queue: Promise<void> = Promise.resolve();
+  private started: Promise<void> | null = null;
+  private startedAt = Date.now();
+  error: Error | null = null;
+
+  constructor(readonly sessionId: string) {}
+
+  get failed(): boolean {
+    return this.error !== null;
+  }
+
+  push(chunk: Blob) {
+    if (this.failed) return;
+
+    const index = this.nextIndex++;
+    // The first chunk tells us the container type
+    if (!this.started) {
+      this.started = this.post(`/api/sessions/${this.sessionId}/recording`, {
+        mimeType: chunk.type || "video/webm",
+      }).then(() => undefined);
+    }
+
+    const started = this.started;
+    this.queue = this.queue
+      .then(() => started)
+      .then(() => this.send(index, chunk))
+      .catch((error) => {
+        console.warn(`Live upload stopped at chunk ${index}:`, error);
+        this.error = error;
+      });
+  }
+
+  private async send(index: number, chunk: Blob) {
+    if (this.failed) return;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await fetch(
+          `/api/sessions/${this.sessionId}/recording/chunks/${index}`,
+          {
+            method: "PUT",
+            headers: { "Content-Type": "application/octet-stream" },
+            body: chunk,
+          },
+        );
+        if (response.ok) return;
+
+        const body = await response.json().catch(() => ({}));
+        // The server already has this chunk, e.g. its response was lost
+        if (response.status === 409 && body.nextIndex > index) return;
+        if (response.status < 500) {
+          throw new UploadError(body.message || `Chunk ${index} rejected`, true);
+        }
+        throw new Error(body.message || `Chunk ${index} failed: ${response.status}`);
+      } catch (error) {
+        if ((error instanceof UploadError && error.fatal) || attempt >= MAX_RETRIES) throw error;
+        await sleep(500 * 2 ** attempt);
+      }
+    }
+  }
+
+  private async post(url: string, data: unknown) {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      const { message } = await response.json().catch(() => ({ message: "" }));
+      throw new Error(message || `${url} failed: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  // Wait for the remaining chunks, then have the server assemble the video
+  // and start transcribing it
+  async finish(): Promise<IngestResult> {
+    await this.queue;
+    if (this.error) throw this.error;
+    if (this.nextIndex === 0) throw new Error("Nothing was recorded");
+
+    return this.post(`/api/sessions/${this.sessionId}/recording/complete`, {
+      chunkCount: this.nextIndex,
+      duration: Math.round((Date.now() - this.startedAt) / 1000),
+    });
+  }
+}
@@ -0,0 +1,147 @@
+// Recorded MediaRecorder chunks kept in IndexedDB so a crash or reload
+// mid-interview doesn't lose the recording. A recording stays here until its
+// video has been uploaded, then it is deleted.
+
+const DB_NAME = "interview-recordings";
+const DB_VERSION = 1;
+
+export interface StoredRecording {
+  id: string;
+  sessionId: string | null;
+  mimeType: string;
+  startedAt: number;
+  updatedAt: number;
+  chunkCount: number;
+  size: number;
+  finished: boolean; // MediaRecorder stopped cleanly
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore("recordings", { keyPath: "id" });
+        // Keyed by [recordingId, index] so a recording's chunks read back in order
+        db.createObjectStore("chunks");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function done(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function result<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function chunkRange(recordingId: string): IDBKeyRange {
+  return IDBKeyRange.bound([recordingId, 0], [recordingId, Infinity]);
+}
+
+export async function createRecording(
+  sessionId: string | null,
+  mimeType: string,
+): Promise<StoredRecording> {
+  const recording: StoredRecording = {
+    id: crypto.randomUUID(),
+    sessionId,
+    mimeType,
+    startedAt: Date.now(),
+    updatedAt: Date.now(),
+    chunkCount: 0,
+    size: 0,
+    finished: false,
+  };
+
+  const db = await openDb();
+  const tx = db.transaction("recordings", "readwrite");
+  tx.objectStore("recordings").put(recording);
+  await done(tx);
+  return recording;
+}
+
+export async function appendChunk(recordingId: string, index: number, chunk: Blob) {
+  const db = await openDb();
+  const tx = db.transaction(["recordings", "chunks"], "readwrite");
+  const recordings = tx.objectStore("recordings");
+
+  tx.objectStore("chunks").put(chunk, [recordingId, index]);
+  const recording = await result<StoredRecording | undefined>(recordings.get(recordingId));
+  if (recording) {
+    recordings.put({
+      ...recording,
+      chunkCount: Math.max(recording.chunkCount, index + 1),
+      size: recording.size + chunk.size,
+      updatedAt: Date.now(),
+    });
+  }
+  await done(tx);
+}
+
+export async function updateRecording(
+  recordingId: string,
+  changes: Partial<Pick<StoredRecording, "sessionId" | "finished">>,
+) {
+  const db = await openDb();
+  const tx = db.transaction("recordings", "readwrite");
+  const recordings = tx.objectStore("recordings");
+  const recording = await result<StoredRecording | undefined>(recordings.get(recordingId));
+  if (recording) {
+    recordings.put({ ...recording, ...changes, updatedAt: Date.now() });
+  }
+  await done(tx);
+}
+
+// Recordings whose video never reached the server, newest first
+export async function listRecordings(): Promise<StoredRecording[]> {
+  const db = await openDb();
+  const tx = db.transaction("recordings", "readonly");
+  const recordings = await result<StoredRecording[]>(
+    tx.objectStore("recordings").getAll(),
+  );
+  return recordings
+    .filter((recording) => recording.chunkCount > 0)
+    .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+// Reassemble the stored chunks into a single video blob
+export async function assembleRecording(recordingId: string): Promise<Blob> {
+  const db = await openDb();
+  const tx = db.transaction(["recordings", "chunks"], "readonly");
+  const recording = await result<StoredRecording | undefined>(
+    tx.objectStore("recordings").get(recordingId),
+  );
+  const chunks = await result<Blob[]>(
+    tx.objectStore("chunks").getAll(chunkRange(recordingId)),
+  );
+
+  if (!recording) throw new Error(`Recording ${recordingId} not found`);
+  return new Blob(chunks, { type: recording.mimeType });
+}
+
+export async function deleteRecording(recordingId: string) {
+  const db = await openDb();
+  const tx = db.transaction(["recordings", "chunks"], "readwrite");
+  tx.objectStore("recordings").delete(recordingId);
+  tx.objectStore("chunks").delete(chunkRange(recordingId));
+  await done(tx);
+}
@@ -0,0 +1,146 @@
+// Client for the server's tus-style resumable uploads. Files are sent in
+// chunks; the upload URL is remembered per file so a dropped connection or a
+// page reload carries on from the last byte the server has.
+
+const CHUNK_SIZE = 8 * 1024 * 1024;
+const MAX_RETRIES = 5;
+const STORAGE_KEY = "resumableUploads";
+
+// A failed request. Fatal ones (client errors) won't succeed on retry.
+export class UploadError extends Error {
+  constructor(
+    message: string,
+    public fatal = false,
+  ) {
+    super(message);
+  }
+}
+
+export interface ResumableUploadOptions {
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+  signal?: AbortSignal;
+}
+
+function fingerprint(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function loadUrls(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function rememberUrl(file: File, url: string | null) {
+  const urls = loadUrls();
+  if (url) {
+    urls[fingerprint(file)] = url;
+  } else {
+    delete urls[fingerprint(file)];
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(urls));
+}
+
+// Upload-Metadata values are base64 of their UTF-8 bytes
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => {
+      const bytes = new TextEncoder().encode(value);
+      return `${key} ${btoa(String.fromCharCode(...Array.from(bytes)))}`;
+    })
+    .join(",");
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function createUpload(file: File): Promise<string> {
+  const response = await fetch("/api/uploads/resumable", {
+    method: "POST",
+    headers: {
+      "Tus-Resumable": "1.0.0",
+      "Upload-Length": String(file.size),
+      "Upload-Metadata": encodeMetadata({
+        filename: file.name,
+        filetype: file.type || "video/mp4",
+      }),
+    },
+  });
+
+  if (!response.ok) {
+    const { message } = await response.json().catch(() => ({ message: "" }));
+    throw new Error(message || `Could not start upload: ${response.status}`);
+  }
+  return response.headers.get("Location")!;
+}
+
+// Offset the server has for an upload URL, or null when it no longer exists
+async function fetchOffset(url: string): Promise<number | null> {
+  const response = await fetch(url, {
+    method: "HEAD",
+    headers: { "Tus-Resumable": "1.0.0" },
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`Could not resume upload: ${response.status}`);
+  return Number(response.headers.get("Upload-Offset"));
+}
+
+// Upload a file, resuming a previous attempt for the same file if the server
+// still has it. Resolves with the ID of the uploads row.
+export async function uploadResumable(
+  file: File,
+  { onProgress, signal }: ResumableUploadOptions = {},
+): Promise<string> {
+  let url = loadUrls()[fingerprint(file)];
+  let offset = url ? await fetchOffset(url) : null;
+
+  if (!url || offset === null) {
+    url = await createUpload(file);
+    rememberUrl(file, url);
+    offset = 0;
+  }
+
+  onProgress?.(offset, file.size);
+  let retries = 0;
+
+  while (offset < file.size) {
+    signal?.throwIfAborted();
+
+    try {
+      const response: Response = await fetch(url, {
+        method: "PATCH",
+        headers: {
+          "Tus-Resumable": "1.0.0",
+          "Upload-Offset": String(offset),
+          "Content-Type": "application/offset+octet-stream",
+        },
+        body: file.slice(offset, offset + CHUNK_SIZE),
+        signal,
+      });
+
+      if (!response.ok) {
+        const { message } = await response.json().catch(() => ({ message: "" }));
+        // 409 is out of step (a chunk landed but its response was lost) or
+        // an earlier request still writing; both are retried after a pause
+        // from the offset the server has
+        const fatal = response.status < 500 && response.status !== 409;
+        throw new UploadError(message || `Upload failed: ${response.status}`, fatal);
+      }
+
+      offset = Number(response.headers.get("Upload-Offset"));
+      retries = 0;
+      onProgress?.(offset, file.size);
+    } catch (error) {
+      if ((error instanceof UploadError && error.fatal) || signal?.aborted || ++retries > MAX_RETRIES) {
+        throw error;
+      }
+      console.warn(`Upload chunk failed, retrying (${retries}/${MAX_RETRIES})`, error);
+      await sleep(1000 * 2 ** (retries - 1));
+      offset = (await fetchOffset(url).catch(() => offset)) ?? offset;
+    }
+  }
+
+  rememberUrl(file, null);
+  return url.split("/").pop()!;
+}
@@ -0,0 +1,165 @@
+// FFmpeg helpers shared by the transcription providers
+
+// Extract audio chunk using FFmpeg
+export async function extractAudioChunk(
+  sourcePath: string,
+  outputPath: string,
+  startTime: number,
+  endTime: number
+): Promise<void> {
+  const { spawn } = await import("child_process");
+  
+  return new Promise((resolve, reject) => {
+    const duration = endTime - startTime;
+    
+    const ffmpeg = spawn('ffmpeg', [
+      '-i', sourcePath,
+      '-ss', startTime.toString(),
+      '-t', duration.toString(),
+      '-acodec', 'mp3', // MP3 for compatibility
+      '-ar', '48000', // Preserve high sample rate
+      '-ac', '2', // Stereo
+      '-ab', '320k', // High quality bitrate
+      '-q:a', '0', // Highest quality VBR setting
+      '-y',
+      outputPath
+    ]);
+    
+    let errorOutput = '';
+    ffmpeg.stderr.on('data', (data) => {
+      errorOutput += data.toString();
+    });
+    
+    ffmpeg.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`Chunk extraction failed: ${errorOutput}`));
+      }
+    });
+    
+    ffmpeg.on('error', reject);
+  });
+}
+
+
+// Extract audio from video file using FFmpeg
+export async function extractAudioFromVideo(
+  videoPath: string,
+  audioPath: string
+): Promise<void> {
+  const { spawn } = await import("child_process");
+  
+  return new Promise((resolve, reject) => {
+    console.log(`Extracting audio: ${videoPath} -> ${audioPath}`);
+    
+    const ffmpeg = spawn('ffmpeg', [
+      '-i', videoPath,
+      '-vn', // No video
+      '-acodec', 'mp3', // Convert to MP3 for OpenAI compatibility
+      '-ar', '48000', // High sample rate (48kHz)
+      '-ac', '2', // Stereo
+      '-ab', '320k', // High quality bitrate (320kbps)
+      '-q:a', '0', // Highest quality VBR setting
+      '-y', // Overwrite output file
+      audioPath
+    ]);
+
+    let errorOutput = '';
+    
+    ffmpeg.stderr.on('data', (data) => {
+      errorOutput += data.toString();
+    });
+
+    ffmpeg.on('close', (code) => {
+      if (code === 0) {
+        console.log('Audio extraction completed successfully');
+        resolve();
+      } else {
+        console.error('FFmpeg error output:', errorOutput);
+        reject(new Error(`Audio extraction failed with exit code: ${code}. Error: ${errorOutput}`));
+      }
+    });
+
+    ffmpeg.on('error', (error) => {
+      console.error('FFmpeg spawn error:', error);
+      reject(error);
+    });
+  });
+}
+
+// Get audio duration using FFmpeg
+export async function getAudioDuration(audioPath: string): Promise<number> {
+  const { spawn } = await import("child_process");
+  
+  return new Promise((resolve, reject) => {
+    const ffprobe = spawn('ffprobe', [
+      '-i', audioPath,
+      '-show_entries', 'format=duration',
+      '-v', 'quiet',
+      '-of', 'csv=p=0'
+    ]);
+
+    let output = '';
+    ffprobe.stdout.on('data', (data) => {
+      output += data.toString();
+    });
+
+    ffprobe.on('close', (code) => {
+      if (code === 0) {
+        const duration = parseFloat(output.trim());
+        resolve(duration);
+      } else {
+        reject(new Error(`Failed to get audio duration, FFprobe exit code: ${code}`));
+      }
+    });
+
+    ffprobe.on('error', (error) => {
+      reject(error);
+    });
+  });
+}
+
+// Convert any audio/video file to 16kHz mono PCM WAV (required by whisper.cpp)
+export async function convertToWav16k(
+  sourcePath: string,
+  outputPath: string,
+  onProgress?: (seconds: number) => void
+): Promise<void> {
+  const { spawn } = await import("child_process");
+
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', [
+      '-i', sourcePath,
+      '-vn', // No video
+      '-acodec', 'pcm_s16le',
+      '-ar', '16000',
+      '-ac', '1',
+      '-y',
+      outputPath
+    ]);
+
+    let errorOutput = '';
+    ffmpeg.stderr.on('data', (data) => {
+      errorOutput += data.toString();
+
+      // ffmpeg reports how far it has got as time=HH:MM:SS.cc
+      const timeMatch = data.toString().match(/time=(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+      if (timeMatch && onProgress) {
+        onProgress(
+          parseInt(timeMatch[1]) * 3600 + parseInt(timeMatch[2]) * 60 + parseFloat(timeMatch[3])
+        );
+      }
+    });
+
+    ffmpeg.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`WAV conversion failed: ${errorOutput}`));
+      }
+    });
+
+    ffmpeg.on('error', reject);
+  });
+}
@@ -0,0 +1,377 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// Media files (recordings, uploads, clips, renditions) are addressed by
+// storage keys such as "clips/clip_123_0.mp4". Database columns hold keys,
+// never absolute paths or URLs, so the backend can change underneath them.
+
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+export interface IBlobStorage {
+  readonly name: string;
+  // Copy a local file into storage under key
+  putFile(key: string, sourcePath: string, contentType?: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  size(key: string): Promise<number | undefined>;
+  createReadStream(key: string, range?: ByteRange): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  // Give ffmpeg and friends a real file for the blob. Remote backends
+  // download to a temp file that is removed once fn settles.
+  withLocalFile<T>(key: string, fn: (filePath: string) => Promise<T>): Promise<T>;
+  // Time-limited URL a browser can fetch the blob from directly
+  getSignedUrl(key: string, expiresInSeconds?: number): string;
+}
+
+// Older rows stored paths like "uploads/clips/x.mp4" or "/uploads/x.mp4";
+// those map onto keys relative to the old uploads directory.
+export function normalizeKey(keyOrPath: string): string {
+  const key = keyOrPath.replace(/^\/+/, "").replace(/^uploads\//, "");
+  if (!key || key.split("/").some((segment) => segment === ".." || segment === "")) {
+    throw new Error(`Invalid storage key: ${keyOrPath}`);
+  }
+  return key;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".mov": "video/quicktime",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+};
+
+export function contentTypeForKey(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] || "application/octet-stream";
+}
+
+// Files under a root directory (MEDIA_ROOT, default ./uploads). Signed URLs
+// point at /api/media/<key> and carry an HMAC the route checks.
+export class LocalBlobStorage implements IBlobStorage {
+  readonly name = "local";
+
+  constructor(
+    private root: string,
+    private urlSecret: string,
+  ) {}
+
+  private filePath(key: string): string {
+    return path.join(this.root, normalizeKey(key));
+  }
+
+  async putFile(key: string, sourcePath: string): Promise<void> {
+    const target = this.filePath(key);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    if (path.resolve(sourcePath) === path.resolve(target)) return;
+
+    try {
+      fs.renameSync(sourcePath, target);
+    } catch {
+      // Different filesystem (e.g. /tmp on tmpfs); copy instead
+      fs.copyFileSync(sourcePath, target);
+      fs.unlinkSync(sourcePath);
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return fs.existsSync(this.filePath(key));
+  }
+
+  async size(key: string): Promise<number | undefined> {
+    const file = this.filePath(key);
+    return fs.existsSync(file) ? fs.statSync(file).size : undefined;
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    return fs.createReadStream(this.filePath(key), range);
+  }
+
+  async delete(key: string): Promise<void> {
+    const file = this.filePath(key);
+    if (fs.existsSync(file)) fs.unlinkSync(file);
+  }
+
+  async withLocalFile<T>(key: string, fn: (filePath: string) => Promise<T>): Promise<T> {
+    return fn(this.filePath(key));
+  }
+
+  getSignedUrl(key: string, expiresInSeconds: number = 3600): string {
+    const normalized = normalizeKey(key);
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const signature = this.sign(normalized, expires);
+    return `/api/media/${normalized.split("/").map(encodeURIComponent).join("/")}?expires=${expires}&signature=${signature}`;
+  }
+
+  verifySignedUrl(key: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) return false;
+    const expected = Buffer.from(this.sign(normalizeKey(key), expires));
+    const given = Buffer.from(signature);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  }
+
+  private sign(key: string, expires: number): string {
+    return createHmac("sha256", this.urlSecret).update(`${key}:${expires}`).digest("hex");
+  }
+}
+
+export interface S3Config {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint?: string; // e.g. http://localhost:9000 for MinIO
+  forcePathStyle: boolean;
+}
+
+// S3-compatible object storage (AWS S3, MinIO, R2, ...) over plain HTTP
+// requests signed with AWS Signature Version 4
+export class S3BlobStorage implements IBlobStorage {
+  readonly name = "s3";
+
+  constructor(private config: S3Config) {}
+
+  async putFile(key: string, sourcePath: string, contentType?: string): Promise<void> {
+    const { size } = fs.statSync(sourcePath);
+    const response = await this.request("PUT", key, {
+      "content-type": contentType || contentTypeForKey(key),
+      "content-length": String(size),
+    }, fs.createReadStream(sourcePath));
+
+    if (!response.ok) {
+      throw new Error(`S3 upload of ${key} failed: ${response.status} ${await response.text()}`);
+    }
+    fs.unlinkSync(sourcePath);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.size(key)) !== undefined;
+  }
+
+  async size(key: string): Promise<number | undefined> {
+    const response = await this.request("HEAD", key);
+    if (response.status === 404) return undefined;
+    if (!response.ok) {
+      throw new Error(`S3 HEAD ${key} failed: ${response.status}`);
+    }
+    return parseInt(response.headers.get("content-length") || "0", 10);
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const response = await this.request(
+      "GET",
+      key,
+      range ? { range: `bytes=${range.start}-${range.end}` } : {},
+    );
+    if (response.status === 404) {
+      // Same code a missing local file fails with, so callers can tell
+      throw Object.assign(new Error(`S3 GET ${key}: not found`), { code: "ENOENT" });
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`S3 GET ${key} failed: ${response.status}`);
+    }
+    // fetch is typed with the DOM lib's ReadableStream; in Node it is the
+    // stream/web one that fromWeb takes
+    return Readable.fromWeb(response.body as NodeReadableStream<Uint8Array>);
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request("DELETE", key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 DELETE ${key} failed: ${response.status}`);
+    }
+  }
+
+  async withLocalFile<T>(key: string, fn: (filePath: string) => Promise<T>): Promise<T> {
+    const tempPath = path.join(
+      "/tmp",
+      `blob_${Date.now()}_${path.basename(normalizeKey(key))}`,
+    );
+
+    try {
+      await pipeline(await this.createReadStream(key), fs.createWriteStream(tempPath));
+      return await fn(tempPath);
+    } finally {
+      if (fs.existsSync(tempPath)) fs.unlinkSync(tempPath);
+    }
+  }
+
+  getSignedUrl(key: string, expiresInSeconds: number = 3600): string {
+    const url = this.objectUrl(key);
+    const now = new Date();
+    const amzDate = toAmzDate(now);
+    const scope = `${amzDate.slice(0, 8)}/${this.config.region}/s3/aws4_request`;
+
+    const query = new URLSearchParams({
+      "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+      "X-Amz-Credential": `${this.config.accessKeyId}/${scope}`,
+      "X-Amz-Date": amzDate,
+      "X-Amz-Expires": String(expiresInSeconds),
+      "X-Amz-SignedHeaders": "host",
+    });
+    const canonicalQuery = canonicalQueryString(query);
+
+    const canonicalRequest = [
+      "GET",
+      url.pathname,
+      canonicalQuery,
+      `host:${url.host}\n`,
+      "host",
+      "UNSIGNED-PAYLOAD",
+    ].join("\n");
+
+    const signature = this.signature(amzDate, scope, canonicalRequest);
+    return `${url.origin}${url.pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  private objectUrl(key: string): URL {
+    const encodedKey = normalizeKey(key).split("/").map(encodeRfc3986).join("/");
+    const { bucket, region, endpoint, forcePathStyle } = this.config;
+
+    if (endpoint) {
+      const base = endpoint.replace(/\/+$/, "");
+      if (forcePathStyle) return new URL(`${base}/${bucket}/${encodedKey}`);
+      const endpointUrl = new URL(base);
+      return new URL(`${endpointUrl.protocol}//${bucket}.${endpointUrl.host}/${encodedKey}`);
+    }
+    return new URL(`https://${bucket}.s3.${region}.amazonaws.com/${encodedKey}`);
+  }
+
+  private async request(
+    method: string,
+    key: string,
+    extraHeaders: Record<string, string> = {},
+    body?: Readable,
+  ): Promise<Response> {
+    const url = this.objectUrl(key);
+    const amzDate = toAmzDate(new Date());
+    const scope = `${amzDate.slice(0, 8)}/${this.config.region}/s3/aws4_request`;
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-date": amzDate,
+      // Streamed bodies aren't hashed up front
+      "x-amz-content-sha256": "UNSIGNED-PAYLOAD",
+      ...extraHeaders,
+    };
+
+    const signedHeaderNames = Object.keys(headers).map((h) => h.toLowerCase()).sort();
+    const canonicalHeaders = signedHeaderNames
+      .map((name) => `${name}:${headers[name].trim()}\n`)
+      .join("");
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      canonicalHeaders,
+      signedHeaderNames.join(";"),
+      "UNSIGNED-PAYLOAD",
+    ].join("\n");
+
+    const signature = this.signature(amzDate, scope, canonicalRequest);
+    const { host, ...requestHeaders } = headers;
+
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization:
+          `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, ` +
+          `SignedHeaders=${signedHeaderNames.join(";")}, Signature=${signature}`,
+      },
+      // Same stream type as above, the other way round
+      body: body ? (Readable.toWeb(body) as ReadableStream<Uint8Array>) : undefined,
+      // Required by Node's fetch for streamed request bodies
+      duplex: body ? "half" : undefined,
+    } as RequestInit);
+  }
+
+  private signature(amzDate: string, scope: string, canonicalRequest: string): string {
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      createHash("sha256").update(canonicalRequest).digest("hex"),
+    ].join("\n");
+
+    const dateKey = hmac(`AWS4${this.config.secretAccessKey}`, amzDate.slice(0, 8));
+    const regionKey = hmac(dateKey, this.config.region);
+    const serviceKey = hmac(regionKey, "s3");
+    const signingKey = hmac(serviceKey, "aws4_request");
+    return createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+  }
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+// 20240101T120000Z
+function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+function canonicalQueryString(query: URLSearchParams): string {
+  return Array.from(query.entries())
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([k, v]) => `${encodeRfc3986(k)}=${encodeRfc3986(v)}`)
+    .join("&");
+}
+
+// STORAGE_DRIVER selects the backend: "local" (default) or "s3".
+export function createBlobStorage(env: NodeJS.ProcessEnv = process.env): IBlobStorage {
+  const driver = (env.STORAGE_DRIVER || "local").toLowerCase();
+
+  switch (driver) {
+    case "local":
+      return new LocalBlobStorage(
+        env.MEDIA_ROOT || "uploads",
+        // Without a configured secret, signed URLs last until the next restart
+        env.MEDIA_URL_SECRET || randomBytes(32).toString("hex"),
+      );
+    case "s3":
+      if (!env.S3_BUCKET || !env.S3_ACCESS_KEY_ID || !env.S3_SECRET_ACCESS_KEY) {
+        throw new Error(
+          "S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set when STORAGE_DRIVER is s3",
+        );
+      }
+      return new S3BlobStorage({
+        bucket: env.S3_BUCKET,
+        region: env.S3_REGION || "us-east-1",
+        accessKeyId: env.S3_ACCESS_KEY_ID,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+        endpoint: env.S3_ENDPOINT,
+        // MinIO and most self-hosted stand-ins only support path-style URLs
+        forcePathStyle: env.S3_FORCE_PATH_STYLE
+          ? env.S3_FORCE_PATH_STYLE === "true"
+          : !!env.S3_ENDPOINT,
+      });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+}
+
+export const blobStorage = createBlobStorage();
+
+// A session's recording. videoUrl holds its storage key once the recording
+// reaches the server; until then it may be a browser-local blob: URL, and
+// older sessions were stored as <id>.mp4.
+export function sessionVideoKey(session: { id: string; videoUrl: string | null }): string {
+  const videoUrl = session.videoUrl;
+  if (videoUrl && !/^(blob:|data:|https?:)/.test(videoUrl)) {
+    return normalizeKey(videoUrl);
+  }
+  return `${session.id}.mp4`;
+}
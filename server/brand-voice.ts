@@ -0,0 +1,109 @@
+import type { BrandProfile } from "@shared/schema";
+import { storage } from "./storage";
+import { bulletList } from "./personas";
+
+// Brand voice for generated posts and clip captions. Prompts get their
+// perspective, tone and house rules from the selected brand profile instead
+// of hardcoding them.
+
+export type BrandVoice = Pick<
+  BrandProfile,
+  | "companyName"
+  | "website"
+  | "perspective"
+  | "tone"
+  | "styleReference"
+  | "bannedWords"
+  | "emojiPolicy"
+  | "ctaStyle"
+  | "examplePosts"
+>;
+
+// Used when neither the request, session nor upload picks a profile
+export const DEFAULT_BRAND_VOICE: BrandVoice = {
+  companyName: null,
+  website: null,
+  perspective: "personal",
+  tone: "authoritative, educative and direct",
+  styleReference: null,
+  bannedWords: [],
+  emojiPolicy: "none",
+  ctaStyle: "Close with a question that invites comments",
+  examplePosts: [],
+};
+
+// The first profile ID that resolves wins, so callers pass the most specific
+// choice first (request, then session or upload)
+export async function resolveBrandVoice(
+  ...profileIds: Array<string | null | undefined>
+): Promise<BrandVoice> {
+  for (const id of profileIds) {
+    if (!id) continue;
+    const profile = await storage.getBrandProfile(id);
+    if (profile) return profile;
+    console.warn(`Brand profile ${id} not found, trying the next choice`);
+  }
+  return DEFAULT_BRAND_VOICE;
+}
+
+// Name used where prompts ask for brand elements in designs
+export function brandName(voice: BrandVoice): string {
+  return voice.companyName || "the author's personal brand";
+}
+
+function company(voice: BrandVoice): string {
+  if (!voice.companyName) return "";
+  return voice.website ? `${voice.companyName} (${voice.website})` : voice.companyName;
+}
+
+function perspectiveRule(voice: BrandVoice): string {
+  const name = company(voice);
+  switch (voice.perspective) {
+    case "company":
+      return name
+        ? `Write from the perspective of ${name}. These posts will go out from the company LinkedIn account.`
+        : "Write from the perspective of the company. These posts will go out from the company LinkedIn account.";
+    case "third-person":
+      return `Write about the interviewee in the third person${name ? `, as ${name} sharing their insights` : ""}.`;
+    default:
+      return `Write in the first person as the person interviewed${name ? `, who represents ${name}` : ""}.`;
+  }
+}
+
+function emojiRule(voice: BrandVoice): string {
+  switch (voice.emojiPolicy) {
+    case "allowed":
+      return "Emojis are fine where they help readability.";
+    case "sparing":
+      return "Use at most one or two emojis per post, and none in titles.";
+    default:
+      return "Never use emojis, emoticons or smileys, even where the example format shows them.";
+  }
+}
+
+// Instruction block spliced into content and clip prompts
+export function brandVoicePrompt(voice: BrandVoice): string {
+  const rules = [
+    `Tone: ${voice.tone}. Be professional.`,
+    perspectiveRule(voice),
+    emojiRule(voice),
+  ];
+  if (voice.styleReference) {
+    rules.push(`Write in the style of ${voice.styleReference}.`);
+  }
+  if (voice.ctaStyle) {
+    rules.push(`Call-to-action style: ${voice.ctaStyle}.`);
+  }
+  if (voice.bannedWords.length > 0) {
+    rules.push(`Never use these words or phrases: ${voice.bannedWords.join(", ")}.`);
+  }
+
+  let prompt = `BRAND VOICE:\n${bulletList(rules)}`;
+  if (voice.examplePosts.length > 0) {
+    const examples = voice.examplePosts
+      .map((post, i) => `Example ${i + 1}:\n"""\n${post}\n"""`)
+      .join("\n\n");
+    prompt += `\n\nMatch the voice of these example posts without copying their content:\n${examples}`;
+  }
+  return prompt;
+}
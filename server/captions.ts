@@ -0,0 +1,143 @@
+import { captionStyleSchema, type CaptionStyle } from "@shared/schema";
+import type { WordTiming } from "./transcription";
+import { wordsForRange } from "./subtitles";
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = captionStyleSchema.parse({});
+
+// ASS colours are &HAABBGGRR with alpha 00 = opaque
+function toAssColor(hex: string, alpha: string = "00"): string {
+  const rgb = hex.replace("#", "");
+  return `&H${alpha}${rgb.slice(4, 6)}${rgb.slice(2, 4)}${rgb.slice(0, 2)}`.toUpperCase();
+}
+
+// H:MM:SS.cc
+function toAssTime(seconds: number): string {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  const hours = Math.floor(totalCs / 360000);
+  const minutes = Math.floor((totalCs % 360000) / 6000);
+  const secs = Math.floor((totalCs % 6000) / 100);
+  const cs = totalCs % 100;
+  return `${hours}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}.${cs.toString().padStart(2, "0")}`;
+}
+
+// Braces and backslashes would be read as override tags
+function escapeAssText(text: string): string {
+  return text.replace(/[{}\\]/g, "");
+}
+
+const ALIGNMENT: Record<CaptionStyle["position"], number> = {
+  bottom: 2,
+  middle: 5,
+  top: 8,
+};
+
+// Group words into on-screen lines, breaking early at pauses and sentence ends
+function groupWords(words: WordTiming[], maxWordsPerLine: number): WordTiming[][] {
+  const groups: WordTiming[][] = [];
+  let current: WordTiming[] = [];
+
+  for (const word of words) {
+    if (!word.word.trim()) continue;
+
+    const previous = current[current.length - 1];
+    if (
+      previous &&
+      (current.length >= maxWordsPerLine ||
+        word.start - previous.end > 1 ||
+        /[.!?]$/.test(previous.word.trim()))
+    ) {
+      groups.push(current);
+      current = [];
+    }
+    current.push(word);
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups;
+}
+
+// Build an ASS subtitle track from word timings. With a range, the track is
+// re-based so the range start is 0, matching a clip cut with an input seek.
+// PlayResY is fixed at 1080 so fontSize means the same thing at any resolution.
+export function buildAssSubtitles(
+  words: WordTiming[],
+  style: CaptionStyle,
+  video: { width: number; height: number },
+  range?: { startTime: number; endTime: number },
+): string {
+  const source = range ? wordsForRange(words, range.startTime, range.endTime) : words;
+  const playResY = 1080;
+  const playResX =
+    video.width > 0 && video.height > 0
+      ? Math.round((playResY * video.width) / video.height)
+      : 1920;
+
+  const header = [
+    "[Script Info]",
+    "ScriptType: v4.00+",
+    `PlayResX: ${playResX}`,
+    `PlayResY: ${playResY}`,
+    "WrapStyle: 2",
+    "ScaledBorderAndShadow: yes",
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+    [
+      "Style: Default",
+      style.fontName,
+      style.fontSize,
+      toAssColor(style.primaryColor),
+      toAssColor(style.highlightColor),
+      toAssColor(style.outlineColor),
+      toAssColor("#000000", "80"),
+      -1, 0, 0, 0, // bold, italic, underline, strikeout
+      100, 100, 0, 0, // scale x/y, spacing, angle
+      1, // outline + drop shadow border style
+      style.outlineWidth,
+      0,
+      ALIGNMENT[style.position],
+      60, 60,
+      style.marginV,
+      1,
+    ].join(","),
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+  ];
+
+  const groups = groupWords(source, style.maxWordsPerLine);
+  const highlight = `{\\c${toAssColor(style.highlightColor)}}`;
+  const events: string[] = [];
+
+  const dialogue = (start: number, end: number, text: string) =>
+    `Dialogue: 0,${toAssTime(start)},${toAssTime(end)},Default,,0,0,0,,${text}`;
+
+  groups.forEach((group, groupIndex) => {
+    const tokens = group.map((w) => {
+      const text = escapeAssText(w.word.trim());
+      return style.uppercase ? text.toUpperCase() : text;
+    });
+    const nextStart =
+      groupIndex + 1 < groups.length ? groups[groupIndex + 1][0].start : Infinity;
+    const groupEnd = Math.min(group[group.length - 1].end + 0.2, nextStart);
+
+    if (!style.highlightWords) {
+      events.push(dialogue(group[0].start, groupEnd, tokens.join(" ")));
+      return;
+    }
+
+    // One event per word, with the word being spoken in the highlight colour
+    group.forEach((word, wordIndex) => {
+      const start = wordIndex === 0 ? group[0].start : word.start;
+      const end = wordIndex + 1 < group.length ? group[wordIndex + 1].start : groupEnd;
+      if (end <= start) return;
+
+      const text = tokens
+        .map((token, i) => (i === wordIndex ? `${highlight}${token}{\\r}` : token))
+        .join(" ");
+      events.push(dialogue(start, end, text));
+    });
+  });
+
+  return [...header, ...events, ""].join("\n");
+}
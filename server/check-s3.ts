@@ -0,0 +1,67 @@
+import fs from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import { createBlobStorage } from "./blob-storage";
+
+// Round trip against a real S3-compatible service, to check the SigV4
+// signing in S3BlobStorage: streamed upload, HEAD, ranged and full reads,
+// a presigned URL and deletion. Reads the same S3_* variables as the server;
+// the bucket must already exist. See "Checking S3 storage" in the README.
+//
+//   npm run check:s3
+
+async function readAll(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+function expect(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+  console.log(`ok - ${message}`);
+}
+
+async function main() {
+  const storage = createBlobStorage({ ...process.env, STORAGE_DRIVER: "s3" });
+  // Spaces and parentheses exercise the path encoding that gets signed
+  const key = `checks/s3 check (${Date.now()}).mp4`;
+  const content = randomBytes(256 * 1024 + 17);
+  const sourcePath = path.join("/tmp", `s3_check_${Date.now()}.mp4`);
+  fs.writeFileSync(sourcePath, content);
+
+  try {
+    await storage.putFile(key, sourcePath);
+    expect(!fs.existsSync(sourcePath), "PUT uploads and removes the local file");
+    expect((await storage.size(key)) === content.length, "HEAD reports the uploaded size");
+
+    const range = await readAll(await storage.createReadStream(key, { start: 100, end: 199 }));
+    expect(range.equals(content.subarray(100, 200)), "ranged GET returns the requested bytes");
+
+    const downloaded = await storage.withLocalFile(key, async (filePath) => fs.readFileSync(filePath));
+    expect(downloaded.equals(content), "full GET matches the upload");
+
+    const response = await fetch(storage.getSignedUrl(key, 60));
+    expect(response.ok, `presigned URL is accepted (${response.status})`);
+    expect(Buffer.from(await response.arrayBuffer()).equals(content), "presigned URL serves the upload");
+
+    await storage.delete(key);
+    expect(!(await storage.exists(key)), "DELETE removes the object");
+
+    const missing = await storage.createReadStream(key).then(
+      () => null,
+      (error) => error,
+    );
+    expect(missing?.code === "ENOENT", "GET of a missing object fails with ENOENT");
+  } finally {
+    if (fs.existsSync(sourcePath)) fs.unlinkSync(sourcePath);
+    await storage.delete(key).catch(() => {});
+  }
+}
+
+main().then(
+  () => console.log("S3 storage check passed"),
+  (error) => {
+    console.error("S3 storage check failed:", error.message);
+    process.exitCode = 1;
+  },
+);
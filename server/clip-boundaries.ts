@@ -0,0 +1,278 @@
+import type { WordTiming } from "./transcription";
+
+// Post-processing for suggested clips. Models pick times that often start or
+// end mid-word or mid-sentence, so boundaries are snapped to the nearest
+// sentence start and end in the word timings, padded slightly, kept within
+// the allowed clip length, and overlapping suggestions are merged. Every
+// change is reported on the clip.
+
+export interface BoundaryOptions {
+  paddingBefore: number; // seconds of lead-in before the first word
+  paddingAfter: number; // seconds kept after the last word
+  minDuration: number;
+  maxDuration: number;
+  maxSnap: number; // furthest a boundary moves to reach a sentence edge
+}
+
+export const DEFAULT_BOUNDARY_OPTIONS: BoundaryOptions = {
+  paddingBefore: parseFloat(process.env.CLIP_PADDING_BEFORE || "0.2"),
+  paddingAfter: parseFloat(process.env.CLIP_PADDING_AFTER || "0.4"),
+  minDuration: parseFloat(process.env.CLIP_MIN_SECONDS || "15"),
+  maxDuration: parseFloat(process.env.CLIP_MAX_SECONDS || "90"),
+  maxSnap: parseFloat(process.env.CLIP_MAX_SNAP_SECONDS || "8"),
+};
+
+// A pause this long ends a sentence even without punctuation
+const SENTENCE_PAUSE_SECONDS = 1.0;
+
+interface Sentence {
+  start: number;
+  end: number;
+}
+
+export interface ClipBounds {
+  title: string;
+  startTime: number;
+  endTime: number;
+  socialScore?: number;
+}
+
+export type AdjustedClip<T> = T & { adjustments?: string[] };
+
+const fmt = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+export function findSentences(words: WordTiming[]): Sentence[] {
+  const sentences: Sentence[] = [];
+  let start: number | null = null;
+
+  words.forEach((word, i) => {
+    if (start === null) start = word.start;
+    const next = words[i + 1];
+    const endsSentence =
+      /[.!?]["')\]]*$/.test(word.word.trim()) ||
+      !next ||
+      next.start - word.end >= SENTENCE_PAUSE_SECONDS;
+    if (endsSentence) {
+      sentences.push({ start, end: word.end });
+      start = null;
+    }
+  });
+  return sentences;
+}
+
+// Closest candidate to target within maxSnap, or undefined
+function nearest(candidates: number[], target: number, maxSnap: number) {
+  let best: number | undefined;
+  for (const candidate of candidates) {
+    const distance = Math.abs(candidate - target);
+    if (distance <= maxSnap && (best === undefined || distance < Math.abs(best - target))) {
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+class BoundarySnapper {
+  private sentenceStarts: number[];
+  private sentenceEnds: number[];
+  private wordStarts: number[];
+  private wordEnds: number[];
+
+  constructor(
+    words: WordTiming[],
+    private options: BoundaryOptions,
+    private sourceDuration: number,
+  ) {
+    const sentences = findSentences(words);
+    this.sentenceStarts = sentences.map((s) => s.start);
+    this.sentenceEnds = sentences.map((s) => s.end);
+    this.wordStarts = words.map((w) => w.start);
+    this.wordEnds = words.map((w) => w.end);
+  }
+
+  get hasWords() {
+    return this.wordStarts.length > 0;
+  }
+
+  // Content boundaries (before padding) for one clip
+  snap(startTime: number, endTime: number, changes: string[]) {
+    const { maxSnap } = this.options;
+    let start = startTime;
+    let end = endTime;
+
+    if (this.hasWords) {
+      const sentenceStart = nearest(this.sentenceStarts, start, maxSnap);
+      const wordStart = nearest(this.wordStarts, start, maxSnap);
+      const snappedStart = sentenceStart ?? wordStart;
+      if (snappedStart !== undefined && snappedStart !== start) {
+        changes.push(
+          `start ${fmt(start)} -> ${fmt(snappedStart)} (${sentenceStart !== undefined ? "sentence" : "word"} start)`,
+        );
+        start = snappedStart;
+      }
+
+      const sentenceEnd = nearest(
+        this.sentenceEnds.filter((t) => t > start),
+        end,
+        maxSnap,
+      );
+      const wordEnd = nearest(
+        this.wordEnds.filter((t) => t > start),
+        end,
+        maxSnap,
+      );
+      const snappedEnd = sentenceEnd ?? wordEnd;
+      if (snappedEnd !== undefined && snappedEnd !== end) {
+        changes.push(
+          `end ${fmt(end)} -> ${fmt(snappedEnd)} (${sentenceEnd !== undefined ? "sentence" : "word"} end)`,
+        );
+        end = snappedEnd;
+      }
+    }
+
+    return this.fitDuration(start, end, changes);
+  }
+
+  // Extend short clips sentence by sentence and trim long ones back to a
+  // sentence end, leaving room for the padding
+  fitDuration(start: number, end: number, changes: string[]) {
+    const { minDuration, maxDuration, paddingBefore, paddingAfter } = this.options;
+    const maxContent = Math.max(1, maxDuration - paddingBefore - paddingAfter);
+    const minContent = Math.min(maxContent, Math.max(0, minDuration - paddingBefore - paddingAfter));
+
+    if (end - start < minContent) {
+      const before = end;
+      const longEnough = this.hasWords
+        ? this.sentenceEnds.find((t) => t - start >= minContent)
+        : undefined;
+      end = Math.min(longEnough ?? start + minContent, this.sourceDuration || Infinity);
+      if (end - start < minContent) {
+        // Out of source after the clip; grow it backwards instead
+        const earlier = this.hasWords
+          ? [...this.sentenceStarts].reverse().find((t) => end - t >= minContent)
+          : undefined;
+        start = Math.max(0, earlier ?? end - minContent);
+      }
+      changes.push(`extended to the ${minDuration}s minimum (end ${fmt(before)} -> ${fmt(end)})`);
+    }
+
+    if (end - start > maxContent) {
+      const before = end;
+      const limit = start + maxContent;
+      const fits = this.hasWords
+        ? [...this.sentenceEnds].reverse().find((t) => t <= limit && t > start) ??
+          [...this.wordEnds].reverse().find((t) => t <= limit && t > start)
+        : undefined;
+      end = fits ?? limit;
+      changes.push(`trimmed to the ${maxDuration}s maximum (end ${fmt(before)} -> ${fmt(end)})`);
+    }
+
+    return { start, end };
+  }
+
+  pad(start: number, end: number) {
+    const { paddingBefore, paddingAfter } = this.options;
+    return {
+      start: Math.max(0, start - paddingBefore),
+      end: this.sourceDuration > 0
+        ? Math.min(this.sourceDuration, end + paddingAfter)
+        : end + paddingAfter,
+    };
+  }
+}
+
+type TimeRange = { start: number; end: number };
+
+// Keep a clip inside the range it overlaps most (or the nearest one)
+function confine(start: number, end: number, ranges: TimeRange[], changes: string[]) {
+  const overlap = (range: TimeRange) => Math.min(end, range.end) - Math.max(start, range.start);
+  const gap = (range: TimeRange) => Math.max(range.start - end, start - range.end, 0);
+  const range = ranges.reduce((best, candidate) =>
+    overlap(candidate) > overlap(best) ||
+    (overlap(best) <= 0 && gap(candidate) < gap(best))
+      ? candidate
+      : best,
+  );
+
+  const confined = {
+    start: Math.min(Math.max(start, range.start), range.end),
+    end: Math.max(Math.min(end, range.end), range.start),
+  };
+  if (confined.start !== start || confined.end !== end) {
+    changes.push(`kept within the speaker turn ${fmt(range.start)}-${fmt(range.end)}`);
+  }
+  return confined;
+}
+
+// Snap, fit, merge and pad suggested clips. Returned clips are in source
+// order; each carries an adjustments list when anything changed. When
+// ranges are given (one speaker's turns), each clip is first confined to one
+// of them.
+export function refineClipBoundaries<T extends ClipBounds>(
+  clips: T[],
+  words: WordTiming[],
+  sourceDuration: number,
+  overrides: Partial<BoundaryOptions> = {},
+  ranges: TimeRange[] = [],
+): AdjustedClip<T>[] {
+  const options = { ...DEFAULT_BOUNDARY_OPTIONS, ...overrides };
+  const snapper = new BoundarySnapper(words, options, sourceDuration);
+
+  const snapped = clips.map((clip) => {
+    const changes: string[] = [];
+    if (!snapper.hasWords) {
+      changes.push("no word timings; boundaries not snapped");
+    }
+    const bounds =
+      ranges.length > 0
+        ? confine(clip.startTime, clip.endTime, ranges, changes)
+        : { start: clip.startTime, end: clip.endTime };
+    const { start, end } = snapper.snap(bounds.start, bounds.end, changes);
+    // mergedWith and mergeChanges describe overlapping clips folded into this one
+    return { clip, start, end, changes, mergedWith: [] as string[], mergeChanges: [] as string[] };
+  });
+
+  // Merge suggestions whose content overlaps, keeping the better-scored
+  // suggestion's title and copy
+  snapped.sort((a, b) => a.start - b.start);
+  const merged: typeof snapped = [];
+  for (const current of snapped) {
+    const previous = merged[merged.length - 1];
+    if (!previous || current.start >= previous.end) {
+      merged.push(current);
+      continue;
+    }
+
+    const keepCurrent = (current.clip.socialScore ?? 0) > (previous.clip.socialScore ?? 0);
+    const [kept, dropped] = keepCurrent ? [current, previous] : [previous, current];
+    const mergeChanges: string[] = [];
+    const fitted = snapper.fitDuration(
+      Math.min(previous.start, current.start),
+      Math.max(previous.end, current.end),
+      mergeChanges,
+    );
+    merged[merged.length - 1] = {
+      ...kept,
+      start: fitted.start,
+      end: fitted.end,
+      mergedWith: [...previous.mergedWith, ...current.mergedWith, dropped.clip.title],
+      mergeChanges,
+    };
+  }
+
+  return merged.map(({ clip, start, end, changes, mergedWith, mergeChanges }) => {
+    const padded = snapper.pad(start, end);
+    const refined: AdjustedClip<T> = {
+      ...clip,
+      startTime: Math.round(padded.start * 100) / 100,
+      endTime: Math.round(padded.end * 100) / 100,
+    };
+    const adjustments = [
+      ...changes,
+      ...mergedWith.map((title) => `merged with overlapping clip "${title}"`),
+      ...mergeChanges,
+    ];
+    if (adjustments.length > 0) refined.adjustments = adjustments;
+    return refined;
+  });
+}
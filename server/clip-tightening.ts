@@ -0,0 +1,218 @@
+import type { EditDecisionList } from "@shared/schema";
+import type { WordTiming } from "./transcription";
+
+// Tightened clips. Word timings inside a clip's range are scanned for filler
+// words ("um", "uh", a set-off "you know"), false starts (a cut-off fragment
+// or a word or phrase said twice) and pauses over a threshold. The result is
+// an edit decision list (EDL): the source ranges to keep, joined with short
+// crossfades when rendered (see createVideoClips in video-clipper.ts).
+
+export interface TightenOptions {
+  removeFillers: boolean; // fillers and false starts
+  maxPause: number | null; // longer pauses are shortened; null keeps them
+  keepPause: number; // seconds of silence left where a pause or filler was cut
+  crossfade: number; // seconds each join overlaps
+}
+
+export const DEFAULT_TIGHTEN_OPTIONS: TightenOptions = {
+  removeFillers: true,
+  maxPause: parseFloat(process.env.CLIP_MAX_PAUSE_SECONDS || "0.8"),
+  keepPause: parseFloat(process.env.CLIP_KEEP_PAUSE_SECONDS || "0.25"),
+  crossfade: parseFloat(process.env.CLIP_CROSSFADE_SECONDS || "0.08"),
+};
+
+const FILLER_WORDS = new Set(["um", "umm", "uh", "uhh", "uhm", "er", "erm", "ah", "hmm", "mm", "mhm"]);
+
+// Only removed when set off from the sentence by a pause or comma
+const FILLER_PHRASES = [["you", "know"], ["i", "mean"]];
+const SET_OFF_PAUSE = 0.2;
+// "do you know", "if I mean to" and the like are not fillers
+const PHRASE_EXCLUDED_AFTER = new Set(["do", "did", "don't", "didn't", "if", "as", "would", "you'd"]);
+
+// Single words that are often repeated on purpose ("had had", "very very")
+const INTENTIONAL_REPEATS = new Set(["had", "that", "very", "really", "no", "so", "bye"]);
+const MAX_REPEAT_WORDS = 3;
+const REPEAT_GAP = 1.0;
+
+// Cuts shorter than this aren't worth a join. Kept segments are at least
+// MIN_SEGMENT long, and longer than the crossfades at both of their ends.
+const MIN_CUT = 0.15;
+const MIN_SEGMENT = 0.3;
+
+type Cut = EditDecisionList["cuts"][number];
+type Removal = { reason: Cut["reason"] };
+
+const normalize = (word: string) => word.toLowerCase().replace(/[^a-z']/g, "");
+const hasComma = (word: string) => /,$/.test(word.trim());
+
+// Which words to drop, and why
+function findRemovals(words: WordTiming[]): Array<Removal | null> {
+  const removals: Array<Removal | null> = words.map(() => null);
+  const tokens = words.map((w) => normalize(w.word));
+
+  tokens.forEach((token, i) => {
+    if (FILLER_WORDS.has(token)) removals[i] = { reason: "filler" };
+    // A cut-off word ("wh-", "compan—")
+    else if (/[-—]$/.test(words[i].word.trim()) && token.length > 0) {
+      removals[i] = { reason: "false-start" };
+    }
+  });
+
+  for (const phrase of FILLER_PHRASES) {
+    for (let i = 0; i + phrase.length <= words.length; i++) {
+      if (!phrase.every((part, k) => tokens[i + k] === part)) continue;
+      const last = i + phrase.length - 1;
+      const before = words[i - 1];
+      const after = words[last + 1];
+      if (before && PHRASE_EXCLUDED_AFTER.has(tokens[i - 1])) continue;
+      const setOff =
+        !before ||
+        !after ||
+        hasComma(before.word) ||
+        hasComma(words[last].word) ||
+        words[i].start - before.end >= SET_OFF_PAUSE ||
+        after.start - words[last].end >= SET_OFF_PAUSE;
+      if (!setOff) continue;
+      for (let k = i; k <= last; k++) removals[k] = { reason: "filler" };
+    }
+  }
+
+  // "I think I think we" -> "I think we": drop the first of two identical runs
+  for (let i = 0; i < words.length; i++) {
+    for (let n = MAX_REPEAT_WORDS; n >= 1; n--) {
+      if (i + 2 * n > words.length) continue;
+      const first = tokens.slice(i, i + n);
+      const second = tokens.slice(i + n, i + 2 * n);
+      if (first.some((t) => t === "") || first.join(" ") !== second.join(" ")) continue;
+      if (n === 1 && INTENTIONAL_REPEATS.has(first[0])) continue;
+      if (words[i + n].start - words[i + n - 1].end > REPEAT_GAP) continue;
+      for (let k = i; k < i + n; k++) removals[k] ??= { reason: "false-start" };
+      i += n - 1;
+      break;
+    }
+  }
+
+  return removals;
+}
+
+// Build the EDL for one clip. Without anything to cut the single segment
+// covers the whole range.
+export function buildEditDecisionList(
+  allWords: WordTiming[],
+  range: { startTime: number; endTime: number },
+  overrides: Partial<TightenOptions> = {},
+): EditDecisionList {
+  const options = { ...DEFAULT_TIGHTEN_OPTIONS, ...overrides };
+  const { startTime, endTime } = range;
+  const words = allWords.filter((w) => w.start >= startTime && w.end <= endTime);
+  const removals = options.removeFillers ? findRemovals(words) : words.map(() => null);
+  const halfPause = options.keepPause / 2;
+  const minSegment = Math.max(MIN_SEGMENT, 2 * options.crossfade + 0.1);
+
+  // Walk the gaps between kept words; the clip edges act as kept boundaries
+  const candidates: Cut[] = [];
+  let previousEnd: number | null = null; // end of the last kept word
+  let removed: WordTiming[] = [];
+  let reason: Cut["reason"] = "filler";
+
+  const closeGap = (nextStart: number | null) => {
+    const gapStart = previousEnd ?? startTime;
+    const gapEnd = nextStart ?? endTime;
+    if (removed.length > 0) {
+      // Cover the removed words and the silence around them, leaving a short
+      // pause; at the clip edges there is no speech to leave a pause after
+      const first = removed[0].start;
+      const last = removed[removed.length - 1].end;
+      candidates.push({
+        start: previousEnd === null ? startTime : Math.min(first, gapStart + halfPause),
+        end: nextStart === null ? endTime : Math.max(last, gapEnd - halfPause),
+        reason,
+        text: removed.map((w) => w.word.trim()).join(" "),
+      });
+    } else if (
+      options.maxPause !== null &&
+      previousEnd !== null &&
+      nextStart !== null &&
+      gapEnd - gapStart > options.maxPause
+    ) {
+      candidates.push({ start: gapStart + halfPause, end: gapEnd - halfPause, reason: "pause" });
+    }
+    removed = [];
+  };
+
+  words.forEach((word, i) => {
+    const removal = removals[i];
+    if (removal) {
+      if (removed.length === 0 || removal.reason === "false-start") reason = removal.reason;
+      removed.push(word);
+      return;
+    }
+    closeGap(word.start);
+    previousEnd = word.end;
+  });
+  closeGap(null);
+
+  // Keep cuts that are long enough and leave usable segments between them
+  const keptStarts = words.filter((_, i) => !removals[i]).map((w) => w.start);
+  const cuts: Cut[] = [];
+  let segmentStart = startTime;
+  for (const candidate of candidates) {
+    const cut = {
+      ...candidate,
+      start: Math.max(segmentStart, candidate.start),
+      end: Math.min(endTime, candidate.end),
+    };
+    if (cut.end - cut.start < MIN_CUT) continue;
+    const atClipStart = cut.start <= startTime;
+    if (!atClipStart && cut.start - segmentStart < minSegment) continue;
+    // Too little left after it: cut to the end of the clip when nothing
+    // kept is spoken there
+    if (endTime - cut.end < minSegment) {
+      if (keptStarts.some((start) => start >= cut.end)) continue;
+      cut.end = endTime;
+    }
+    cuts.push(cut);
+    segmentStart = cut.end;
+  }
+
+  return editDecisionList(range, cuts, options.crossfade);
+}
+
+// Kept segments between cuts, which must be in order and not overlap. Each
+// segment starts in the output where the previous one ends, less the
+// crossfade joining them.
+export function editDecisionList(
+  range: { startTime: number; endTime: number },
+  cuts: Cut[],
+  crossfade: number,
+): EditDecisionList {
+  const { startTime, endTime } = range;
+  const segments: EditDecisionList["segments"] = [];
+  let cursor = startTime;
+  for (const cut of [...cuts, { start: endTime, end: endTime }]) {
+    if (cut.start - cursor > 0) {
+      const previous = segments[segments.length - 1];
+      const outputStart = previous
+        ? previous.outputStart + (previous.end - previous.start) - crossfade
+        : 0;
+      segments.push({ start: cursor, end: cut.start, outputStart });
+    }
+    cursor = cut.end;
+  }
+
+  const last = segments[segments.length - 1];
+  const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+  return {
+    sourceStart: startTime,
+    sourceEnd: endTime,
+    segments: segments.map((s) => ({
+      start: round(s.start),
+      end: round(s.end),
+      outputStart: round(s.outputStart),
+    })),
+    cuts: cuts.map((c) => ({ ...c, start: round(c.start), end: round(c.end) })),
+    crossfade: segments.length > 1 ? crossfade : 0,
+    originalDuration: round(endTime - startTime),
+    editedDuration: last ? round(last.outputStart + last.end - last.start) : 0,
+  };
+}
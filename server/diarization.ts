@@ -0,0 +1,427 @@
+import type { Conversation, SpeakerSegment } from "@shared/schema";
+import type { WordTiming } from "./transcription";
+import { storage } from "./storage";
+import { searchTranscript, toWordTimings } from "./transcript-words";
+
+// Speaker segmentation for two-person interviews. Recorded sessions already
+// know who spoke when from their conversation timeline (questions and
+// feedback are the interviewer, responses are the guest). Uploads have no
+// timeline, so their audio is split into utterances at pauses, each utterance
+// is described by its loudness and brightness, and the utterances are
+// clustered into two voices. The voice that talks more is taken to be the
+// guest; the labels can be swapped if the guess is wrong.
+
+export type Speaker = "interviewer" | "guest";
+
+export interface SpeakerTurn {
+  speaker: Speaker;
+  startPosition: number; // first word index
+  endPosition: number; // last word index, inclusive
+  startTime: number;
+  endTime: number;
+  source: "conversations" | "audio" | "edited";
+}
+
+// A stored segment or a fresh turn
+export type SpeakerSpan = Pick<
+  SpeakerSegment,
+  "speaker" | "startPosition" | "endPosition" | "startTime" | "endTime"
+>;
+
+// Pauses that can separate one speaker's utterance from the next
+const UTTERANCE_GAP_SECONDS = 0.5;
+// Utterances are split at this length so a long answer gets several votes
+const MAX_UTTERANCE_SECONDS = 12;
+// How far a conversation timestamp may move to land on a pause between words
+const TURN_SNAP_SECONDS = 1.5;
+// Words from the end of a response used to place it in the transcript
+const ANCHOR_WORDS = 5;
+// Timestamps above this are wall-clock seconds rather than session offsets
+const EPOCH_SECONDS = 1_000_000_000;
+// Centroids closer than this (in standard deviations) are treated as one voice
+const MIN_VOICE_SEPARATION = 0.6;
+const FRAME_SECONDS = 0.025;
+// Utterances described between yields to the event loop
+const FEATURE_BATCH = 50;
+
+// Collapse per-word speakers into runs
+export function toTurns(
+  words: WordTiming[],
+  speakers: Speaker[],
+  source: SpeakerTurn["source"],
+): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+  words.forEach((word, i) => {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === speakers[i]) {
+      last.endPosition = i;
+      last.endTime = word.end;
+    } else {
+      turns.push({
+        speaker: speakers[i],
+        startPosition: i,
+        endPosition: i,
+        startTime: word.start,
+        endTime: word.end,
+        source,
+      });
+    }
+  });
+  return turns;
+}
+
+// Conversation timestamps are whole seconds; move each to the widest gap
+// between words nearby so turns don't split a word run mid-sentence
+function snapToPause(words: WordTiming[], time: number): number {
+  let best = time;
+  let widest = 0;
+  for (let i = 1; i < words.length; i++) {
+    const gapStart = words[i - 1].end;
+    const gap = words[i].start - gapStart;
+    if (Math.abs(gapStart - time) <= TURN_SNAP_SECONDS && gap > widest) {
+      widest = gap;
+      best = (gapStart + words[i].start) / 2;
+    }
+  }
+  return best;
+}
+
+// Where the recording started on the conversation clock. The live interview
+// saves wall-clock seconds, so the end of each response is found in the
+// transcript and the offsets are compared; without a match the first entry
+// is taken as the start.
+function timelineOrigin(conversations: Conversation[], words: WordTiming[]): number {
+  const offsets = conversations
+    .filter((entry) => entry.type === "user_response")
+    .flatMap((entry) => {
+      const ending = entry.content.trim().split(/\s+/).slice(-ANCHOR_WORDS).join(" ");
+      const matches = searchTranscript(words, ending, 0);
+      return matches.length === 1 ? [entry.timestamp - matches[0].endTime] : [];
+    })
+    .sort((a, b) => a - b);
+  if (offsets.length > 0) return offsets[Math.floor(offsets.length / 2)];
+
+  const first = Math.min(...conversations.map((entry) => entry.timestamp));
+  return first > EPOCH_SECONDS ? first : 0;
+}
+
+// Entries are saved as each one finishes (a response when the guest submits
+// their answer, a question once it is asked), so the words leading up to an
+// entry's timestamp belong to that entry's speaker
+export function turnsFromConversations(
+  conversations: Conversation[],
+  words: WordTiming[],
+): SpeakerTurn[] {
+  if (conversations.length === 0 || words.length === 0) return [];
+
+  const origin = timelineOrigin(conversations, words);
+  const timeline = [...conversations]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((entry) => ({
+      speaker: (entry.type === "user_response" ? "guest" : "interviewer") as Speaker,
+      end: snapToPause(words, entry.timestamp - origin),
+    }));
+
+  let current = 0;
+  const speakers = words.map((word) => {
+    const middle = (word.start + word.end) / 2;
+    while (current + 1 < timeline.length && timeline[current].end < middle) {
+      current++;
+    }
+    return timeline[current].speaker;
+  });
+  return toTurns(words, speakers, "conversations");
+}
+
+interface PcmAudio {
+  samples: Int16Array;
+  sampleRate: number;
+}
+
+// 16-bit mono PCM WAV, as written by convertToWav16k. The samples are a view
+// over the file's bytes; a data chunk at an odd offset is copied once to align it.
+function parseWav(buffer: Buffer): PcmAudio {
+  let offset = 12;
+  let sampleRate = 16000;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString("ascii", offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    if (chunkId === "fmt ") {
+      sampleRate = buffer.readUInt32LE(offset + 12);
+    } else if (chunkId === "data") {
+      const start = buffer.byteOffset + offset + 8;
+      const length = Math.min(chunkSize, buffer.length - offset - 8) >> 1;
+      const samples =
+        start % 2 === 0
+          ? new Int16Array(buffer.buffer, start, length)
+          : new Int16Array(buffer.buffer.slice(start, start + length * 2));
+      return { samples, sampleRate };
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  throw new Error("No PCM data in WAV file");
+}
+
+interface Utterance {
+  first: number; // word indices
+  last: number;
+  start: number;
+  end: number;
+  question: boolean;
+}
+
+function splitUtterances(words: WordTiming[]): Utterance[] {
+  const utterances: Utterance[] = [];
+  words.forEach((word, i) => {
+    const last = utterances[utterances.length - 1];
+    const continues =
+      last &&
+      word.start - last.end < UTTERANCE_GAP_SECONDS &&
+      word.end - last.start <= MAX_UTTERANCE_SECONDS;
+    if (continues) {
+      last.last = i;
+      last.end = word.end;
+      last.question = /\?["')]*$/.test(word.word.trim());
+    } else {
+      utterances.push({
+        first: i,
+        last: i,
+        start: word.start,
+        end: word.end,
+        question: /\?["')]*$/.test(word.word.trim()),
+      });
+    }
+  });
+  return utterances;
+}
+
+// Mean log energy, its spread, zero-crossing rate and the share of energy in
+// sample-to-sample differences (a cheap brightness measure) over the
+// utterance's voiced frames
+function voiceFeatures(audio: PcmAudio, start: number, end: number): number[] | null {
+  const frame = Math.round(audio.sampleRate * FRAME_SECONDS);
+  const from = Math.max(0, Math.floor(start * audio.sampleRate));
+  const to = Math.min(audio.samples.length, Math.ceil(end * audio.sampleRate));
+
+  const frames: Array<{ logEnergy: number; zcr: number; brightness: number }> = [];
+  for (let offset = from; offset + frame <= to; offset += frame) {
+    let energy = 0;
+    let diffEnergy = 0;
+    let crossings = 0;
+    for (let i = offset; i < offset + frame; i++) {
+      const sample = audio.samples[i];
+      energy += sample * sample;
+      if (i > offset) {
+        const previous = audio.samples[i - 1];
+        diffEnergy += (sample - previous) * (sample - previous);
+        if ((sample >= 0) !== (previous >= 0)) crossings++;
+      }
+    }
+    frames.push({
+      logEnergy: Math.log10(energy / frame + 1),
+      zcr: crossings / frame,
+      brightness: diffEnergy / (energy + 1),
+    });
+  }
+  if (frames.length === 0) return null;
+
+  // Only the louder half of the frames is speech
+  const loudest = Math.max(...frames.map((f) => f.logEnergy));
+  const voiced = frames.filter((f) => f.logEnergy >= loudest - 1.5);
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const energyMean = mean(voiced.map((f) => f.logEnergy));
+  const energySpread = Math.sqrt(mean(voiced.map((f) => (f.logEnergy - energyMean) ** 2)));
+
+  return [
+    energyMean,
+    energySpread,
+    mean(voiced.map((f) => f.zcr)),
+    mean(voiced.map((f) => f.brightness)),
+  ];
+}
+
+function standardize(vectors: number[][]): number[][] {
+  const dimensions = vectors[0].length;
+  const means = new Array(dimensions).fill(0);
+  const spreads = new Array(dimensions).fill(0);
+  for (const v of vectors) v.forEach((x, d) => (means[d] += x / vectors.length));
+  for (const v of vectors) v.forEach((x, d) => (spreads[d] += (x - means[d]) ** 2 / vectors.length));
+  return vectors.map((v) => v.map((x, d) => (x - means[d]) / (Math.sqrt(spreads[d]) || 1)));
+}
+
+const distance = (a: number[], b: number[]) =>
+  Math.sqrt(a.reduce((sum, x, d) => sum + (x - b[d]) ** 2, 0));
+
+// Two-cluster k-means seeded with the two most distant points from the mean
+function twoMeans(points: number[][]): { labels: number[]; separation: number } {
+  const origin = points[0].map(() => 0);
+  const seedA = points.reduce((best, p) => (distance(p, origin) > distance(best, origin) ? p : best));
+  const seedB = points.reduce((best, p) => (distance(p, seedA) > distance(best, seedA) ? p : best));
+  let centroids = [seedA, seedB];
+  let labels = points.map(() => 0);
+
+  for (let iteration = 0; iteration < 25; iteration++) {
+    const next = points.map((p) => (distance(p, centroids[0]) <= distance(p, centroids[1]) ? 0 : 1));
+    const changed = next.some((label, i) => label !== labels[i]);
+    labels = next;
+    centroids = [0, 1].map((cluster) => {
+      const members = points.filter((_, i) => labels[i] === cluster);
+      if (members.length === 0) return centroids[cluster];
+      return members[0].map((_, d) => members.reduce((sum, p) => sum + p[d], 0) / members.length);
+    });
+    if (!changed && iteration > 0) break;
+  }
+  return { labels, separation: distance(centroids[0], centroids[1]) };
+}
+
+export async function turnsFromAudio(wav: Buffer, words: WordTiming[]): Promise<SpeakerTurn[]> {
+  if (words.length === 0) return [];
+  const audio = parseWav(wav);
+  const utterances = splitUtterances(words);
+
+  // An hour of audio is a few hundred million samples; describe it in
+  // batches so the server keeps answering requests meanwhile
+  const described: Array<{ utterance: Utterance; features: number[] }> = [];
+  for (let i = 0; i < utterances.length; i++) {
+    if (i > 0 && i % FEATURE_BATCH === 0) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    const features = voiceFeatures(audio, utterances[i].start, utterances[i].end);
+    if (features) described.push({ utterance: utterances[i], features });
+  }
+
+  let labels = described.map(() => 0);
+  if (described.length >= 4) {
+    const clustered = twoMeans(standardize(described.map((u) => u.features)));
+    if (clustered.separation >= MIN_VOICE_SEPARATION) {
+      labels = clustered.labels;
+    } else {
+      console.log(
+        `Diarization found a single voice (separation ${clustered.separation.toFixed(2)})`,
+      );
+    }
+  }
+
+  // Short utterances between two of the other voice are usually misheard
+  // back-channel ("right", "mm-hm"); follow the neighbours
+  for (let i = 1; i + 1 < labels.length; i++) {
+    const { start, end } = described[i].utterance;
+    if (end - start < 1 && labels[i - 1] === labels[i + 1]) labels[i] = labels[i - 1];
+  }
+
+  // The guest does most of the talking; questions break ties
+  const talk = [0, 0];
+  const questions = [0, 0];
+  described.forEach(({ utterance }, i) => {
+    talk[labels[i]] += utterance.end - utterance.start;
+    if (utterance.question) questions[labels[i]]++;
+  });
+  const guestCluster =
+    Math.abs(talk[0] - talk[1]) > 0.1 * (talk[0] + talk[1])
+      ? talk[0] >= talk[1] ? 0 : 1
+      : questions[0] <= questions[1] ? 0 : 1;
+
+  // Words in skipped utterances (no audio frames) keep the previous speaker
+  const speakers: Speaker[] = new Array(words.length);
+  let previous: Speaker = "guest";
+  let next = 0;
+  utterances.forEach((utterance) => {
+    const match = described[next]?.utterance === utterance ? next++ : -1;
+    const speaker: Speaker =
+      match === -1 ? previous : labels[match] === guestCluster ? "guest" : "interviewer";
+    for (let i = utterance.first; i <= utterance.last; i++) speakers[i] = speaker;
+    previous = speaker;
+  });
+  return toTurns(words, speakers, "audio");
+}
+
+// Speaker turns for a transcript: from the conversation timeline when the
+// session has one, otherwise from the audio. Diarization is best effort and
+// never fails a transcription.
+export async function diarize(
+  words: WordTiming[],
+  hints: { conversations?: Conversation[]; wav?: Buffer },
+): Promise<SpeakerTurn[]> {
+  try {
+    const timeline = hints.conversations ?? [];
+    if (timeline.some((entry) => entry.type === "user_response")) {
+      return turnsFromConversations(timeline, words);
+    }
+    if (hints.wav) return await turnsFromAudio(hints.wav, words);
+  } catch (error) {
+    console.warn("Speaker diarization failed:", error);
+  }
+  return [];
+}
+
+// Stored segments with interviewer and guest exchanged, for when the audio
+// diarizer picked the wrong voice as the guest
+export function swapSpeakers(segments: SpeakerSegment[]): SpeakerTurn[] {
+  return segments.map((segment) => ({
+    speaker: segment.speaker === "guest" ? "interviewer" : "guest",
+    startPosition: segment.startPosition,
+    endPosition: segment.endPosition,
+    startTime: segment.startTime,
+    endTime: segment.endTime,
+    source: segment.source as SpeakerTurn["source"],
+  }));
+}
+
+// Stored segments, or turns, as time ranges for one speaker
+export function speakerRanges(
+  segments: SpeakerSpan[],
+  speaker: Speaker,
+): Array<{ start: number; end: number }> {
+  return segments
+    .filter((segment) => segment.speaker === speaker)
+    .map((segment) => ({ start: segment.startTime, end: segment.endTime }));
+}
+
+// The words one speaker said, and their text with a paragraph per turn
+export function speakerTranscript(
+  words: WordTiming[],
+  segments: SpeakerSpan[],
+  speaker: Speaker,
+): { words: WordTiming[]; text: string } {
+  const turns = segments
+    .filter((segment) => segment.speaker === speaker)
+    .map((segment) => words.slice(segment.startPosition, segment.endPosition + 1));
+  return {
+    words: turns.flat(),
+    text: turns.map((turn) => turn.map((w) => w.word.trim()).join(" ")).join("\n\n"),
+  };
+}
+
+export interface SpeakerTarget {
+  text: string;
+  words: WordTiming[];
+  ranges: Array<{ start: number; end: number }>;
+}
+
+// What one speaker said in a stored transcript, for generating from their
+// answers only. Sessions transcribed before diarization fall back to their
+// conversation timeline. Null when speakers can't be told apart.
+export async function loadSpeakerTarget(
+  owner: { sessionId: string } | { uploadId: string },
+  speaker: Speaker,
+): Promise<SpeakerTarget | null> {
+  let words: WordTiming[];
+  let segments: SpeakerSpan[];
+
+  if ("sessionId" in owner) {
+    words = toWordTimings(await storage.getTranscriptWordsBySession(owner.sessionId));
+    segments = await storage.getSpeakerSegmentsBySession(owner.sessionId);
+    if (segments.length === 0 && words.length > 0) {
+      const conversations = await storage.getConversationsBySession(owner.sessionId);
+      segments = turnsFromConversations(conversations, words);
+    }
+  } else {
+    words = toWordTimings(await storage.getTranscriptWordsByUpload(owner.uploadId));
+    segments = await storage.getSpeakerSegmentsByUpload(owner.uploadId);
+  }
+
+  const spoken = speakerTranscript(words, segments, speaker);
+  if (spoken.words.length === 0) return null;
+  return { ...spoken, ranges: speakerRanges(segments, speaker) };
+}
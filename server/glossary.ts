@@ -0,0 +1,180 @@
+import type { GlossaryTerm } from "@shared/schema";
+import type { WordTiming } from "./transcription";
+import type { SpeakerSpan } from "./diarization";
+import { applyTranscriptEdits, type EditedTranscript, type TranscriptEdit } from "./transcript-edits";
+
+// Custom vocabulary for transcription. Terms are sent to the transcriber as a
+// prompt where the backend supports one, then a deterministic pass fixes the
+// words it still got wrong: any run of up to MAX_RUN words that spells a term
+// or one of its aliases, ignoring case, spacing, hyphens and punctuation, is
+// replaced by the term. "lang chain", "Lang-Chain" and "langchain" all become
+// "LangChain". Replacements go through the transcript edit operations, so
+// word timings and speaker turns are kept.
+
+const MAX_RUN = 4;
+
+// Whisper only reads the last 224 tokens of a prompt
+const PROMPT_MAX_CHARS = 800;
+
+// Keys shorter than this would match ordinary words
+const MIN_KEY_LENGTH = 2;
+
+export interface GlossaryReplacement {
+  position: number; // first word replaced, in the transcript before correction
+  start: number;
+  end: number;
+  from: string;
+  to: string;
+}
+
+export interface GlossaryReport {
+  total: number;
+  byTerm: Record<string, number>;
+  replacements: GlossaryReplacement[];
+}
+
+type Terms = Array<Pick<GlossaryTerm, "term" | "aliases">>;
+
+interface GlossaryMatch {
+  index: number;
+  length: number;
+  replacement: string;
+  term: string;
+}
+
+const keyOf = (text: string) => text.toLowerCase().replace(/[^a-z0-9+#&]/g, "");
+
+// Leading punctuation, the word itself, and trailing punctuation (including a
+// possessive) that is kept around the replacement
+function splitWord(word: string) {
+  const trimmed = word.trim();
+  const lead = trimmed.match(/^[^A-Za-z0-9]*/)![0];
+  const rest = trimmed.slice(lead.length);
+  const trail = rest.match(/(?:['’]s)?[.,!?;:"'’)\]]*$/)![0];
+  return { lead, core: rest.slice(0, rest.length - trail.length), trail };
+}
+
+function buildIndex(terms: Terms) {
+  const index = new Map<string, string>();
+  for (const { term, aliases } of terms) {
+    for (const pattern of [term, ...aliases]) {
+      const key = keyOf(pattern);
+      if (key.length >= MIN_KEY_LENGTH && !index.has(key)) index.set(key, term);
+    }
+  }
+  return index;
+}
+
+// Longest runs win; overlapping matches are not considered
+function findMatches(tokens: string[], terms: Terms): GlossaryMatch[] {
+  const index = buildIndex(terms);
+  const matches: GlossaryMatch[] = [];
+  if (index.size === 0) return matches;
+
+  const parts = tokens.map(splitWord);
+  let i = 0;
+  while (i < parts.length) {
+    let matched: GlossaryMatch | undefined;
+    let consumed = 1;
+    for (let length = Math.min(MAX_RUN, parts.length - i); length >= 1; length--) {
+      const run = parts.slice(i, i + length);
+      if (run.some((part) => part.core === "")) continue;
+      // Punctuation inside the run would join words across a sentence break
+      if (run.slice(0, -1).some((part) => part.trail !== "") || run.slice(1).some((part) => part.lead !== "")) {
+        continue;
+      }
+
+      const term = index.get(keyOf(run.map((part) => part.core).join("")));
+      if (term === undefined) continue;
+      consumed = length;
+      if (run.map((part) => part.core).join(" ") !== term) {
+        matched = {
+          index: i,
+          length,
+          replacement: `${run[0].lead}${term}${run[run.length - 1].trail}`,
+          term,
+        };
+      }
+      break;
+    }
+
+    if (matched) matches.push(matched);
+    i += consumed;
+  }
+  return matches;
+}
+
+// Prompt that primes the transcriber with the correct spellings
+export function glossaryPrompt(terms: Terms): string | undefined {
+  const names = Array.from(new Set(terms.map((t) => t.term.trim()).filter(Boolean)));
+  if (names.length === 0) return undefined;
+
+  let prompt = "Glossary:";
+  for (const name of names) {
+    const next = `${prompt} ${name},`;
+    if (next.length > PROMPT_MAX_CHARS) break;
+    prompt = next;
+  }
+  return prompt.replace(/,$/, ".");
+}
+
+// Correct a word list. Speaker segments, when given, follow the corrected
+// words; with nothing replaced the words come back as they were and no
+// speakers are returned, so there is nothing to store.
+export function applyGlossary(
+  words: WordTiming[],
+  terms: Terms,
+  segments: SpeakerSpan[] = [],
+): EditedTranscript & { report: GlossaryReport } {
+  const matches = findMatches(words.map((w) => w.word), terms);
+
+  const replacements = matches.map((match) => ({
+    position: match.index,
+    start: words[match.index].start,
+    end: words[match.index + match.length - 1].end,
+    from: words.slice(match.index, match.index + match.length).map((w) => w.word.trim()).join(" "),
+    to: match.replacement,
+  }));
+  const byTerm: Record<string, number> = {};
+  for (const match of matches) byTerm[match.term] = (byTerm[match.term] || 0) + 1;
+  const report = { total: matches.length, byTerm, replacements };
+
+  if (matches.length === 0) {
+    return { words, speakers: [], report };
+  }
+
+  // Right to left, so each edit's positions are still those of the original
+  const edits: TranscriptEdit[] = [];
+  for (const match of [...matches].reverse()) {
+    for (let k = 1; k < match.length; k++) {
+      edits.push({ op: "merge", position: match.index });
+    }
+    const tokens = match.replacement.split(/\s+/);
+    edits.push(
+      tokens.length > 1
+        ? { op: "split", position: match.index, words: tokens }
+        : { op: "replace", position: match.index, word: tokens[0] },
+    );
+  }
+
+  return { ...applyTranscriptEdits(words, segments, edits), report };
+}
+
+// The same correction over plain transcript text, keeping its spacing and
+// line breaks outside the replaced runs
+export function correctText(text: string, terms: Terms): string {
+  const parts = text.split(/(\s+)/);
+  const tokenParts: number[] = [];
+  parts.forEach((part, i) => {
+    if (i % 2 === 0 && part !== "") tokenParts.push(i);
+  });
+
+  const matches = findMatches(tokenParts.map((i) => parts[i]), terms);
+  for (const match of matches) {
+    const first = tokenParts[match.index];
+    const last = tokenParts[match.index + match.length - 1];
+    parts[first] = match.replacement;
+    for (let i = first + 1; i <= last; i++) parts[i] = "";
+  }
+  return parts.join("");
+}
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { jobQueue } from "./jobs";
+import "./job-handlers";
 
 const app = express();
 app.use(express.json({ limit: "500mb" }));
@@ -68,4 +70,7 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Start working through queued media jobs, including any interrupted by a restart
+  await jobQueue.start();
 })();
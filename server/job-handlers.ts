@@ -0,0 +1,554 @@
+import fs from "fs";
+import path from "path";
+import type { CaptionStyle, ClipRendition, Session } from "@shared/schema";
+import { storage } from "./storage";
+import { jobQueue } from "./jobs";
+import { generateVideoClips } from "./anthropic";
+import { convertToWav16k, getAudioDuration } from "./audio";
+import { transcribeAudioBuffer, type WordTiming } from "./transcription";
+import { diarize, speakerRanges, speakerTranscript, type SpeakerSpan } from "./diarization";
+import type { Conversation, GlossaryTerm } from "@shared/schema";
+import { toWordTimings, wordsDuration } from "./transcript-words";
+import { createVideoClips, renderEditDecisionList } from "./video-clipper";
+import { RENDITION_PROFILES, type FramingMode } from "./reframe";
+import { blobStorage, sessionVideoKey } from "./blob-storage";
+import { resolveBrandVoice } from "./brand-voice";
+import type { TightenOptions } from "./clip-tightening";
+import { applyGlossary, correctText, glossaryPrompt } from "./glossary";
+import { buildJumpCut, detectSilences, silentSeconds, type SilenceOptions } from "./silence-map";
+
+// Payloads are stored as JSON on the job row. Caption styles are resolved
+// (preset merged with overrides) by the route before the job is queued.
+// Videos are referenced by storage key and fetched locally for ffmpeg.
+
+export interface TranscribeUploadPayload {
+  uploadId: string;
+  videoKey: string;
+}
+
+export interface GenerateUploadClipsPayload {
+  uploadId: string | null;
+  videoKey: string;
+  originalName: string;
+  transcript: string;
+  captionStyle: CaptionStyle | null;
+  profiles: string[];
+  framing: FramingMode;
+  deleteVideo: boolean; // the video was uploaded just for this job
+  brandProfileId?: string | null;
+  regenerate?: boolean; // skip the LLM cache when choosing clips
+  speaker?: "all" | "guest"; // choose clips from the guest's answers only
+  tighten?: Partial<TightenOptions> | null; // cut fillers and long pauses
+}
+
+export interface TranscribeSessionPayload {
+  sessionId: string;
+}
+
+export interface CreateSessionClipsPayload {
+  sessionId: string;
+  captionStyle: CaptionStyle | null;
+  tighten?: Partial<TightenOptions> | null;
+  trimSilence?: boolean; // trim silent heads and tails using the silence map
+}
+
+export interface AnalyzeSessionSilencePayload {
+  sessionId: string;
+  options?: Partial<SilenceOptions>;
+}
+
+export interface RenderJumpCutPayload {
+  sessionId: string;
+  keepPause?: number;
+}
+
+export interface RenderClipPayload {
+  clipId: string;
+  profiles: string[];
+  framing: FramingMode;
+  captionStyle: CaptionStyle | null;
+  tighten?: Partial<TightenOptions> | null;
+}
+
+// Extract 16kHz audio, transcribe it with the glossary as a hint, correct
+// glossary terms it still misspelled and split it into speaker turns,
+// reporting progress between start and end. A session's conversation
+// timeline, when given, decides the speakers instead of the audio.
+async function transcribeVideo(
+  videoPath: string,
+  filename: string,
+  report: (percent: number, message: string) => Promise<void>,
+  glossary: GlossaryTerm[],
+  conversations?: Conversation[],
+) {
+  const audioPath = path.join("/tmp", `audio_${Date.now()}.wav`);
+
+  try {
+    const duration = await getAudioDuration(videoPath).catch(() => 0);
+
+    await report(5, "Extracting audio");
+    await convertToWav16k(videoPath, audioPath, (seconds) => {
+      if (duration > 0) {
+        void report(5 + (seconds / duration) * 25, "Extracting audio");
+      }
+    });
+
+    await report(30, "Transcribing audio");
+    const wav = await fs.promises.readFile(audioPath);
+    const transcription = await transcribeAudioBuffer(
+      wav,
+      filename,
+      { prompt: glossaryPrompt(glossary) },
+    );
+    console.log(`Transcription completed (${transcription.text.length} chars).`);
+
+    const corrected = applyGlossary(transcription.words || [], glossary);
+    if (corrected.report.total > 0) {
+      console.log(`Glossary corrected ${corrected.report.total} words:`, corrected.report.byTerm);
+    }
+
+    await report(85, "Identifying speakers");
+    const speakers = await diarize(corrected.words, { conversations, wav });
+    return {
+      ...transcription,
+      text: correctText(transcription.text, glossary),
+      words: corrected.words,
+      speakers,
+      glossary: corrected.report,
+    };
+  } finally {
+    if (fs.existsSync(audioPath)) fs.unlinkSync(audioPath);
+  }
+}
+
+// Find the silences in a session's recording and store the map on the session
+async function analyzeSilence(
+  session: Session,
+  videoPath: string,
+  report: (percent: number) => void,
+  options?: Partial<SilenceOptions>,
+) {
+  const silenceMap = await detectSilences(videoPath, options, (seconds, duration) => {
+    if (duration > 0) report(Math.min(100, (seconds / duration) * 100));
+  });
+  console.log(
+    `Found ${silenceMap.silences.length} silences (${silentSeconds(silenceMap)}s of ${silenceMap.duration}s) in session ${session.id}`,
+  );
+  await storage.updateSession(session.id, { silenceMap });
+  return silenceMap;
+}
+
+jobQueue.register("transcribe-upload", async (job, context) => {
+  const { uploadId, videoKey } = job.payload as TranscribeUploadPayload;
+  const upload = await storage.getUpload(uploadId);
+  if (!upload) throw new Error(`Upload ${uploadId} not found`);
+
+  try {
+    await storage.updateUpload(uploadId, { status: "transcribing" });
+    const glossary = await storage.getGlossaryTerms();
+
+    const transcription = await blobStorage.withLocalFile(videoKey, (videoPath) =>
+      transcribeVideo(
+        videoPath,
+        upload.originalName,
+        (percent, message) => context.progress(percent, message),
+        glossary,
+      ),
+    );
+
+    await context.progress(90, "Saving transcript");
+    await storage.setUploadTranscriptWords(uploadId, transcription.words || []);
+    await storage.setUploadSpeakerSegments(uploadId, transcription.speakers);
+    await storage.updateUpload(uploadId, {
+      status: "transcribed",
+      transcript: transcription.text,
+    });
+
+    return {
+      uploadId,
+      text: transcription.text,
+      duration: transcription.duration,
+      wordCount: transcription.words.length,
+      glossary: transcription.glossary,
+    };
+  } catch (error) {
+    // Out of retries: the upload must not look like it is still transcribing
+    if (job.attempts >= job.maxAttempts) {
+      await storage.updateUpload(uploadId, { status: "transcription-failed" });
+    }
+    throw error;
+  }
+});
+
+jobQueue.register("generate-upload-clips", async (job, context) => {
+  const payload = job.payload as GenerateUploadClipsPayload;
+  const { uploadId, videoKey, captionStyle, framing } = payload;
+  let succeeded = false;
+
+  try {
+    return await blobStorage.withLocalFile(videoKey, async (videoPath) => {
+      // Reuse word timings stored when this upload was transcribed
+      const storedWords = uploadId
+        ? await storage.getTranscriptWordsByUpload(uploadId)
+        : [];
+
+      let words: WordTiming[];
+      let duration: number;
+      let speakers: SpeakerSpan[];
+
+      if (storedWords.length > 0) {
+        words = toWordTimings(storedWords);
+        duration = wordsDuration(words);
+        speakers = payload.speaker === "guest" && uploadId
+          ? await storage.getSpeakerSegmentsByUpload(uploadId)
+          : [];
+        console.log(`Using ${words.length} stored word timestamps for upload ${uploadId}`);
+      } else {
+        const transcription = await transcribeVideo(
+          videoPath,
+          payload.originalName,
+          (percent, message) => context.progress(percent * 0.4, message),
+          await storage.getGlossaryTerms(),
+        );
+        words = transcription.words;
+        duration = transcription.duration;
+        speakers = transcription.speakers;
+
+        if (uploadId) {
+          await storage.setUploadTranscriptWords(uploadId, words);
+          await storage.setUploadSpeakerSegments(uploadId, transcription.speakers);
+        }
+      }
+
+      // Guest-only clips are chosen from the guest's words and kept inside
+      // their turns; captions still use every word
+      let clipTranscript = payload.transcript;
+      let clipWords = words;
+      let guestRanges: Array<{ start: number; end: number }> = [];
+      if (payload.speaker === "guest") {
+        const guest = speakerTranscript(words, speakers, "guest");
+        if (guest.words.length > 0) {
+          clipTranscript = guest.text;
+          clipWords = guest.words;
+          guestRanges = speakerRanges(speakers, "guest");
+        } else {
+          console.warn(`No guest speech identified in ${payload.originalName}; using the whole transcript`);
+        }
+      }
+
+      await context.progress(40, "Choosing clips");
+      const voice = await resolveBrandVoice(payload.brandProfileId);
+      const videoClips = await generateVideoClips(
+        clipTranscript,
+        duration || 120,
+        clipWords,
+        voice,
+        { uploadId: uploadId ?? undefined, regenerate: payload.regenerate },
+        guestRanges,
+      );
+      console.log(`Generated ${videoClips.length} clips for ${payload.originalName}`);
+
+      const clipRequests = videoClips.map((clip) => ({
+        title: clip.title,
+        description: clip.description,
+        startTime: clip.startTime,
+        endTime: clip.endTime,
+        socialScore: clip.socialScore || 0,
+      }));
+
+      // Each pass (source frame plus one per profile) gets an equal share of 50-95%
+      const passes = 1 + payload.profiles.length;
+      const passProgress = (pass: number, label: string) => (percent: number) =>
+        void context.progress(50 + ((pass + percent / 100) / passes) * 45, label);
+
+      await context.progress(50, "Cutting clips");
+      const tighten = payload.tighten ? { words, options: payload.tighten } : undefined;
+      const videoClipResults = await createVideoClips(videoPath, clipRequests, undefined, {
+        captions: captionStyle ? { words, style: captionStyle } : undefined,
+        tighten,
+        onProgress: passProgress(0, "Cutting clips"),
+      });
+
+      const renditionsByClip = videoClipResults.map(
+        () => [] as Array<Record<string, unknown>>,
+      );
+
+      for (let pass = 0; pass < payload.profiles.length; pass++) {
+        const profile = RENDITION_PROFILES[payload.profiles[pass]];
+        console.log(`Rendering ${profile.label} renditions (${framing})`);
+
+        const renditionResults = await createVideoClips(videoPath, videoClipResults, undefined, {
+          rendition: { profile, framing },
+          captions: captionStyle ? { words, style: captionStyle } : undefined,
+          tighten,
+          onProgress: passProgress(pass + 1, `Rendering ${profile.label}`),
+        });
+
+        renditionResults.forEach((result) => {
+          renditionsByClip[result.sourceIndex].push({
+            profile: profile.id,
+            aspectRatio: profile.aspectRatio,
+            framing,
+            width: profile.width,
+            height: profile.height,
+            duration: result.duration,
+            videoPath: result.videoPath,
+          });
+        });
+      }
+
+      const clipsResponse = videoClipResults.map((clipResult, index) => ({
+        id: `video-clip-${Date.now()}-${index}`,
+        title: clipResult.title,
+        description: clipResult.description,
+        startTime: clipResult.startTime,
+        endTime: clipResult.endTime,
+        socialScore: clipResult.socialScore,
+        adjustments: videoClips[clipResult.sourceIndex].adjustments,
+        duration: clipResult.duration,
+        edits: clipResult.edits,
+        videoPath: clipResult.videoPath,
+        renditions: renditionsByClip[index],
+        createdAt: new Date().toISOString(),
+      }));
+
+      // Keep the rendered clips on the upload so subtitles and package
+      // downloads can find them later
+      if (uploadId) {
+        await storage.updateUpload(uploadId, { videoClips: clipsResponse });
+      }
+
+      succeeded = true;
+      return { clips: clipsResponse };
+    });
+  } finally {
+    // Keep the video around while there are retries left
+    const lastAttempt = succeeded || job.attempts >= job.maxAttempts;
+    if (payload.deleteVideo && lastAttempt) {
+      await blobStorage.delete(videoKey);
+    }
+  }
+});
+
+jobQueue.register("transcribe-session", async (job, context) => {
+  const { sessionId } = job.payload as TranscribeSessionPayload;
+  const session = await storage.getSession(sessionId);
+  if (!session) throw new Error(`Session ${sessionId} not found`);
+  const videoKey = sessionVideoKey(session);
+  const conversations = await storage.getConversationsBySession(sessionId);
+  const glossary = await storage.getGlossaryTerms(sessionId);
+
+  const transcription = await blobStorage.withLocalFile(videoKey, (videoPath) =>
+    transcribeVideo(
+      videoPath,
+      path.basename(videoKey),
+      (percent, message) => context.progress(percent, message),
+      glossary,
+      conversations,
+    ),
+  );
+  const words = transcription.words;
+
+  await context.progress(90, "Saving transcript");
+  await storage.setSessionTranscriptWords(sessionId, words);
+  await storage.setSessionSpeakerSegments(sessionId, transcription.speakers);
+  await storage.updateSession(sessionId, {
+    fullTranscript: transcription.text,
+    duration: Math.round(transcription.duration),
+  });
+
+  return {
+    sessionId,
+    text: transcription.text,
+    duration: transcription.duration,
+    wordCount: words.length,
+    glossary: transcription.glossary,
+  };
+});
+
+jobQueue.register("create-session-clips", async (job, context) => {
+  const { sessionId, captionStyle, tighten, trimSilence } = job.payload as CreateSessionClipsPayload;
+  const session = await storage.getSession(sessionId);
+  if (!session) throw new Error(`Session ${sessionId} not found`);
+
+  const clips = await storage.getClips(sessionId);
+  const words = captionStyle || tighten
+    ? toWordTimings(await storage.getTranscriptWordsBySession(sessionId))
+    : [];
+
+  const clipRequests = clips.map((clip) => ({
+    title: clip.title,
+    description: clip.description || "",
+    startTime: clip.startTime,
+    endTime: clip.endTime,
+    socialScore: clip.socialScore || 0,
+  }));
+
+  const clipResults = await blobStorage.withLocalFile(sessionVideoKey(session), async (videoPath) => {
+    const silenceMap = trimSilence
+      ? session.silenceMap ??
+        (await analyzeSilence(session, videoPath, (percent) =>
+          void context.progress(percent * 0.2, "Finding silences"),
+        ))
+      : undefined;
+
+    await context.progress(20, "Cutting clips");
+    return createVideoClips(videoPath, clipRequests, undefined, {
+      captions: captionStyle ? { words, style: captionStyle } : undefined,
+      tighten: tighten ? { words, options: tighten } : undefined,
+      trimSilence: silenceMap,
+      onProgress: (percent) => void context.progress(20 + percent * 0.75, "Cutting clips"),
+    });
+  });
+
+  // Record each file on its clip so the media registry can serve it by ID
+  for (const clipResult of clipResults) {
+    const originalClip = clips[clipResult.sourceIndex];
+
+    // Subtitles follow the edited timeline when there is one
+    await storage.updateClip(originalClip.id, {
+      videoPath: clipResult.videoPath,
+      edits: clipResult.edits ?? null,
+    });
+  }
+
+  return {
+    message: `Successfully created ${clipResults.length} video clips`,
+    clips: clipResults,
+  };
+});
+
+jobQueue.register("render-clip", async (job, context) => {
+  const { clipId, profiles, framing, captionStyle, tighten } = job.payload as RenderClipPayload;
+
+  const clip = await storage.getClip(clipId);
+  if (!clip) throw new Error(`Clip ${clipId} not found`);
+
+  const session = await storage.getSession(clip.sessionId);
+  if (!session) throw new Error(`Session ${clip.sessionId} not found`);
+
+  const words = captionStyle || tighten
+    ? toWordTimings(await storage.getTranscriptWordsBySession(clip.sessionId))
+    : [];
+
+  const renditions: ClipRendition[] = [];
+
+  // Download once for all profiles
+  await blobStorage.withLocalFile(sessionVideoKey(session), async (videoPath) => {
+    for (let index = 0; index < profiles.length; index++) {
+      const profileId = profiles[index];
+      const profile = RENDITION_PROFILES[profileId];
+      const step = `Rendering ${profile.label}`;
+      console.log(`Rendering clip ${clipId} for ${profile.label} (${framing})`);
+
+      const [result] = await createVideoClips(
+        videoPath,
+        [
+          {
+            title: clip.title,
+            description: clip.description || "",
+            startTime: clip.startTime,
+            endTime: clip.endTime,
+            socialScore: clip.socialScore || 0,
+          },
+        ],
+        undefined,
+        {
+          rendition: { profile, framing },
+          captions:
+            captionStyle && words.length > 0 ? { words, style: captionStyle } : undefined,
+          tighten: tighten && words.length > 0 ? { words, options: tighten } : undefined,
+          onProgress: (percent) =>
+            void context.progress(((index + percent / 100) / profiles.length) * 95, step),
+        },
+      );
+
+      if (!result) {
+        console.warn(`Rendition ${profileId} failed for clip ${clipId}`);
+        continue;
+      }
+
+      renditions.push(
+        await storage.createClipRendition({
+          clipId,
+          profile: profile.id,
+          aspectRatio: profile.aspectRatio,
+          framing,
+          width: profile.width,
+          height: profile.height,
+          duration: result.duration,
+          videoPath: result.videoPath,
+        }),
+      );
+    }
+  });
+
+  if (renditions.length === 0) {
+    throw new Error("No renditions could be rendered");
+  }
+
+  return { renditions };
+});
+
+jobQueue.register("analyze-session-silence", async (job, context) => {
+  const { sessionId, options } = job.payload as AnalyzeSessionSilencePayload;
+  const session = await storage.getSession(sessionId);
+  if (!session) throw new Error(`Session ${sessionId} not found`);
+
+  await context.progress(0, "Finding silences");
+  const silenceMap = await blobStorage.withLocalFile(sessionVideoKey(session), (videoPath) =>
+    analyzeSilence(
+      session,
+      videoPath,
+      (percent) => void context.progress(percent * 0.95, "Finding silences"),
+      options,
+    ),
+  );
+
+  return {
+    sessionId,
+    silences: silenceMap.silences.length,
+    silentSeconds: silentSeconds(silenceMap),
+    duration: silenceMap.duration,
+  };
+});
+
+jobQueue.register("render-jump-cut", async (job, context) => {
+  const { sessionId, keepPause } = job.payload as RenderJumpCutPayload;
+  const session = await storage.getSession(sessionId);
+  if (!session) throw new Error(`Session ${sessionId} not found`);
+
+  const jumpCut = await blobStorage.withLocalFile(sessionVideoKey(session), async (videoPath) => {
+    const silenceMap =
+      session.silenceMap ??
+      (await analyzeSilence(session, videoPath, (percent) =>
+        void context.progress(percent * 0.2, "Finding silences"),
+      ));
+
+    const edits = buildJumpCut(silenceMap, keepPause);
+    console.log(
+      `Jump-cutting session ${sessionId}: ${edits.cuts.length} cuts, ${edits.originalDuration}s -> ${edits.editedDuration}s`,
+    );
+    await context.progress(20, "Rendering jump cut");
+    const { videoPath: jumpCutPath } = await renderEditDecisionList(
+      videoPath,
+      edits,
+      "jump-cuts",
+      (percent) => void context.progress(20 + percent * 0.75, "Rendering jump cut"),
+    );
+    return { videoPath: jumpCutPath, edits, renderedAt: new Date().toISOString() };
+  });
+
+  // A new render replaces the previous one
+  if (session.jumpCut) {
+    await blobStorage.delete(session.jumpCut.videoPath).catch(() => {});
+  }
+  await storage.updateSession(sessionId, { jumpCut });
+
+  return {
+    sessionId,
+    cuts: jumpCut.edits.cuts.length,
+    originalDuration: jumpCut.edits.originalDuration,
+    editedDuration: jumpCut.edits.editedDuration,
+  };
+});
@@ -0,0 +1,200 @@
+import { EventEmitter } from "events";
+import type { Job } from "@shared/schema";
+import { storage } from "./storage";
+import { usageMeter } from "./usage";
+
+export interface JobContext {
+  // Report progress (0-100) and the step being worked on
+  progress(percent: number, message?: string): Promise<void>;
+}
+
+export type JobHandler = (job: Job, context: JobContext) => Promise<unknown>;
+
+export interface EnqueueOptions {
+  sessionId?: string;
+  uploadId?: string;
+  maxAttempts?: number;
+}
+
+const POLL_INTERVAL_MS = 1000;
+const RETRY_BASE_DELAY_MS = 5000;
+// Progress writes are throttled so a chatty ffmpeg doesn't hammer the database
+const PROGRESS_WRITE_INTERVAL_MS = 1000;
+
+// Persistent job queue. Jobs live in the jobs table so they survive restarts;
+// one in-process worker runs them one at a time, since each is ffmpeg- or
+// API-bound. Subscribers get every state change for live progress streams.
+export class JobQueue {
+  private handlers = new Map<string, JobHandler>();
+  private events = new EventEmitter();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor() {
+    // One listener per open progress stream
+    this.events.setMaxListeners(0);
+  }
+
+  register(type: string, handler: JobHandler) {
+    this.handlers.set(type, handler);
+  }
+
+  async enqueue(
+    type: string,
+    payload: Record<string, unknown>,
+    options: EnqueueOptions = {},
+  ): Promise<Job> {
+    if (!this.handlers.has(type)) {
+      throw new Error(`No handler registered for job type ${type}`);
+    }
+
+    const job = await storage.createJob({
+      type,
+      payload,
+      status: "queued",
+      progress: 0,
+      message: "Queued",
+      maxAttempts: options.maxAttempts ?? 3,
+      sessionId: options.sessionId ?? null,
+      uploadId: options.uploadId ?? null,
+    });
+
+    console.log(`Queued ${type} job ${job.id}`);
+    this.emit(job);
+    this.poll();
+    return job;
+  }
+
+  // Listen for updates to one job; returns an unsubscribe function
+  subscribe(jobId: string, listener: (job: Job) => void): () => void {
+    this.events.on(jobId, listener);
+    return () => {
+      this.events.off(jobId, listener);
+    };
+  }
+
+  async start() {
+    const { requeued, failed } = await storage.requeueRunningJobs();
+    if (requeued > 0) {
+      console.log(`Requeued ${requeued} interrupted job(s)`);
+    }
+    if (failed > 0) {
+      console.warn(`Failed ${failed} interrupted job(s) with no attempts left`);
+    }
+
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    this.poll();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private emit(job: Job) {
+    this.events.emit(job.id, job);
+  }
+
+  private async poll() {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      let job: Job | undefined;
+      while ((job = await storage.claimNextJob())) {
+        await this.run(job);
+      }
+    } catch (error) {
+      console.error("Job worker error:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async run(job: Job) {
+    const handler = this.handlers.get(job.type);
+    console.log(`Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+    this.emit(job);
+
+    if (!handler) {
+      await this.update(job.id, {
+        status: "failed",
+        error: `No handler registered for job type ${job.type}`,
+        completedAt: new Date(),
+      });
+      return;
+    }
+
+    let lastWrite = 0;
+    const context: JobContext = {
+      progress: async (percent, message) => {
+        const progress = Math.max(0, Math.min(100, Math.round(percent)));
+        const now = Date.now();
+        if (now - lastWrite < PROGRESS_WRITE_INTERVAL_MS && progress < 100) {
+          this.emit({ ...job, progress, message: message ?? job.message });
+          return;
+        }
+        lastWrite = now;
+        // Progress is best effort; callers fire it from ffmpeg callbacks
+        // without awaiting, so a failed write must not reject
+        try {
+          job = (await this.update(job.id, { progress, message: message ?? job.message })) || job;
+        } catch (error) {
+          console.error(`Failed to record progress for job ${job.id}:`, error);
+        }
+      },
+    };
+
+    try {
+      // Model and transcription usage is billed to the job's session or upload
+      const result = await usageMeter.run(
+        { sessionId: job.sessionId, uploadId: job.uploadId },
+        () => handler(job, context),
+      );
+      await this.update(job.id, {
+        status: "completed",
+        progress: 100,
+        message: "Done",
+        result: result ?? null,
+        error: null,
+        completedAt: new Date(),
+      });
+      console.log(`Completed ${job.type} job ${job.id}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`${job.type} job ${job.id} failed:`, error);
+
+      if (job.attempts < job.maxAttempts) {
+        // Exponential backoff: 5s, 10s, 20s, ...
+        const delay = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+        await this.update(job.id, {
+          status: "queued",
+          error: message,
+          message: `Retrying in ${Math.round(delay / 1000)}s`,
+          runAfter: new Date(Date.now() + delay),
+        });
+      } else {
+        await this.update(job.id, {
+          status: "failed",
+          error: message,
+          message: "Failed",
+          completedAt: new Date(),
+        });
+      }
+    }
+  }
+
+  private async update(id: string, changes: Partial<Job>): Promise<Job | undefined> {
+    const job = await storage.updateJob(id, changes);
+    if (job) this.emit(job);
+    return job;
+  }
+}
+
+export const jobQueue = new JobQueue();
+
+export function isJobFinished(job: Job): boolean {
+  return job.status === "completed" || job.status === "failed";
+}
@@ -0,0 +1,152 @@
+import { createHash } from "crypto";
+import { llm, type LLMTask } from "./llm";
+import { storage } from "./storage";
+
+// Content-addressed cache for generated posts, clips and transcript digests.
+// The key covers everything that shapes the output: the transcript, the
+// prompt template version, the brand voice, the model and any per-call
+// variant (content type, clip duration, ...). Asking for the same thing again
+// returns the stored result; "regenerate" skips the lookup and replaces it.
+
+export type CachedTask = Extract<LLMTask, "all-content" | "content" | "clips" | "digest">;
+
+// Bump a task's version whenever its prompt template changes (anthropic.ts,
+// or transcript-digest.ts for digests) so older results stop being served
+export const PROMPT_VERSIONS: Record<CachedTask, number> = {
+  "all-content": 1,
+  content: 1,
+  clips: 1,
+  digest: 1,
+};
+
+// LLM_CACHE=off turns the cache off entirely
+const CACHE_ENABLED = (process.env.LLM_CACHE || "on").toLowerCase() !== "off";
+
+// Who a generation is for, and whether to bypass the cache
+export interface CacheScope {
+  sessionId?: string;
+  uploadId?: string;
+  regenerate?: boolean;
+}
+
+export interface CacheKeyParts {
+  task: CachedTask;
+  transcript: string;
+  brand?: string; // the brand voice instructions, so profile edits miss
+  variant?: unknown; // anything else in the prompt that varies per call
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  bypassed: number;
+  byTask: Record<string, { hits: number; misses: number; bypassed: number }>;
+}
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+export class LLMCache {
+  // Return the cached result for these parts, or generate and store it.
+  // cached is true when nothing was generated.
+  async getOrGenerate<T>(
+    parts: CacheKeyParts,
+    scope: CacheScope,
+    generate: () => Promise<T>,
+  ): Promise<{ value: T; cached: boolean }> {
+    if (!CACHE_ENABLED) {
+      return { value: await generate(), cached: false };
+    }
+
+    const model = `${llm.name}/${llm.model}`;
+    const promptVersion = PROMPT_VERSIONS[parts.task];
+    const transcriptHash = sha256(parts.transcript);
+    const brandHash = parts.brand ? sha256(parts.brand) : null;
+    const key = sha256(
+      JSON.stringify([
+        parts.task,
+        promptVersion,
+        model,
+        transcriptHash,
+        brandHash,
+        parts.variant ?? null,
+      ]),
+    );
+
+    if (!scope.regenerate) {
+      const entry = await this.safely("read", () => storage.getLLMCacheEntry(key));
+      if (entry) {
+        console.log(`LLM cache hit for ${parts.task} (${key.slice(0, 12)})`);
+        await this.safely("record hit", () => storage.recordLLMCacheHit(key));
+        await this.record(key, parts.task, "hit", scope);
+        return { value: entry.output as T, cached: true };
+      }
+    }
+
+    const value = await generate();
+    await this.safely("write", () =>
+      storage.saveLLMCacheEntry({
+        key,
+        task: parts.task,
+        model,
+        promptVersion,
+        transcriptHash,
+        brandHash,
+        output: value,
+      }),
+    );
+    await this.record(key, parts.task, scope.regenerate ? "bypass" : "miss", scope);
+    return { value, cached: false };
+  }
+
+  async stats(filter: { sessionId?: string; uploadId?: string }): Promise<CacheStats> {
+    const lookups = await storage.getLLMCacheLookups(filter);
+    const stats: CacheStats = { hits: 0, misses: 0, bypassed: 0, byTask: {} };
+
+    for (const lookup of lookups) {
+      const task = (stats.byTask[lookup.task] ??= { hits: 0, misses: 0, bypassed: 0 });
+      if (lookup.outcome === "hit") {
+        stats.hits++;
+        task.hits++;
+      } else if (lookup.outcome === "bypass") {
+        stats.bypassed++;
+        task.bypassed++;
+      } else {
+        stats.misses++;
+        task.misses++;
+      }
+    }
+    return stats;
+  }
+
+  private async record(
+    key: string,
+    task: CachedTask,
+    outcome: "hit" | "miss" | "bypass",
+    scope: CacheScope,
+  ) {
+    if (!scope.sessionId && !scope.uploadId) return;
+    await this.safely("record lookup", () =>
+      storage.createLLMCacheLookup({
+        key,
+        task,
+        outcome,
+        sessionId: scope.sessionId ?? null,
+        uploadId: scope.uploadId ?? null,
+      }),
+    );
+  }
+
+  // The cache is an optimisation; a database problem shouldn't fail generation
+  private async safely<T>(action: string, run: () => Promise<T>): Promise<T | undefined> {
+    try {
+      return await run();
+    } catch (error) {
+      console.warn(`LLM cache ${action} failed:`, error);
+      return undefined;
+    }
+  }
+}
+
+export const llmCache = new LLMCache();
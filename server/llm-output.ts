@@ -0,0 +1,405 @@
+import { z } from "zod";
+import { llm, type LLMCompletionRequest } from "./llm";
+
+// Schemas for the JSON the model is asked to return. Every structured
+// completion is validated against one of these; a response that doesn't
+// match is sent back to the model with the problems listed and a request to
+// fix it, and after the last attempt an LLMOutputError is thrown.
+
+const score = (min: number, max: number) =>
+  z.coerce.number().transform((value) => Math.max(min, Math.min(max, value)));
+
+const tags = z.array(z.string()).default([]);
+
+export const aiFeedbackSchema = z.object({
+  feedbacks: z
+    .array(
+      z.object({
+        type: z.enum(["positive", "warning", "info"]),
+        message: z.string().min(1),
+      }),
+    )
+    .min(1),
+  needsCorrection: z.boolean(),
+  correctionMessage: z
+    .string()
+    .nullish()
+    .transform((value) => value || undefined),
+  suggestion: z
+    .string()
+    .nullish()
+    .transform((value) => value || undefined),
+  responseQuality: score(1, 10),
+});
+
+export const clipSuggestionSchema = z
+  .object({
+    title: z.string().min(1),
+    description: z.string().default(""),
+    detailed_caption: z.string().optional(),
+    key_moments: z.array(z.string()).optional(),
+    startTime: z.coerce.number().min(0),
+    endTime: z.coerce.number().min(0),
+    socialScore: score(0, 100).default(0),
+    tags: tags.optional(),
+  })
+  .refine((clip) => clip.endTime > clip.startTime, {
+    message: "endTime must be after startTime",
+    path: ["endTime"],
+  });
+
+// Clips must also fall inside the source, when its length is known
+export function clipSuggestionsSchema(duration?: number) {
+  return z.object({
+    clips: z.array(
+      clipSuggestionSchema.refine(
+        (clip) => !duration || clip.endTime <= duration + 1,
+        { message: `endTime must be within the ${duration}s source`, path: ["endTime"] },
+      ),
+    ),
+  });
+}
+
+export const carouselSlideSchema = z
+  .object({
+    title: z.string().min(1),
+    content: z.string().min(1),
+    icon: z.string().optional(),
+    visual_direction: z.string().optional(),
+  })
+  .passthrough();
+
+export const carouselPostSchema = z
+  .object({
+    title: z.string().min(1),
+    detailed_caption: z.string().min(1),
+    creative_direction: z.string().optional(),
+    slides: z.array(carouselSlideSchema).min(1),
+    tags,
+  })
+  .passthrough();
+
+export const imagePostSchema = z
+  .object({
+    title: z.string().min(1),
+    detailed_caption: z.string().min(1),
+    illustration_direction: z.string().optional(),
+    quote_overlay: z.string().optional(),
+    visual_elements: z.array(z.string()).optional(),
+    color_scheme: z.string().optional(),
+    tags,
+  })
+  .passthrough();
+
+export const textPostSchema = z
+  .object({
+    title: z.string().min(1),
+    detailed_content: z.string().min(1),
+    key_quotes: z.array(z.string()).optional(),
+    engagement_hooks: z.array(z.string()).optional(),
+    tags,
+  })
+  .passthrough();
+
+export const postSchemas = {
+  carousel: carouselPostSchema,
+  image: imagePostSchema,
+  text: textPostSchema,
+};
+
+// Notes on one part of a long transcript, combined into a digest that posts
+// and clips are generated from
+export const segmentDigestSchema = z.object({
+  summary: z.string().min(1),
+  insights: z.array(z.string()).default([]),
+  quotes: z
+    .array(
+      z.object({
+        text: z.string().min(1),
+        time: z.coerce.number().nullish().transform((value) => value ?? undefined),
+      }),
+    )
+    .default([]),
+  moments: z
+    .array(
+      z
+        .object({
+          title: z.string().min(1),
+          startTime: z.coerce.number().min(0),
+          endTime: z.coerce.number().min(0),
+          why: z.string().default(""),
+          score: score(0, 100).default(0),
+        })
+        .refine((moment) => moment.endTime > moment.startTime, {
+          message: "endTime must be after startTime",
+          path: ["endTime"],
+        }),
+    )
+    .default([]),
+});
+
+export const allContentSchema = z
+  .object({
+    carousel_posts: z.array(carouselPostSchema).default([]),
+    image_posts: z.array(imagePostSchema).default([]),
+    text_posts: z.array(textPostSchema).default([]),
+    video_clips: z.array(z.record(z.unknown())).optional(),
+  })
+  .refine(
+    (content) =>
+      content.carousel_posts.length + content.image_posts.length + content.text_posts.length > 0,
+    { message: "At least one post is required" },
+  );
+
+export type ClipSuggestion = z.infer<typeof clipSuggestionSchema>;
+export type CarouselPost = z.infer<typeof carouselPostSchema>;
+export type ImagePost = z.infer<typeof imagePostSchema>;
+export type TextPost = z.infer<typeof textPostSchema>;
+export type SegmentDigest = z.infer<typeof segmentDigestSchema>;
+
+export class LLMOutputError extends Error {
+  constructor(
+    public task: string,
+    public issues: string[],
+    public attempts: number,
+  ) {
+    super(
+      `Model output for ${task} was invalid after ${attempts} attempt${attempts === 1 ? "" : "s"}: ${issues.slice(0, 3).join("; ")}`,
+    );
+  }
+
+  // Body for API error responses
+  toJSON() {
+    return { task: this.task, issues: this.issues, attempts: this.attempts };
+  }
+}
+
+// Repair prompts after the first attempt
+const REPAIR_ATTEMPTS = parseInt(process.env.LLM_REPAIR_ATTEMPTS || "2", 10);
+
+// Longest previous response quoted back in a repair prompt
+const MAX_QUOTED_RESPONSE = 30000;
+
+// Models often wrap JSON in a code fence or add a sentence around it
+export function extractJSON(text: string): unknown {
+  const candidates = [text.trim()];
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/);
+  if (fenced) candidates.push(fenced[1]);
+  const first = text.indexOf("{");
+  const last = text.lastIndexOf("}");
+  if (first !== -1 && last > first) candidates.push(text.slice(first, last + 1));
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // try the next candidate
+    }
+  }
+  throw new SyntaxError("Response is not valid JSON");
+}
+
+export function describeIssues(error: z.ZodError): string[] {
+  return error.errors.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message,
+  );
+}
+
+function checkOutput<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  text: string,
+): { data: T } | { issues: string[] } {
+  let json: unknown;
+  try {
+    json = extractJSON(text);
+  } catch (error) {
+    return { issues: [(error as Error).message] };
+  }
+
+  const result = schema.safeParse(json);
+  return result.success ? { data: result.data } : { issues: describeIssues(result.error) };
+}
+
+function repairPrompt(originalPrompt: string, previous: string, issues: string[]): string {
+  const quoted =
+    previous.length > MAX_QUOTED_RESPONSE
+      ? `${previous.slice(0, MAX_QUOTED_RESPONSE)}\n... [truncated]`
+      : previous;
+
+  return `Your previous response could not be used because it did not match the required JSON format.
+
+PROBLEMS:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+ORIGINAL INSTRUCTIONS:
+${originalPrompt}
+
+YOUR PREVIOUS RESPONSE:
+${quoted}
+
+Return the corrected response as a single JSON object only, with no commentary or markdown. Keep everything that was already correct.`;
+}
+
+// Validate a response, asking the model to repair it until it passes or the
+// repair attempts run out
+async function validateOrRepair<T>(
+  request: LLMCompletionRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  text: string,
+): Promise<{ data: T; repaired: boolean }> {
+  const attempts = 1 + Math.max(0, REPAIR_ATTEMPTS);
+
+  for (let attempt = 1; ; attempt++) {
+    const checked = checkOutput(schema, text);
+    if ("data" in checked) {
+      if (attempt > 1) {
+        console.log(`Repaired ${request.task} output on attempt ${attempt}`);
+      }
+      return { data: checked.data, repaired: attempt > 1 };
+    }
+
+    console.warn(`Invalid ${request.task} output (attempt ${attempt}/${attempts}):`, checked.issues);
+    if (attempt >= attempts) {
+      throw new LLMOutputError(request.task, checked.issues, attempts);
+    }
+
+    const repaired = await llm.complete({
+      ...request,
+      prompt: repairPrompt(request.prompt, text, checked.issues),
+    });
+    text = repaired.text;
+  }
+}
+
+// Complete a prompt and return its validated JSON, repairing invalid output
+export async function completeJSON<T>(
+  request: LLMCompletionRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+): Promise<T> {
+  const response = await llm.complete(request);
+  return (await validateOrRepair(request, schema, response.text)).data;
+}
+
+export interface ScannedItem {
+  key: string; // top-level property holding the array
+  index: number; // position in that array
+  value: unknown;
+}
+
+// Incremental scanner over streamed JSON. Reports each object element of a
+// top-level array property (every post in "carousel_posts", say) as soon as
+// its closing brace arrives, so it can be used before the response ends.
+export class JSONItemScanner {
+  private text = "";
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private lastString = "";
+  private arrayKey: string | null = null;
+  private arrayIndex = 0;
+  private itemStart = -1;
+
+  push(delta: string): ScannedItem[] {
+    const items: ScannedItem[] = [];
+    const from = this.text.length;
+    this.text += delta;
+
+    for (let i = from; i < this.text.length; i++) {
+      const char = this.text[i];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === "\\") {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          this.lastString = this.text.slice(this.stringStart + 1, i);
+        }
+        continue;
+      }
+
+      // Ignore any prose or code fence before the JSON starts
+      if (this.depth === 0 && char !== "{") continue;
+
+      if (char === '"') {
+        this.inString = true;
+        this.stringStart = i;
+      } else if (char === "{" || char === "[") {
+        this.depth++;
+        if (this.depth === 2 && char === "[") {
+          this.arrayKey = this.lastString;
+          this.arrayIndex = 0;
+        } else if (this.depth === 3 && char === "{" && this.arrayKey) {
+          this.itemStart = i;
+        }
+      } else if (char === "}" || char === "]") {
+        if (this.depth === 3 && char === "}" && this.itemStart !== -1) {
+          const raw = this.text.slice(this.itemStart, i + 1);
+          try {
+            items.push({ key: this.arrayKey!, index: this.arrayIndex, value: JSON.parse(raw) });
+          } catch {
+            // Malformed element; the final validation reports it
+          }
+          this.arrayIndex++;
+          this.itemStart = -1;
+        }
+        if (this.depth === 2 && char === "]") {
+          this.arrayKey = null;
+        }
+        this.depth--;
+      }
+    }
+
+    return items;
+  }
+}
+
+// Stream a completion, passing each valid element of the named top-level
+// arrays to onItem as soon as it is complete. The full response is then
+// validated (and repaired if needed) like completeJSON; elements that were
+// invalid or missed while streaming are passed on from the final result.
+// A repair is a new response, so its elements can't be matched to the
+// streamed ones: onReset drops everything passed on so far and every element
+// of the repaired result follows.
+export async function streamJSON<T extends Record<string, unknown>>(
+  request: LLMCompletionRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  itemSchemas: Record<string, z.ZodTypeAny>,
+  onItem: (key: string, item: unknown) => void,
+  onReset: () => void,
+): Promise<T> {
+  const scanner = new JSONItemScanner();
+  const sent = new Set<string>();
+
+  const response = await llm.stream(request, (delta) => {
+    for (const { key, index, value } of scanner.push(delta)) {
+      const itemSchema = itemSchemas[key];
+      if (!itemSchema) continue;
+
+      const result = itemSchema.safeParse(value);
+      if (result.success) {
+        sent.add(`${key}:${index}`);
+        onItem(key, result.data);
+      } else {
+        console.warn(`Skipping invalid ${key}[${index}] while streaming:`, describeIssues(result.error));
+      }
+    }
+  });
+
+  const { data, repaired } = await validateOrRepair(request, schema, response.text);
+  if (repaired && sent.size > 0) {
+    console.warn(`Replacing ${sent.size} streamed ${request.task} items with the repaired output`);
+    sent.clear();
+    onReset();
+  }
+  for (const key of Object.keys(itemSchemas)) {
+    const items = data[key];
+    if (!Array.isArray(items)) continue;
+    items.forEach((item, index) => {
+      if (!sent.has(`${key}:${index}`)) onItem(key, item);
+    });
+  }
+  return data;
+}
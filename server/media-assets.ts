@@ -0,0 +1,168 @@
+import path from "path";
+import type { Readable } from "stream";
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import { blobStorage, contentTypeForKey, normalizeKey } from "./blob-storage";
+
+export interface MediaAsset {
+  key: string; // blob storage key
+  contentType: string;
+  fileName: string; // suggested download name
+}
+
+async function toAsset(key: string, title?: string): Promise<MediaAsset | undefined> {
+  if (!key) return undefined;
+  const normalized = normalizeKey(key);
+  if (!(await blobStorage.exists(normalized))) return undefined;
+
+  const extension = path.extname(normalized).toLowerCase();
+  return {
+    key: normalized,
+    contentType: contentTypeForKey(normalized),
+    fileName: title
+      ? `${title.replace(/[^a-z0-9]/gi, "_").toLowerCase()}${extension}`
+      : path.basename(normalized),
+  };
+}
+
+// Resolves media IDs to stored blobs through the keys recorded when they
+// were rendered: clips.videoPath for session clips, the videoClips JSON on
+// the upload for upload clips, clip_renditions.videoPath for renditions and
+// sessions.jumpCut for a session's jump-cut edit.
+export class MediaAssetRegistry {
+  async resolveClip(clipId: string, uploadId?: string): Promise<MediaAsset | undefined> {
+    const clip = await storage.getClip(clipId);
+    if (clip) {
+      return clip.videoPath ? toAsset(clip.videoPath, clip.title) : undefined;
+    }
+
+    // Upload clips only exist inside their upload's videoClips
+    const uploads = uploadId
+      ? [await storage.getUpload(uploadId)]
+      : await storage.getUploads();
+
+    for (const upload of uploads) {
+      const uploadClips = (upload?.videoClips as any[] | null) || [];
+      const uploadClip = uploadClips.find((c) => c.id === clipId);
+      if (uploadClip) {
+        return uploadClip.videoPath
+          ? toAsset(uploadClip.videoPath, uploadClip.title)
+          : undefined;
+      }
+    }
+
+    return undefined;
+  }
+
+  async resolveRendition(renditionId: string): Promise<MediaAsset | undefined> {
+    const rendition = await storage.getClipRendition(renditionId);
+    if (!rendition) return undefined;
+
+    const clip = await storage.getClip(rendition.clipId);
+    return toAsset(
+      rendition.videoPath,
+      clip ? `${clip.title}_${rendition.profile}` : undefined,
+    );
+  }
+
+  async resolveJumpCut(sessionId: string): Promise<MediaAsset | undefined> {
+    const session = await storage.getSession(sessionId);
+    if (!session?.jumpCut) return undefined;
+    return toAsset(session.jumpCut.videoPath, `${session.title}_jump_cut`);
+  }
+}
+
+export const mediaAssets = new MediaAssetRegistry();
+
+// Parse a single "bytes=" range. Returns null for a missing or multi-range
+// header (served as the full file) and "unsatisfiable" when it lies outside.
+export function parseRange(
+  header: string | undefined,
+  size: number,
+): { start: number; end: number } | "unsatisfiable" | null {
+  if (!header) return null;
+
+  const match = header.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === "" && match[2] === "")) return null;
+
+  let start: number;
+  let end: number;
+  if (match[1] === "") {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(match[2], 10);
+    if (suffix === 0) return "unsatisfiable";
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] === "" ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  }
+
+  if (start >= size || start > end) return "unsatisfiable";
+  return { start, end };
+}
+
+function sendReadError(res: Response, asset: MediaAsset, error: unknown) {
+  const missing = (error as NodeJS.ErrnoException).code === "ENOENT";
+  if (!missing) console.error(`Media read failed for ${asset.key}:`, error);
+  for (const header of ["Content-Type", "Content-Range", "Content-Length", "Content-Disposition"]) {
+    res.removeHeader(header);
+  }
+  res
+    .status(missing ? 404 : 500)
+    .json({ error: missing ? "Media not found" : "Failed to read media" });
+}
+
+// Send a media file, honouring Range requests so browsers can seek
+export async function sendMediaAsset(
+  req: Request,
+  res: Response,
+  asset: MediaAsset,
+  options: { download?: boolean } = {},
+) {
+  const size = await blobStorage.size(asset.key);
+  if (size === undefined) {
+    return res.status(404).json({ error: "Media not found" });
+  }
+  const range = parseRange(req.headers.range, size);
+
+  res.setHeader("Content-Type", asset.contentType);
+  res.setHeader("Accept-Ranges", "bytes");
+  if (options.download) {
+    res.setHeader("Content-Disposition", `attachment; filename="${asset.fileName}"`);
+  }
+
+  if (range === "unsatisfiable") {
+    res.setHeader("Content-Range", `bytes */${size}`);
+    return res.status(416).end();
+  }
+
+  if (range) {
+    res.status(206);
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+    res.setHeader("Content-Length", range.end - range.start + 1);
+  } else {
+    res.setHeader("Content-Length", size);
+  }
+
+  let stream: Readable;
+  try {
+    stream = await blobStorage.createReadStream(asset.key, range ?? undefined);
+  } catch (error) {
+    return sendReadError(res, asset, error);
+  }
+
+  // A read error before anything was sent can still become a 404 or 500;
+  // after that the response can only be cut off. Browsers abort ranged
+  // requests on every seek, so the blob stream is closed with the response.
+  stream.on("error", (error) => {
+    if (res.headersSent) {
+      console.error(`Media stream failed for ${asset.key}:`, error);
+      res.destroy();
+    } else {
+      sendReadError(res, asset, error);
+    }
+  });
+  res.on("close", () => stream.destroy());
+  stream.pipe(res);
+}
@@ -1,4 +1,6 @@
 import OpenAI from "openai";
+import { extractAudioChunk, getAudioDuration } from "./audio";
+import type { ITranscriptionProvider, TranscribeOptions, TranscriptionResult } from "./transcription";
 
 /*
 Follow these instructions when using this blueprint:
@@ -8,48 +10,52 @@ Follow these instructions when using this blueprint:
 */
 
 // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+let openai: OpenAI | null = null;
+
+// Created on first use so the server can start without OPENAI_API_KEY when
+// another transcription provider is configured
+function getClient(): OpenAI {
+  if (!openai) {
+    openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return openai;
+}
 
 // Audio transcription using Whisper with chunking for large files
-export async function transcribeAudioBuffer(
-  audioBuffer: Buffer,
-  filename: string,
-): Promise<{
-  text: string;
-  duration: number;
-  words?: Array<{ word: string; start: number; end: number }>;
-}> {
-  const fs = await import("fs");
-  const path = await import("path");
+export class OpenAIWhisperProvider implements ITranscriptionProvider {
+  readonly name = "openai";
+  readonly model = "whisper-1";
 
-  // Create a temporary file from the buffer
-  const tempFilePath = path.join("/tmp", `temp_${Date.now()}_${filename}`);
-  
-  try {
-    fs.writeFileSync(tempFilePath, audioBuffer);
+  async transcribe(
+    audioPath: string,
+    _filename: string,
+    options: TranscribeOptions = {},
+  ): Promise<TranscriptionResult> {
+    const fs = await import("fs");
 
     // Check file size and duration for chunking decision
-    const fileSizeMB = audioBuffer.length / (1024 * 1024);
-    const audioDuration = await getAudioDuration(tempFilePath);
-    
+    const fileSizeMB = fs.statSync(audioPath).size / (1024 * 1024);
+    const audioDuration = await getAudioDuration(audioPath);
+
     console.log(`Processing audio: ${fileSizeMB.toFixed(1)}MB, ${audioDuration.toFixed(1)}s`);
-    
+
     // OpenAI limits: 25MB file size, ~10 minutes recommended
     const MAX_FILE_SIZE_MB = 24;
     const MAX_CHUNK_DURATION = 600; // 10 minutes
-    
+
     if (fileSizeMB <= MAX_FILE_SIZE_MB && audioDuration <= MAX_CHUNK_DURATION) {
       // File is small enough, process directly
       console.log("Processing audio file directly...");
-      const audioReadStream = fs.createReadStream(tempFilePath);
+      const audioReadStream = fs.createReadStream(audioPath);
 
-      const transcription = await openai.audio.transcriptions.create({
+      const transcription = await getClient().audio.transcriptions.create({
         file: audioReadStream,
         model: "whisper-1",
         language: "en",
         response_format: "verbose_json",
         timestamp_granularities: ["word"],
         temperature: 0.0,
+        ...(options.prompt ? { prompt: options.prompt } : {}),
       });
 
       return {
@@ -64,20 +70,17 @@ export async function transcribeAudioBuffer(
     } else {
       // File is too large, use chunking
       console.log("Large audio file detected, processing in chunks...");
-      return await processAudioInChunks(tempFilePath, audioDuration);
-    }
-  } finally {
-    // Clean up temp file
-    if (fs.existsSync(tempFilePath)) {
-      fs.unlinkSync(tempFilePath);
+      return await processAudioInChunks(audioPath, audioDuration, options.prompt);
     }
   }
 }
 
+
 // Process large audio files in chunks with overlap to prevent infinite loops
 async function processAudioInChunks(
   audioPath: string,
-  totalDuration: number
+  totalDuration: number,
+  prompt?: string,
 ): Promise<{
   text: string;
   duration: number;
@@ -108,7 +111,8 @@ async function processAudioInChunks(
         audioPath,
         currentStart,
         chunkEnd,
-        chunkIndex
+        chunkIndex,
+        prompt,
       );
       
       chunks.push({
@@ -154,7 +158,8 @@ async function extractAndTranscribeChunk(
   audioPath: string,
   startTime: number,
   endTime: number,
-  chunkIndex: number
+  chunkIndex: number,
+  prompt?: string,
 ): Promise<{
   text: string;
   words?: Array<{ word: string; start: number; end: number }>;
@@ -168,13 +173,14 @@ async function extractAndTranscribeChunk(
     await extractAudioChunk(audioPath, chunkPath, startTime, endTime);
     
     const audioReadStream = fs.createReadStream(chunkPath);
-    const transcription = await openai.audio.transcriptions.create({
+    const transcription = await getClient().audio.transcriptions.create({
       file: audioReadStream,
       model: "whisper-1",
       language: "en",
       response_format: "verbose_json",
       timestamp_granularities: ["word"],
       temperature: 0.0,
+      ...(prompt ? { prompt } : {}),
     });
     
     return {
@@ -192,48 +198,6 @@ async function extractAndTranscribeChunk(
   }
 }
 
-// Extract audio chunk using FFmpeg
-async function extractAudioChunk(
-  sourcePath: string,
-  outputPath: string,
-  startTime: number,
-  endTime: number
-): Promise<void> {
-  const { spawn } = await import("child_process");
-  
-  return new Promise((resolve, reject) => {
-    const duration = endTime - startTime;
-    
-    const ffmpeg = spawn('ffmpeg', [
-      '-i', sourcePath,
-      '-ss', startTime.toString(),
-      '-t', duration.toString(),
-      '-acodec', 'mp3', // MP3 for compatibility
-      '-ar', '48000', // Preserve high sample rate
-      '-ac', '2', // Stereo
-      '-ab', '320k', // High quality bitrate
-      '-q:a', '0', // Highest quality VBR setting
-      '-y',
-      outputPath
-    ]);
-    
-    let errorOutput = '';
-    ffmpeg.stderr.on('data', (data) => {
-      errorOutput += data.toString();
-    });
-    
-    ffmpeg.on('close', (code) => {
-      if (code === 0) {
-        resolve();
-      } else {
-        reject(new Error(`Chunk extraction failed: ${errorOutput}`));
-      }
-    });
-    
-    ffmpeg.on('error', reject);
-  });
-}
-
 // Merge transcription chunks
 function mergeChunks(chunks: Array<{
   text: string;
@@ -266,138 +230,3 @@ function mergeChunks(chunks: Array<{
   };
 }
 
-// Direct file transcription method with automatic audio extraction and chunking
-export async function transcribeAudioFile(
-  filePath: string,
-): Promise<{ text: string; duration: number }> {
-  const fs = await import("fs");
-  const path = await import("path");
-  
-  // Create a temporary audio file path
-  const audioPath = path.join(path.dirname(filePath), `audio_${Date.now()}.mp3`);
-  
-  try {
-    // First, extract audio from video file and convert to MP3 (compatible format)
-    console.log("Extracting audio from video file...");
-    await extractAudioFromVideo(filePath, audioPath);
-    
-    // Get audio file size and duration
-    const audioStats = fs.statSync(audioPath);
-    const audioSizeMB = audioStats.size / (1024 * 1024);
-    const audioDuration = await getAudioDuration(audioPath);
-    
-    console.log(`Audio extracted: ${audioSizeMB.toFixed(1)}MB, ${audioDuration.toFixed(1)}s`);
-    
-    // OpenAI Whisper has a 25MB file size limit
-    const MAX_FILE_SIZE_MB = 24; // Keep under 25MB limit with buffer
-    const MAX_CHUNK_DURATION = 600; // 10 minutes max per chunk
-    
-    if (audioSizeMB > MAX_FILE_SIZE_MB || audioDuration > MAX_CHUNK_DURATION) {
-      console.log("Large audio file detected, using chunked transcription...");
-      return await transcribeAudioBuffer(fs.readFileSync(audioPath), path.basename(audioPath));
-    } else {
-      console.log("Audio file size acceptable, using direct transcription...");
-      const audioReadStream = fs.createReadStream(audioPath);
-
-      const transcription = await openai.audio.transcriptions.create({
-        file: audioReadStream,
-        model: "whisper-1",
-        language: "en", // Optimize for English language
-        response_format: "json", // Get structured response
-        temperature: 0.0, // More deterministic transcription
-      });
-
-      return {
-        text: transcription.text,
-        duration: audioDuration,
-      };
-    }
-  } catch (error) {
-    console.error("Transcription error:", error);
-    throw new Error(
-      `Failed to transcribe audio: ${error instanceof Error ? error.message : "Unknown error"}`,
-    );
-  } finally {
-    // Clean up temporary audio file
-    if (fs.existsSync(audioPath)) {
-      fs.unlinkSync(audioPath);
-    }
-  }
-}
-
-// Extract audio from video file using FFmpeg
-async function extractAudioFromVideo(
-  videoPath: string,
-  audioPath: string
-): Promise<void> {
-  const { spawn } = await import("child_process");
-  
-  return new Promise((resolve, reject) => {
-    console.log(`Extracting audio: ${videoPath} -> ${audioPath}`);
-    
-    const ffmpeg = spawn('ffmpeg', [
-      '-i', videoPath,
-      '-vn', // No video
-      '-acodec', 'mp3', // Convert to MP3 for OpenAI compatibility
-      '-ar', '48000', // High sample rate (48kHz)
-      '-ac', '2', // Stereo
-      '-ab', '320k', // High quality bitrate (320kbps)
-      '-q:a', '0', // Highest quality VBR setting
-      '-y', // Overwrite output file
-      audioPath
-    ]);
-
-    let errorOutput = '';
-    
-    ffmpeg.stderr.on('data', (data) => {
-      errorOutput += data.toString();
-    });
-
-    ffmpeg.on('close', (code) => {
-      if (code === 0) {
-        console.log('Audio extraction completed successfully');
-        resolve();
-      } else {
-        console.error('FFmpeg error output:', errorOutput);
-        reject(new Error(`Audio extraction failed with exit code: ${code}. Error: ${errorOutput}`));
-      }
-    });
-
-    ffmpeg.on('error', (error) => {
-      console.error('FFmpeg spawn error:', error);
-      reject(error);
-    });
-  });
-}
-
-// Get audio duration using FFmpeg
-async function getAudioDuration(audioPath: string): Promise<number> {
-  const { spawn } = await import("child_process");
-  
-  return new Promise((resolve, reject) => {
-    const ffprobe = spawn('ffprobe', [
-      '-i', audioPath,
-      '-show_entries', 'format=duration',
-      '-v', 'quiet',
-      '-of', 'csv=p=0'
-    ]);
-
-    let output = '';
-    ffprobe.stdout.on('data', (data) => {
-      output += data.toString();
-    });
-
-    ffprobe.on('close', (code) => {
-      if (code === 0) {
-        const duration = parseFloat(output.trim());
-        resolve(duration);
-      } else {
-        reject(new Error(`Failed to get audio duration, FFprobe exit code: ${code}`));
-      }
-    });
-
-    ffprobe.on('error', (error) => {
-      reject(error);
-    });
-  });
-}
\ No newline at end of file
@@ -0,0 +1,215 @@
+// Interviewer personas. sessions.aiPersonality holds a persona ID; each
+// persona contributes prompt fragments for questions, follow-ups and response
+// feedback, plus how hard it pushes for follow-ups.
+
+export interface InterviewPersona {
+  id: string;
+  label: string;
+  description: string;
+  voice: string; // who the interviewer is, prepended to every prompt
+  questionStyle: string[];
+  followUpStyle: string[];
+  followUpExamples: string[];
+  feedbackStyle: string;
+  maxFollowUps: number;
+  // Quality (1-10) below which an answer is worth probing further. Above it
+  // the persona only follows up when it has time to spare.
+  probeBelowQuality: number;
+}
+
+export const PERSONAS: Record<string, InterviewPersona> = {
+  friendly: {
+    id: "friendly",
+    label: "Friendly interviewer",
+    description: "Warm and encouraging; draws out stories at a relaxed pace",
+    voice:
+      "You are a warm, encouraging interviewer who makes guests feel at ease so they open up and tell their best stories.",
+    questionStyle: [
+      "Invites a personal story or memorable moment",
+      "Uses simple, conversational language",
+    ],
+    followUpStyle: [
+      "Shows genuine curiosity about what they just shared",
+      "Gently asks for the concrete example, outcome or lesson behind it",
+    ],
+    followUpExamples: [
+      "What specific outcome did that decision lead to?",
+      "How did that experience change your approach going forward?",
+    ],
+    feedbackStyle: "Be encouraging and supportive; frame improvements as invitations to share more.",
+    maxFollowUps: 2,
+    probeBelowQuality: 6,
+  },
+  journalist: {
+    id: "journalist",
+    label: "Challenging journalist",
+    description: "Skeptical and direct; presses on vague claims and asks for evidence",
+    voice:
+      "You are an experienced, skeptical business journalist. You are fair but you do not let vague claims, buzzwords or rehearsed answers slide.",
+    questionStyle: [
+      "Challenges a common assumption or the guest's own narrative",
+      "Asks for a position the guest has to defend",
+    ],
+    followUpStyle: [
+      "Presses on the weakest or vaguest part of the answer",
+      "Asks for numbers, evidence or a counterexample",
+      "Points out tension or contradiction when there is one",
+    ],
+    followUpExamples: [
+      "You said it worked. How do you actually know that?",
+      "What would your harshest critic say about that decision?",
+    ],
+    feedbackStyle: "Be direct and demanding; flag hand-waving and unsupported claims plainly.",
+    maxFollowUps: 3,
+    probeBelowQuality: 8,
+  },
+  "podcast-host": {
+    id: "podcast-host",
+    label: "Podcast host",
+    description: "Conversational and energetic; chases the most quotable moments",
+    voice:
+      "You are a popular podcast host with an energetic, conversational style. You chase the moments listeners will quote and share.",
+    questionStyle: [
+      "Sets up a story with stakes: a turning point, a failure, a bet",
+      "Sounds natural when spoken aloud",
+    ],
+    followUpStyle: [
+      "Riffs on the most surprising or emotional detail",
+      "Asks what was going through their head in the moment",
+    ],
+    followUpExamples: [
+      "Wait, take me back to that moment. What were you feeling?",
+      "What's the one thing you wish someone had told you then?",
+    ],
+    feedbackStyle: "Be upbeat; point out which moments would make great clips and where more energy would help.",
+    maxFollowUps: 2,
+    probeBelowQuality: 7,
+  },
+  technical: {
+    id: "technical",
+    label: "Technical deep-diver",
+    description: "Methodical; digs into how things actually work, trade-offs and details",
+    voice:
+      "You are a technically fluent interviewer who wants to understand exactly how things work: architecture, process, trade-offs and the details practitioners care about.",
+    questionStyle: [
+      "Focuses on how something was built, designed or operated",
+      "Invites discussion of trade-offs and alternatives considered",
+    ],
+    followUpStyle: [
+      "Asks for the specific mechanism, tool or step behind the answer",
+      "Probes trade-offs, failure modes and what they would change",
+    ],
+    followUpExamples: [
+      "What alternatives did you consider, and why did you rule them out?",
+      "Where did that approach break down as you scaled?",
+    ],
+    feedbackStyle: "Be precise; flag answers that stay high-level and ask for concrete technical detail.",
+    maxFollowUps: 3,
+    probeBelowQuality: 8,
+  },
+  executive: {
+    id: "executive",
+    label: "Executive briefing",
+    description: "Brisk and strategic; one follow-up at most, keeps moving",
+    voice:
+      "You are interviewing a busy leader. You are concise and strategic, and you respect their time.",
+    questionStyle: [
+      "Focuses on strategy, decisions and results",
+      "Is short and easy to answer on the spot",
+    ],
+    followUpStyle: [
+      "Asks for the business impact or the key decision behind the answer",
+    ],
+    followUpExamples: ["What was the business impact of that?"],
+    feedbackStyle: "Be brief and practical; focus on clarity and business relevance.",
+    maxFollowUps: 1,
+    probeBelowQuality: 5,
+  },
+};
+
+export const DEFAULT_PERSONA_ID = "friendly";
+
+// Unknown IDs (older sessions, hand-edited rows) fall back to the default
+export function personaFor(id: string | null | undefined): InterviewPersona {
+  return (id && PERSONAS[id]) || PERSONAS[DEFAULT_PERSONA_ID];
+}
+
+export function bulletList(items: string[]): string {
+  return items.map((item) => `- ${item}`).join("\n");
+}
+
+// "15-20 minutes", "30 minutes", "1 hour" -> seconds. Defaults to 15-20 minutes.
+export function parseTargetDuration(value: string | null | undefined): {
+  minSeconds: number;
+  maxSeconds: number;
+} {
+  const match = (value || "").match(/(\d+)(?:\s*-\s*(\d+))?\s*(h|hours?|m|min|minutes?)?/i);
+  if (!match) return { minSeconds: 15 * 60, maxSeconds: 20 * 60 };
+
+  const unit = match[3]?.toLowerCase().startsWith("h") ? 3600 : 60;
+  const min = parseInt(match[1], 10) * unit;
+  const max = match[2] ? parseInt(match[2], 10) * unit : min;
+  return { minSeconds: min, maxSeconds: Math.max(min, max) };
+}
+
+export type PacingAction = "follow-up" | "next-question" | "wrap-up";
+
+export interface PacingDecision {
+  action: PacingAction;
+  reason: string;
+  elapsedSeconds: number;
+  targetSeconds: number;
+}
+
+export interface PacingInput {
+  persona: InterviewPersona;
+  targetDuration: string | null | undefined;
+  elapsedSeconds: number;
+  followUpsAsked: number; // on the current primary question
+  answers: number; // responses given so far in the session
+  responseQuality?: number;
+}
+
+// Decide whether to dig into the current topic, move on, or close the
+// interview, keeping the session close to its target duration
+export function planNextStep(input: PacingInput): PacingDecision {
+  const { persona, elapsedSeconds, followUpsAsked, answers, responseQuality } = input;
+  const { minSeconds, maxSeconds } = parseTargetDuration(input.targetDuration);
+  const targetSeconds = (minSeconds + maxSeconds) / 2;
+  // Seconds one more exchange is likely to take, from this session so far
+  const perAnswer = answers > 0 ? Math.max(30, elapsedSeconds / answers) : 90;
+
+  const decide = (action: PacingAction, reason: string): PacingDecision => ({
+    action,
+    reason,
+    elapsedSeconds: Math.round(elapsedSeconds),
+    targetSeconds: Math.round(targetSeconds),
+  });
+
+  if (elapsedSeconds + perAnswer > maxSeconds) {
+    return decide("wrap-up", "The interview has reached its target length");
+  }
+  if (followUpsAsked >= persona.maxFollowUps) {
+    return decide("next-question", `${persona.label} asks at most ${persona.maxFollowUps} follow-ups`);
+  }
+
+  const remaining = targetSeconds - elapsedSeconds;
+  const weakAnswer = responseQuality !== undefined && responseQuality < persona.probeBelowQuality;
+
+  // Late in the session: only chase answers that need it, and only once
+  if (remaining < perAnswer * 2) {
+    return weakAnswer && followUpsAsked === 0
+      ? decide("follow-up", "Probing once before moving on; time is short")
+      : decide("next-question", "Moving on to cover more ground before time runs out");
+  }
+
+  // Ahead of schedule or the answer needs more: dig in
+  if (weakAnswer || elapsedSeconds < minSeconds / 2) {
+    return decide("follow-up", weakAnswer ? "The answer needs more depth" : "Plenty of time to go deeper");
+  }
+
+  // Past halfway with a strong answer: one follow-up is enough
+  return followUpsAsked === 0
+    ? decide("follow-up", "Strong answer; one follow-up to capture the story")
+    : decide("next-question", "Keeping pace with the target duration");
+}
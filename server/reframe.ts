@@ -0,0 +1,240 @@
+// Platform output profiles and the ffmpeg filters that reframe a landscape
+// recording into them
+
+export type AspectRatio = "9:16" | "1:1" | "4:5";
+
+// crop: fill the frame, cropping around the center of interest
+// blur: fit the whole frame, letterboxed over a blurred copy of itself
+export type FramingMode = "crop" | "blur";
+
+export interface RenditionProfile {
+  id: string;
+  label: string;
+  aspectRatio: AspectRatio;
+  width: number;
+  height: number;
+  maxDuration: number; // seconds
+}
+
+export const RENDITION_PROFILES: Record<string, RenditionProfile> = {
+  tiktok: {
+    id: "tiktok",
+    label: "TikTok",
+    aspectRatio: "9:16",
+    width: 1080,
+    height: 1920,
+    maxDuration: 600,
+  },
+  reels: {
+    id: "reels",
+    label: "Instagram Reels",
+    aspectRatio: "9:16",
+    width: 1080,
+    height: 1920,
+    maxDuration: 90,
+  },
+  shorts: {
+    id: "shorts",
+    label: "YouTube Shorts",
+    aspectRatio: "9:16",
+    width: 1080,
+    height: 1920,
+    maxDuration: 60,
+  },
+  square: {
+    id: "square",
+    label: "Square feed post",
+    aspectRatio: "1:1",
+    width: 1080,
+    height: 1080,
+    maxDuration: 60,
+  },
+  portrait: {
+    id: "portrait",
+    label: "Portrait feed post",
+    aspectRatio: "4:5",
+    width: 1080,
+    height: 1350,
+    maxDuration: 60,
+  },
+};
+
+// clips.platform values mapped to their default profile
+const PLATFORM_PROFILES: Record<string, string> = {
+  tiktok: "tiktok",
+  instagram: "reels",
+  youtube: "shorts",
+};
+
+export function profileForPlatform(platform: string): RenditionProfile | undefined {
+  const profileId = PLATFORM_PROFILES[platform.toLowerCase()];
+  return profileId ? RENDITION_PROFILES[profileId] : undefined;
+}
+
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Largest region of the source with the profile's aspect ratio, centred on
+// (centerX, centerY) given as fractions of the frame and clamped to its edges
+export function cropRegion(
+  source: { width: number; height: number },
+  profile: RenditionProfile,
+  centerX: number = 0.5,
+  centerY: number = 0.5,
+): CropRegion {
+  const targetAspect = profile.width / profile.height;
+  let width = source.width;
+  let height = Math.round(width / targetAspect);
+  if (height > source.height) {
+    height = source.height;
+    width = Math.round(height * targetAspect);
+  }
+  // libx264 needs even dimensions
+  width -= width % 2;
+  height -= height % 2;
+
+  const clamp = (value: number, max: number) => Math.max(0, Math.min(max, Math.round(value)));
+  return {
+    x: clamp(centerX * source.width - width / 2, source.width - width),
+    y: clamp(centerY * source.height - height / 2, source.height - height),
+    width,
+    height,
+  };
+}
+
+// -vf filter chain that turns the source frame into the profile's frame
+export function reframeFilter(
+  profile: RenditionProfile,
+  framing: FramingMode,
+  crop?: CropRegion,
+): string {
+  const { width, height } = profile;
+
+  if (framing === "crop") {
+    const cropFilter = crop ? `crop=${crop.width}:${crop.height}:${crop.x}:${crop.y},` : "";
+    return `${cropFilter}scale=${width}:${height},setsar=1`;
+  }
+
+  return [
+    "split[bg][fg]",
+    `[bg]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},boxblur=20:2[blurred]`,
+    `[fg]scale=${width}:${height}:force_original_aspect_ratio=decrease[fitted]`,
+    "[blurred][fitted]overlay=(W-w)/2:(H-h)/2,setsar=1",
+  ].join(";");
+}
+
+// Analysis frames are downscaled to this width before scoring
+const ANALYSIS_WIDTH = 96;
+
+// Find where the action is in a clip. Frames are sampled twice a second at low
+// resolution; each pixel scores by how much it changes between frames
+// (motion) plus a smaller weight for local contrast (faces, text, detail).
+// Returns the centre of the highest-scoring crop window as fractions of the
+// frame, falling back to the frame centre when nothing stands out.
+export async function findCenterOfInterest(
+  videoPath: string,
+  source: { width: number; height: number },
+  profile: RenditionProfile,
+  startTime: number,
+  duration: number,
+): Promise<{ x: number; y: number }> {
+  const { spawn } = await import("child_process");
+
+  const analysisWidth = ANALYSIS_WIDTH;
+  const analysisHeight =
+    Math.max(2, Math.round((analysisWidth * source.height) / source.width / 2) * 2);
+  const frameSize = analysisWidth * analysisHeight;
+
+  const frames = await new Promise<Buffer>((resolve, reject) => {
+    const ffmpeg = spawn("ffmpeg", [
+      "-ss", startTime.toString(),
+      "-t", duration.toString(),
+      "-i", videoPath,
+      "-vf", `fps=2,scale=${analysisWidth}:${analysisHeight},format=gray`,
+      "-f", "rawvideo",
+      "-",
+    ]);
+
+    const chunks: Buffer[] = [];
+    let errorOutput = "";
+    ffmpeg.stdout.on("data", (data: Buffer) => chunks.push(data));
+    ffmpeg.stderr.on("data", (data) => {
+      errorOutput += data.toString();
+    });
+
+    ffmpeg.on("close", (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(chunks));
+      } else {
+        reject(new Error(`Frame analysis failed: ${errorOutput}`));
+      }
+    });
+
+    ffmpeg.on("error", reject);
+  });
+
+  const frameCount = Math.floor(frames.length / frameSize);
+  if (frameCount === 0) {
+    return { x: 0.5, y: 0.5 };
+  }
+
+  const columnScores = new Float64Array(analysisWidth);
+  const rowScores = new Float64Array(analysisHeight);
+
+  for (let f = 0; f < frameCount; f++) {
+    const frame = frames.subarray(f * frameSize, (f + 1) * frameSize);
+    const previous = f > 0 ? frames.subarray((f - 1) * frameSize, f * frameSize) : null;
+
+    for (let y = 0; y < analysisHeight; y++) {
+      for (let x = 0; x < analysisWidth; x++) {
+        const i = y * analysisWidth + x;
+        const motion = previous ? Math.abs(frame[i] - previous[i]) : 0;
+        const contrast =
+          x + 1 < analysisWidth ? Math.abs(frame[i] - frame[i + 1]) : 0;
+        const score = motion + contrast * 0.25;
+        columnScores[x] += score;
+        rowScores[y] += score;
+      }
+    }
+  }
+
+  const crop = cropRegion(
+    { width: analysisWidth, height: analysisHeight },
+    profile,
+  );
+
+  return {
+    x: bestWindowCenter(columnScores, crop.width),
+    y: bestWindowCenter(rowScores, crop.height),
+  };
+}
+
+// Centre (as a fraction) of the window of `size` bins with the highest total
+function bestWindowCenter(scores: Float64Array, size: number): number {
+  if (size >= scores.length) return 0.5;
+
+  let windowSum = 0;
+  for (let i = 0; i < size; i++) windowSum += scores[i];
+
+  let bestSum = windowSum;
+  let bestStart = 0;
+  for (let start = 1; start + size <= scores.length; start++) {
+    windowSum += scores[start + size - 1] - scores[start - 1];
+    if (windowSum > bestSum) {
+      bestSum = windowSum;
+      bestStart = start;
+    }
+  }
+
+  // A flat score profile means no clear subject; keep the frame centred
+  const total = scores.reduce((sum, value) => sum + value, 0);
+  if (total === 0 || bestSum / total < (size / scores.length) * 1.05) {
+    return 0.5;
+  }
+
+  return (bestStart + size / 2) / scores.length;
+}
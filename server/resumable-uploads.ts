@@ -0,0 +1,161 @@
+import fs from "fs";
+import path from "path";
+import type { Readable } from "stream";
+import type { Upload } from "@shared/schema";
+import { storage } from "./storage";
+import { blobStorage } from "./blob-storage";
+
+// Server side of a tus 1.0 style resumable upload (core protocol plus the
+// creation and termination extensions). Bytes are appended to a staging file
+// until Upload-Length is reached, then moved into blob storage under the
+// upload's objectPath and the upload is marked "uploaded".
+
+export const TUS_VERSION = "1.0.0";
+export const TUS_EXTENSIONS = "creation,termination";
+
+export class ResumableUploadError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+// Upload-Metadata: comma separated "key base64value" pairs
+export function parseUploadMetadata(header: string | undefined): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  if (!header) return metadata;
+
+  for (const pair of header.split(",")) {
+    const [key, value] = pair.trim().split(" ");
+    if (!key) continue;
+    metadata[key] = value ? Buffer.from(value, "base64").toString("utf8") : "";
+  }
+  return metadata;
+}
+
+export class ResumableUploadStore {
+  // Uploads with a PATCH in flight; tus clients must not send two at once
+  private writing = new Set<string>();
+
+  constructor(
+    private stagingDir: string,
+    readonly maxSize: number,
+  ) {}
+
+  private stagingPath(uploadId: string): string {
+    return path.join(this.stagingDir, uploadId);
+  }
+
+  async create(length: number, metadata: Record<string, string>): Promise<Upload> {
+    if (!Number.isInteger(length) || length <= 0) {
+      throw new ResumableUploadError(400, "Upload-Length must be a positive integer");
+    }
+    if (length > this.maxSize) {
+      throw new ResumableUploadError(413, `Uploads are limited to ${this.maxSize} bytes`);
+    }
+
+    const filename = metadata.filename || "video.mp4";
+    const mimeType = metadata.filetype || "video/mp4";
+    if (!mimeType.startsWith("video/")) {
+      throw new ResumableUploadError(415, "Invalid file type. Please upload a video file.");
+    }
+
+    const upload = await storage.createUpload({
+      originalName: filename,
+      objectPath: `videos/${Date.now()}_${filename.replace(/[^a-z0-9._-]/gi, "_")}`,
+      fileSize: length,
+      mimeType,
+      status: "uploading",
+      transcript: null,
+      linkedinContentMarkdown: null,
+      contentItems: null,
+      videoClips: null,
+    });
+
+    fs.mkdirSync(this.stagingDir, { recursive: true });
+    fs.writeFileSync(this.stagingPath(upload.id), "");
+    console.log(`Resumable upload ${upload.id} created for ${filename} (${length} bytes)`);
+    return upload;
+  }
+
+  // Bytes received so far. Finished uploads report their full length.
+  offset(upload: Upload): number {
+    if (upload.status !== "uploading") return upload.fileSize;
+    const staged = this.stagingPath(upload.id);
+    return fs.existsSync(staged) ? fs.statSync(staged).size : 0;
+  }
+
+  async append(upload: Upload, offset: number, body: Readable): Promise<Upload> {
+    if (upload.status !== "uploading") {
+      throw new ResumableUploadError(409, "Upload is already complete");
+    }
+    if (this.writing.has(upload.id)) {
+      throw new ResumableUploadError(409, "Another request is writing to this upload");
+    }
+
+    const current = this.offset(upload);
+    if (offset !== current) {
+      throw new ResumableUploadError(409, `Upload-Offset ${offset} does not match ${current}`);
+    }
+
+    this.writing.add(upload.id);
+    try {
+      const staged = this.stagingPath(upload.id);
+      const remaining = upload.fileSize - current;
+      let received = 0;
+
+      await new Promise<void>((resolve, reject) => {
+        const out = fs.createWriteStream(staged, { flags: "a" });
+        body.on("data", (chunk: Buffer) => {
+          received += chunk.length;
+          if (received > remaining) {
+            body.unpipe(out);
+            out.destroy();
+            reject(new ResumableUploadError(413, "Chunk exceeds Upload-Length"));
+          }
+        });
+        // An aborted request keeps whatever was written; the client resumes
+        // from the offset HEAD reports
+        body.on("aborted", () => out.end());
+        body.on("error", reject);
+        out.on("error", reject);
+        out.on("close", resolve);
+        body.pipe(out);
+      });
+
+      if (this.offset(upload) < upload.fileSize) return upload;
+      return await this.complete(upload);
+    } catch (error) {
+      // Drop a chunk that overran the declared length
+      if (error instanceof ResumableUploadError && error.status === 413) {
+        fs.truncateSync(this.stagingPath(upload.id), current);
+      }
+      throw error;
+    } finally {
+      this.writing.delete(upload.id);
+    }
+  }
+
+  private async complete(upload: Upload): Promise<Upload> {
+    await blobStorage.putFile(upload.objectPath, this.stagingPath(upload.id), upload.mimeType);
+    console.log(`Resumable upload ${upload.id} complete: ${upload.objectPath}`);
+    return (await storage.updateUpload(upload.id, { status: "uploaded" }))!;
+  }
+
+  async terminate(upload: Upload): Promise<void> {
+    const staged = this.stagingPath(upload.id);
+    if (fs.existsSync(staged)) fs.unlinkSync(staged);
+    if (upload.status !== "uploading") {
+      await blobStorage.delete(upload.objectPath);
+    }
+    await storage.deleteUpload(upload.id);
+  }
+}
+
+// Staging needs local disk even when finished videos go to S3
+export const resumableUploads = new ResumableUploadStore(
+  process.env.UPLOAD_STAGING_DIR || "uploads/partial",
+  parseInt(process.env.UPLOAD_MAX_SIZE || String(5 * 1024 * 1024 * 1024), 10),
+);
@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import {
@@ -7,6 +7,14 @@ import {
   insertConversationSchema,
   insertClipSchema,
   insertContentPieceSchema,
+  insertCaptionPresetSchema,
+  insertBrandProfileSchema,
+  insertGlossaryTermSchema,
+  captionStyleSchema,
+  type CaptionStyle,
+  type ContentPiece,
+  type EditDecisionList,
+  type Job,
 } from "@shared/schema";
 import {
   generateAIQuestion,
@@ -14,13 +22,71 @@ import {
   generateLinkedInContent,
   generateAllLinkedInContent,
   generateVideoClips,
+  type PostType,
 } from "./anthropic";
-import { transcribeAudioBuffer } from "./openai";
+import { transcribeAudioBuffer, type WordTiming } from "./transcription";
+import { jobQueue, isJobFinished } from "./jobs";
+import { mediaAssets, sendMediaAsset } from "./media-assets";
+import {
+  resumableUploads,
+  parseUploadMetadata,
+  ResumableUploadError,
+  TUS_VERSION,
+  TUS_EXTENSIONS,
+} from "./resumable-uploads";
+import { sessionRecordings, RecordingIngestError } from "./session-recordings";
+import { PERSONAS } from "./personas";
+import { resolveBrandVoice } from "./brand-voice";
+import { LLMOutputError } from "./llm-output";
+import {
+  blobStorage,
+  normalizeKey,
+  sessionVideoKey,
+  contentTypeForKey,
+  LocalBlobStorage,
+} from "./blob-storage";
+import type {
+  GenerateUploadClipsPayload,
+  CreateSessionClipsPayload,
+  RenderClipPayload,
+  AnalyzeSessionSilencePayload,
+  RenderJumpCutPayload,
+} from "./job-handlers";
+import {
+  toWordTimings,
+  wordsDuration,
+  searchTranscript,
+} from "./transcript-words";
 import { z } from "zod";
 import multer from "multer";
 import busboy from "busboy";
-import { createWriteStream } from "fs";
+import { createWriteStream, existsSync, unlinkSync } from "fs";
+import path from "path";
 import { pipeline } from "stream/promises";
+import type { Archiver } from "archiver";
+import {
+  renderSubtitles,
+  SUBTITLE_CONTENT_TYPES,
+  type SubtitleFormat,
+} from "./subtitles";
+import { llmCache } from "./llm-cache";
+import { usageMeter } from "./usage";
+import { loadSpeakerTarget, swapSpeakers } from "./diarization";
+import {
+  applyTranscriptEdits,
+  transcriptEditsSchema,
+  transcriptText,
+  TranscriptEditError,
+} from "./transcript-edits";
+import { applyGlossary, correctText, glossaryPrompt } from "./glossary";
+import { buildEditDecisionList, type TightenOptions } from "./clip-tightening";
+import { buildJumpCut } from "./silence-map";
+import { planClipEdits } from "./video-clipper";
+import {
+  RENDITION_PROFILES,
+  profileForPlatform,
+  type FramingMode,
+} from "./reframe";
 
 // Configure multer for file uploads with larger limits for video files
 const upload = multer({
@@ -32,6 +98,10 @@ const upload = multer({
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Each API request gets its own usage scope, which handlers attribute to a
+  // session or upload with usageMeter.attribute
+  app.use("/api", (req, res, next) => usageMeter.run({}, next));
+
   // Sessions
   app.get("/api/sessions", async (req, res) => {
     try {
@@ -139,6 +209,253 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Caption presets
+  app.get("/api/caption-presets", async (req, res) => {
+    try {
+      const presets = await storage.getCaptionPresets();
+      res.json(presets);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch caption presets" });
+    }
+  });
+
+  app.post("/api/caption-presets", async (req, res) => {
+    try {
+      const validatedData = insertCaptionPresetSchema.parse(req.body);
+      const preset = await storage.createCaptionPreset(validatedData);
+      res.status(201).json(preset);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid caption preset data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create caption preset" });
+    }
+  });
+
+  app.patch("/api/caption-presets/:id", async (req, res) => {
+    try {
+      const validatedData = insertCaptionPresetSchema.partial().parse(req.body);
+      const preset = await storage.updateCaptionPreset(
+        req.params.id,
+        validatedData,
+      );
+      if (!preset) {
+        return res.status(404).json({ message: "Caption preset not found" });
+      }
+      res.json(preset);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid caption preset data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update caption preset" });
+    }
+  });
+
+  app.delete("/api/caption-presets/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteCaptionPreset(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Caption preset not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete caption preset" });
+    }
+  });
+
+  // Brand profiles
+  app.get("/api/brand-profiles", async (req, res) => {
+    try {
+      const profiles = await storage.getBrandProfiles();
+      res.json(profiles);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch brand profiles" });
+    }
+  });
+
+  app.get("/api/brand-profiles/:id", async (req, res) => {
+    try {
+      const profile = await storage.getBrandProfile(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ message: "Brand profile not found" });
+      }
+      res.json(profile);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch brand profile" });
+    }
+  });
+
+  app.post("/api/brand-profiles", async (req, res) => {
+    try {
+      const validatedData = insertBrandProfileSchema.parse(req.body);
+      const profile = await storage.createBrandProfile(validatedData);
+      res.status(201).json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid brand profile data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create brand profile" });
+    }
+  });
+
+  app.patch("/api/brand-profiles/:id", async (req, res) => {
+    try {
+      const validatedData = insertBrandProfileSchema.partial().parse(req.body);
+      const profile = await storage.updateBrandProfile(
+        req.params.id,
+        validatedData,
+      );
+      if (!profile) {
+        return res.status(404).json({ message: "Brand profile not found" });
+      }
+      res.json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid brand profile data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update brand profile" });
+    }
+  });
+
+  app.delete("/api/brand-profiles/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteBrandProfile(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Brand profile not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete brand profile" });
+    }
+  });
+
+  // Glossary: the workspace terms, plus a session's own terms when sessionId
+  // is given
+  app.get("/api/glossary", async (req, res) => {
+    try {
+      const sessionId = req.query.sessionId as string | undefined;
+      res.json(await storage.getGlossaryTerms(sessionId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch glossary" });
+    }
+  });
+
+  app.post("/api/glossary", async (req, res) => {
+    try {
+      const validatedData = insertGlossaryTermSchema.parse(req.body);
+      const term = await storage.createGlossaryTerm(validatedData);
+      res.status(201).json(term);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid glossary term", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create glossary term" });
+    }
+  });
+
+  app.patch("/api/glossary/:id", async (req, res) => {
+    try {
+      const validatedData = insertGlossaryTermSchema.partial().parse(req.body);
+      const term = await storage.updateGlossaryTerm(req.params.id, validatedData);
+      if (!term) {
+        return res.status(404).json({ message: "Glossary term not found" });
+      }
+      res.json(term);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid glossary term", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update glossary term" });
+    }
+  });
+
+  app.delete("/api/glossary/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteGlossaryTerm(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Glossary term not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete glossary term" });
+    }
+  });
+
+  // Background jobs
+  app.get("/api/jobs", async (req, res) => {
+    try {
+      const { sessionId, uploadId, active } = req.query;
+      const jobs = await storage.getJobs({
+        sessionId: sessionId as string | undefined,
+        uploadId: uploadId as string | undefined,
+        active: active === "true",
+      });
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch jobs" });
+    }
+  });
+
+  app.get("/api/jobs/:id", async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch job" });
+    }
+  });
+
+  // Server-sent events: the current job state, then every update until the
+  // job completes or fails
+  app.get("/api/jobs/:id/events", async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+
+      const send = (update: Job) => {
+        res.write(`data: ${JSON.stringify(update)}\n\n`);
+        if (isJobFinished(update)) {
+          unsubscribe();
+          res.end();
+        }
+      };
+
+      const unsubscribe = jobQueue.subscribe(job.id, send);
+      req.on("close", unsubscribe);
+      send(job);
+    } catch (error) {
+      console.error("Job events error:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to stream job events" });
+      } else {
+        res.end();
+      }
+    }
+  });
+
   // Conversations
   app.get("/api/sessions/:sessionId/conversations", async (req, res) => {
     try {
@@ -166,6 +483,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Interviewer personas for sessions.aiPersonality
+  app.get("/api/personas", (req, res) => {
+    res.json(
+      Object.values(PERSONAS).map(({ id, label, description, maxFollowUps }) => ({
+        id,
+        label,
+        description,
+        maxFollowUps,
+      })),
+    );
+  });
+
   // Enhanced AI Question System with Contextual Follow-ups
   app.post("/api/ai/question", async (req, res) => {
     try {
@@ -175,17 +504,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         followUpIndex,
         baseQuestion,
         userResponse,
+        closing,
       } = req.body;
+      await usageMeter.attribute({ sessionId });
+
+      if (closing) {
+        // Pacing decided the interview has run its course
+        const aiQuestion = await generateAIQuestion(sessionId, { closing: true });
+        return res.json({
+          question: aiQuestion.question,
+          questionId: aiQuestion.questionId,
+          followUps: [],
+          isFollowUp: false,
+          isClosing: true,
+        });
+      }
 
       if (followUpIndex !== undefined && baseQuestion && userResponse) {
         // Generate contextual AI follow-up based on user's response
-        const aiQuestion = await generateAIQuestion(
-          sessionId,
+        const aiQuestion = await generateAIQuestion(sessionId, {
           questionId,
           followUpIndex,
           baseQuestion,
           userResponse,
-        );
+        });
         res.json({
           question: aiQuestion.question,
           questionId: aiQuestion.questionId,
@@ -276,14 +618,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // AI Response Analysis with Claude
   app.post("/api/ai/feedback", async (req, res) => {
     try {
-      const { response, sessionId, questionId } = req.body;
+      const { response, sessionId, questionId, followUpsAsked } = req.body;
+      await usageMeter.attribute({ sessionId });
 
-      const feedback = await analyzeResponse(response, sessionId, questionId);
+      const feedback = await analyzeResponse(
+        response,
+        sessionId,
+        questionId,
+        Number(followUpsAsked) || 0,
+      );
 
       res.json(feedback);
     } catch (error) {
       console.error("AI feedback error:", error);
-      res.status(500).json({ message: "Failed to analyze response" });
+      sendGenerationError(res, error, "Failed to analyze response");
     }
   });
 
@@ -293,21 +641,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!req.file) {
         return res.status(400).json({ message: "No audio file provided" });
       }
+      await usageMeter.attribute({ sessionId: req.body.sessionId || null });
 
       const fs = await import("fs");
+      const glossary = await storage.getGlossaryTerms(req.body.sessionId || undefined);
       const audioBuffer = fs.readFileSync(req.file.path);
       const transcription = await transcribeAudioBuffer(
         audioBuffer,
         req.file.originalname || "audio.wav",
+        { prompt: glossaryPrompt(glossary) },
       );
 
       // Clean up temp file
       fs.unlinkSync(req.file.path);
 
+      const corrected = applyGlossary(transcription.words || [], glossary);
       res.json({
-        text: transcription.text,
+        text: correctText(transcription.text, glossary),
         duration: transcription.duration,
-        words: transcription.words || [],
+        words: corrected.words,
+        glossary: corrected.report,
       });
     } catch (error) {
       console.error("Transcription error:", error);
@@ -342,20 +695,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
           );
 
           // Transcribe the extracted audio
+          const glossary = await storage.getGlossaryTerms();
           const audioBuffer = fs.readFileSync(audioPath);
           const transcription = await transcribeAudioBuffer(
             audioBuffer,
             "extracted_audio.wav",
+            { prompt: glossaryPrompt(glossary) },
           );
 
           // Clean up temp files
           fs.unlinkSync(req.file.path);
           fs.unlinkSync(audioPath);
 
+          const corrected = applyGlossary(transcription.words || [], glossary);
           res.json({
-            text: transcription.text,
+            text: correctText(transcription.text, glossary),
             duration: transcription.duration,
-            words: transcription.words || [],
+            words: corrected.words,
+            glossary: corrected.report,
           });
         } catch (ffmpegError) {
           console.error("FFmpeg error:", ffmpegError);
@@ -374,22 +731,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
-  // Extract transcript from video only (no content generation)
+  // Store an uploaded video and queue its transcription. Responds straight
+  // away with the upload and job IDs; follow progress on /api/jobs/:id/events.
   app.post("/api/upload-video-transcribe", async (req, res) => {
-    // Set longer timeout for large video processing
-    req.setTimeout(15 * 60 * 1000); // 15 minutes
-    res.setTimeout(15 * 60 * 1000); // 15 minutes
-
     try {
-      const fs = await import("fs");
-      const path = await import("path");
-      const { spawn } = await import("child_process");
-
-      // Debug headers and content type
-      console.log("Request headers:", req.headers);
-      console.log("Content-Type:", req.headers["content-type"]);
-
-      // Use busboy for streaming multipart uploads
       const bb = busboy({
         headers: req.headers,
         limits: {
@@ -398,216 +743,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         },
       });
 
-      let videoPath: string | null = null;
-      let originalName: string | null = null;
-      let fileSize = 0;
-      let uploadError: Error | null = null;
-
-      bb.on("file", (name, file, info) => {
-        const { filename, mimeType } = info;
-
-        if (!filename || !mimeType.startsWith("video/")) {
-          uploadError = new Error(
-            "Invalid file type. Please upload a video file.",
-          );
-          file.resume(); // Drain the file stream
-          return;
-        }
-
-        originalName = filename;
-        videoPath = path.join("/tmp", `video_${Date.now()}_${filename}`);
-
-        console.log(`Streaming upload started: ${filename} (${mimeType})`);
-
-        const writeStream = createWriteStream(videoPath);
-
-        file.on("data", (data) => {
-          fileSize += data.length;
-          // Log progress every 10MB
-          if (fileSize % (10 * 1024 * 1024) < data.length) {
-            console.log(
-              `Upload progress: ${Math.round(fileSize / 1024 / 1024)}MB`,
-            );
-          }
-        });
-
-        file.on("limit", () => {
-          uploadError = new Error("File too large. Maximum size is 500MB.");
-        });
-
-        file.on("error", (err) => {
-          uploadError = err;
+      const received = await receiveVideoUpload(req, bb);
+      if ("error" in received) {
+        return res.status(400).json({
+          message: received.error,
+          suggestion: received.error.includes("size")
+            ? "Try compressing your video or use the transcript-only option"
+            : "Please try uploading a valid video file",
         });
+      }
 
-        file.pipe(writeStream);
-
-        writeStream.on("error", (err) => {
-          uploadError = err;
-        });
+      const uploadRecord = await storage.createUpload({
+        originalName: received.originalName,
+        objectPath: received.videoKey,
+        fileSize: received.fileSize,
+        mimeType: received.mimeType,
+        status: "uploaded",
+        transcript: null,
+        linkedinContentMarkdown: null, // Generated later when content is created
+        contentItems: null,
+        videoClips: null,
       });
 
-      bb.on("finish", async () => {
-        if (uploadError) {
-          console.error("Upload error:", uploadError);
-          return res.status(400).json({
-            message: uploadError.message,
-            suggestion: uploadError.message.includes("size")
-              ? "Try compressing your video or use the transcript-only option"
-              : "Please try uploading a valid video file",
-          });
-        }
-
-        if (!videoPath || !originalName) {
-          return res.status(400).json({ message: "No video file provided" });
-        }
-
-        console.log(
-          `Streaming upload completed: ${originalName} (${Math.round(fileSize / 1024 / 1024)}MB)`,
-        );
-
-        // Extract audio from video using ffmpeg with optimized settings for large files
-        const audioPath = path.join("/tmp", `audio_${Date.now()}.wav`);
-
-        try {
-          console.log("Extracting audio from streamed video file...");
-
-          // Use spawn for better memory handling and progress tracking
-          await new Promise((resolve, reject) => {
-            const ffmpeg = spawn("ffmpeg", [
-              "-i",
-              videoPath!,
-              "-vn", // No video
-              "-acodec",
-              "pcm_s16le",
-              "-ar",
-              "16000", // Lower sample rate for transcription efficiency
-              "-ac",
-              "1", // Mono audio for transcription
-              "-y", // Overwrite output
-              audioPath,
-            ]);
-
-            let errorOutput = "";
-
-            ffmpeg.stderr.on("data", (data) => {
-              errorOutput += data.toString();
-              // Log progress for large files
-              if (data.toString().includes("time=")) {
-                const timeMatch = data
-                  .toString()
-                  .match(/time=(\d{2}:\d{2}:\d{2})/);
-                if (timeMatch) {
-                  console.log(`Audio extraction progress: ${timeMatch[1]}`);
-                }
-              }
-            });
-
-            ffmpeg.on("close", (code) => {
-              if (code === 0) {
-                console.log("Audio extraction completed successfully");
-                resolve(void 0);
-              } else {
-                console.error("FFmpeg error output:", errorOutput);
-                reject(
-                  new Error(`FFmpeg failed with code ${code}: ${errorOutput}`),
-                );
-              }
-            });
-
-            ffmpeg.on("error", (err) => {
-              console.error("FFmpeg spawn error:", err);
-              reject(err);
-            });
-          });
-
-          // Check if audio file was created successfully
-          if (!fs.existsSync(audioPath)) {
-            throw new Error("Audio extraction failed - no output file created");
-          }
-
-          const audioBuffer = fs.readFileSync(audioPath);
-          const audioSizeMB = Math.round(audioBuffer.length / 1024 / 1024);
-          console.log(
-            `Transcribing extracted audio (${audioSizeMB}MB) with word-level timing...`,
-          );
-
-          // Transcribe the extracted audio with word-level timing
-          const transcription = await transcribeAudioBuffer(
-            audioBuffer,
-            originalName,
-          );
-
-          console.log(
-            `Transcription completed (${transcription.text.length} chars).`,
-          );
-
-          // Clean up temp files
-          try {
-            fs.unlinkSync(videoPath!);
-            fs.unlinkSync(audioPath);
-          } catch (cleanupError) {
-            console.warn("File cleanup warning:", cleanupError);
-          }
-
-          console.log(
-            `Successfully transcribed ${originalName}: ${transcription.text.length} characters`,
-          );
-
-          // Create upload record for this transcription
-          const uploadRecord = await storage.createUpload({
-            originalName: originalName,
-            objectPath: videoPath || "video-upload", // Path to the uploaded video
-            fileSize: fileSize,
-            mimeType: "video/mp4", // Default video MIME type
-            status: "transcribed",
-            transcript: transcription.text,
-            linkedinContentMarkdown: null, // Generated later when content is created
-            contentItems: null,
-            videoClips: null,
-          });
-
-          console.log(`Created upload record with ID: ${uploadRecord.id}`);
-
-          res.json({
-            uploadId: uploadRecord.id, // Return unique upload ID
-            transcript: {
-              text: transcription.text,
-              duration: transcription.duration,
-              words: transcription.words || [],
-            },
-          });
-        } catch (ffmpegError) {
-          console.error("Video processing error:", ffmpegError);
-
-          // Clean up files on error
-          try {
-            if (videoPath && fs.existsSync(videoPath)) fs.unlinkSync(videoPath);
-            if (fs.existsSync(audioPath)) fs.unlinkSync(audioPath);
-          } catch (cleanupError) {
-            console.warn("Error during cleanup:", cleanupError);
-          }
+      console.log(`Created upload record with ID: ${uploadRecord.id}`);
 
-          res.status(500).json({
-            message: "Failed to transcribe video file",
-            error:
-              ffmpegError instanceof Error
-                ? ffmpegError.message
-                : String(ffmpegError),
-            suggestion:
-              "Try uploading a smaller video file or paste transcript text instead",
-          });
-        }
-      });
-
-      bb.on("error", (err: any) => {
-        console.error("Busboy error:", err);
-        res.status(400).json({
-          message: "Upload processing error",
-          error: err instanceof Error ? err.message : String(err),
-        });
-      });
+      const job = await jobQueue.enqueue(
+        "transcribe-upload",
+        { uploadId: uploadRecord.id, videoKey: received.videoKey },
+        { uploadId: uploadRecord.id },
+      );
 
-      req.pipe(bb);
+      res.status(202).json({ uploadId: uploadRecord.id, jobId: job.id });
     } catch (error) {
       console.error("Video upload transcription error:", error);
       res.status(500).json({
@@ -619,18 +785,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Generate video clips from uploaded video + transcript
+  // Queue clip generation for an uploaded video. The video can be sent again,
+  // or left out when uploadId refers to an upload whose video is still stored.
   app.post("/api/upload-video-generate-clips", async (req, res) => {
-    // Set longer timeout for large video processing
-    req.setTimeout(15 * 60 * 1000); // 15 minutes
-    res.setTimeout(15 * 60 * 1000); // 15 minutes
+    // A video received with this request is removed if it isn't queued
+    let receivedKey: string | null = null;
 
     try {
-      const fs = await import("fs");
-      const path = await import("path");
-      const { spawn } = await import("child_process");
-
-      // Use busboy for streaming multipart uploads
       const bb = busboy({
         headers: req.headers,
         limits: {
@@ -639,226 +800,283 @@ export async function registerRoutes(app: Express): Promise<Server> {
         },
       });
 
-      let videoPath: string | null = null;
-      let originalName: string | null = null;
-      let fileSize = 0;
-      let uploadError: Error | null = null;
-      let transcript: string = "";
-
-      bb.on("field", (name, val) => {
-        if (name === "transcript") {
-          transcript = val;
-        }
-      });
-
-      bb.on("file", (name, file, info) => {
-        const { filename, mimeType } = info;
+      const received = await receiveVideoUpload(req, bb);
+      const fields = received.fields;
+      const uploadId = fields.uploadId || null;
+      const transcript = fields.transcript || "";
 
-        if (!filename || !mimeType.startsWith("video/")) {
-          uploadError = new Error(
-            "Invalid file type. Please upload a video file.",
-          );
-          file.resume(); // Drain the file stream
-          return;
-        }
-
-        originalName = filename;
-        videoPath = path.join("/tmp", `video_${Date.now()}_${filename}`);
+      if ("error" in received && received.error !== NO_VIDEO_PROVIDED) {
+        return res.status(400).json({
+          message: received.error,
+          suggestion: received.error.includes("size")
+            ? "Try compressing your video"
+            : "Please try uploading a valid video file",
+        });
+      }
 
-        console.log(`Streaming video upload for clipping: ${filename}`);
+      const uploadRecord = uploadId ? await storage.getUpload(uploadId) : undefined;
+      let videoKey: string | null = null;
+      let originalName = uploadRecord?.originalName || "video";
+      let deleteVideo = false;
 
-        const writeStream = createWriteStream(videoPath);
+      if (!("error" in received)) {
+        videoKey = receivedKey = received.videoKey;
+        originalName = received.originalName;
+        // A fresh copy of an upload we already store isn't needed afterwards
+        deleteVideo = true;
+      } else if (uploadRecord && (await uploadVideoExists(uploadRecord.objectPath))) {
+        videoKey = normalizeKey(uploadRecord.objectPath);
+      }
 
-        file.on("data", (data) => {
-          fileSize += data.length;
-          if (fileSize % (10 * 1024 * 1024) < data.length) {
-            console.log(
-              `Upload progress: ${Math.round(fileSize / 1024 / 1024)}MB`,
-            );
-          }
+      if (!videoKey || !transcript.trim()) {
+        if (videoKey && deleteVideo) await blobStorage.delete(videoKey);
+        return res.status(400).json({
+          message:
+            "Video file and transcript are both required for video clipping",
         });
+      }
 
-        file.on("limit", () => {
-          uploadError = new Error("File too large. Maximum size is 500MB.");
-        });
+      const captionStyle = fields.captions
+        ? await resolveCaptionStyle(JSON.parse(fields.captions))
+        : null;
+      const profiles = fields.profiles
+        ? (renditionRequestSchema.shape.profiles.parse(
+            JSON.parse(fields.profiles),
+          ) ?? [])
+        : [];
+      const framing: FramingMode = fields.framing === "blur" ? "blur" : "crop";
+      const tighten = fields.tighten
+        ? resolveTightenOptions(JSON.parse(fields.tighten))
+        : null;
+
+      const payload: GenerateUploadClipsPayload = {
+        uploadId: uploadRecord?.id ?? null,
+        videoKey,
+        originalName,
+        transcript,
+        captionStyle,
+        profiles,
+        framing,
+        deleteVideo,
+        brandProfileId: fields.brandProfileId || uploadRecord?.brandProfileId || null,
+        regenerate: fields.regenerate === "true",
+        speaker: fields.speaker === "guest" ? "guest" : "all",
+        tighten,
+      };
+      const job = await jobQueue.enqueue("generate-upload-clips", { ...payload }, {
+        uploadId: uploadRecord?.id,
+      });
+      // The job deletes it once it is done
+      receivedKey = null;
 
-        file.on("error", (err) => {
-          uploadError = err;
-        });
-
-        file.pipe(writeStream);
-
-        writeStream.on("error", (err) => {
-          uploadError = err;
+      res.status(202).json({ uploadId: uploadRecord?.id ?? null, jobId: job.id });
+    } catch (error) {
+      if (receivedKey) {
+        await blobStorage.delete(receivedKey).catch((deleteError) =>
+          console.error(`Failed to delete unqueued video ${receivedKey}:`, deleteError),
+        );
+      }
+      if (error instanceof z.ZodError || error instanceof SyntaxError) {
+        return res.status(400).json({
+          message: "Invalid clip options",
+          error: error.message,
         });
+      }
+      console.error("Video clipping error:", error);
+      res.status(500).json({
+        message: "Failed to generate video clips",
+        error: error instanceof Error ? error.message : String(error),
+        suggestion: "Try uploading a smaller video file",
       });
+    }
+  });
 
-      bb.on("finish", async () => {
-        if (uploadError) {
-          console.error("Upload error:", uploadError);
-          return res.status(400).json({
-            message: uploadError.message,
-            suggestion: uploadError.message.includes("size")
-              ? "Try compressing your video"
-              : "Please try uploading a valid video file",
-          });
-        }
+  // Resumable uploads (tus 1.0 protocol). POST creates the uploads row and
+  // returns its URL in Location; the client then PATCHes bytes from the offset
+  // HEAD reports until the upload is complete, surviving dropped connections.
+  const setTusHeaders = (res: Response) => {
+    res.setHeader("Tus-Resumable", TUS_VERSION);
+    res.setHeader("Cache-Control", "no-store");
+  };
 
-        if (!videoPath || !originalName || !transcript.trim()) {
-          return res.status(400).json({
-            message:
-              "Video file and transcript are both required for video clipping",
-          });
-        }
+  const sendTusError = (res: Response, error: unknown, fallback: string) => {
+    if (error instanceof ResumableUploadError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ message: fallback });
+  };
 
-        console.log(
-          `Processing video clips for: ${originalName} (${Math.round(fileSize / 1024 / 1024)}MB)`,
-        );
+  app.options("/api/uploads/resumable", (req, res) => {
+    setTusHeaders(res);
+    res.setHeader("Tus-Version", TUS_VERSION);
+    res.setHeader("Tus-Extension", TUS_EXTENSIONS);
+    res.setHeader("Tus-Max-Size", String(resumableUploads.maxSize));
+    res.status(204).end();
+  });
 
-        try {
-          // Extract audio from video for word-level timing
-          const audioPath = videoPath.replace(/\.[^/.]+$/, "") + "_audio.wav";
-
-          console.log("Extracting audio for word-level timing...");
-          await new Promise<void>((resolve, reject) => {
-            const ffmpeg = spawn("ffmpeg", [
-              "-i",
-              videoPath!,
-              "-ac",
-              "1", // Convert to mono
-              "-ar",
-              "16000", // 16kHz sample rate for Whisper
-              "-acodec",
-              "pcm_s16le", // PCM format
-              "-y", // Overwrite output file
-              audioPath,
-            ]);
-
-            let errorOutput = "";
-            ffmpeg.stderr.on("data", (data) => {
-              errorOutput += data.toString();
-            });
+  app.post("/api/uploads/resumable", async (req, res) => {
+    setTusHeaders(res);
+    try {
+      const upload = await resumableUploads.create(
+        Number(req.headers["upload-length"]),
+        parseUploadMetadata(req.headers["upload-metadata"] as string | undefined),
+      );
 
-            ffmpeg.on("close", (code) => {
-              if (code === 0) {
-                resolve();
-              } else {
-                reject(
-                  new Error(`FFmpeg failed with code ${code}: ${errorOutput}`),
-                );
-              }
-            });
+      res.setHeader("Location", `/api/uploads/resumable/${upload.id}`);
+      res.setHeader("Upload-Offset", "0");
+      res.status(201).json({ uploadId: upload.id });
+    } catch (error) {
+      sendTusError(res, error, "Failed to create upload");
+    }
+  });
 
-            ffmpeg.on("error", (err) => {
-              reject(err);
-            });
-          });
+  app.head("/api/uploads/resumable/:uploadId", async (req, res) => {
+    setTusHeaders(res);
+    try {
+      const upload = await storage.getUpload(req.params.uploadId);
+      if (!upload) {
+        return res.status(404).end();
+      }
 
-          // Get word-level timing from audio
-          const audioBuffer = fs.readFileSync(audioPath);
-          console.log("Transcribing for word-level timing...");
-          const transcription = await transcribeAudioBuffer(
-            audioBuffer,
-            originalName,
-          );
+      res.setHeader("Upload-Offset", String(resumableUploads.offset(upload)));
+      res.setHeader("Upload-Length", String(upload.fileSize));
+      res.status(200).end();
+    } catch (error) {
+      console.error("Upload offset error:", error);
+      res.status(500).end();
+    }
+  });
 
-          // Clean up audio file
-          fs.unlinkSync(audioPath);
+  app.patch("/api/uploads/resumable/:uploadId", async (req, res) => {
+    setTusHeaders(res);
+    try {
+      if (req.headers["content-type"] !== "application/offset+octet-stream") {
+        return res
+          .status(415)
+          .json({ message: "Content-Type must be application/offset+octet-stream" });
+      }
 
-          console.log(
-            `Got ${transcription.words?.length || 0} word-level timestamps`,
-          );
+      const upload = await storage.getUpload(req.params.uploadId);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
 
-          // Generate video clips using word-level timing data
-          const videoClips = await generateVideoClips(
-            transcript,
-            transcription.duration || 120,
-            transcription.words || [],
-          );
+      const updated = await resumableUploads.append(
+        upload,
+        Number(req.headers["upload-offset"]),
+        req,
+      );
 
-          console.log(
-            `Successfully generated ${videoClips.length} clips for ${originalName}`,
-          );
+      res.setHeader("Upload-Offset", String(resumableUploads.offset(updated)));
+      res.status(204).end();
+    } catch (error) {
+      sendTusError(res, error, "Failed to store upload chunk");
+    }
+  });
 
-          // Create actual video clip files using FFmpeg
-          console.log("Creating actual video clip files...");
-          const { createVideoClips } = await import("./video-clipper");
-
-          const clipRequests = videoClips.map((clip: any) => ({
-            title: clip.title,
-            description: clip.description,
-            startTime: clip.startTime,
-            endTime: clip.endTime,
-            socialScore: clip.socialScore || 0,
-          }));
-
-          // Create video clips from the original video file
-          const videoClipResults = await createVideoClips(
-            videoPath,
-            clipRequests,
-          );
+  app.delete("/api/uploads/resumable/:uploadId", async (req, res) => {
+    setTusHeaders(res);
+    try {
+      const upload = await storage.getUpload(req.params.uploadId);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
 
-          // Now clean up the original video file
-          try {
-            fs.unlinkSync(videoPath!);
-          } catch (cleanupError) {
-            console.warn("File cleanup warning:", cleanupError);
-          }
+      await resumableUploads.terminate(upload);
+      res.status(204).end();
+    } catch (error) {
+      sendTusError(res, error, "Failed to delete upload");
+    }
+  });
 
-          console.log(
-            `Successfully created ${videoClipResults.length} video clip files for ${originalName}`,
-          );
+  // Queue transcription of a stored upload
+  app.post("/api/uploads/:uploadId/transcribe", async (req, res) => {
+    try {
+      const upload = await storage.getUpload(req.params.uploadId);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      if (upload.status === "uploading") {
+        return res.status(409).json({ message: "Upload is not complete yet" });
+      }
+      if (!(await uploadVideoExists(upload.objectPath))) {
+        return res.status(400).json({ message: "This upload has no stored video" });
+      }
 
-          res.json({
-            clips: videoClipResults.map((clipResult: any, index: number) => ({
-              id: `video-clip-${Date.now()}-${index}`,
-              title: clipResult.title,
-              description: clipResult.description,
-              startTime: clipResult.startTime,
-              endTime: clipResult.endTime,
-              socialScore: clipResult.socialScore,
-              duration: clipResult.endTime - clipResult.startTime,
-              videoPath: clipResult.videoPath,
-              createdAt: new Date().toISOString(),
-            })),
-          });
-        } catch (processingError) {
-          console.error("Video clipping error:", processingError);
+      const job = await jobQueue.enqueue(
+        "transcribe-upload",
+        { uploadId: upload.id, videoKey: normalizeKey(upload.objectPath) },
+        { uploadId: upload.id },
+      );
 
-          // Clean up files on error
-          try {
-            if (videoPath && fs.existsSync(videoPath)) fs.unlinkSync(videoPath);
-          } catch (cleanupError) {
-            console.warn("Error during cleanup:", cleanupError);
-          }
+      res.status(202).json({ uploadId: upload.id, jobId: job.id });
+    } catch (error) {
+      console.error("Upload transcription error:", error);
+      res.status(500).json({ message: "Failed to queue transcription" });
+    }
+  });
 
-          res.status(500).json({
-            message: "Failed to generate video clips",
-            error:
-              processingError instanceof Error
-                ? processingError.message
-                : String(processingError),
-            suggestion: "Check that transcript matches the video content",
-          });
-        }
-      });
+  // Queue clip generation for a stored upload. The transcript defaults to
+  // the one saved when the upload was transcribed.
+  app.post("/api/uploads/:uploadId/generate-clips", async (req, res) => {
+    try {
+      const { transcript, profiles, framing, captions, tighten, brandProfileId, regenerate, speaker } =
+        uploadClipsRequestSchema.parse(req.body ?? {});
 
-      bb.on("error", (err: any) => {
-        console.error("Busboy error:", err);
-        res.status(400).json({
-          message: "Upload processing error",
-          error: err instanceof Error ? err.message : String(err),
+      const upload = await storage.getUpload(req.params.uploadId);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      if (upload.status === "uploading") {
+        return res.status(409).json({ message: "Upload is not complete yet" });
+      }
+      if (!(await uploadVideoExists(upload.objectPath))) {
+        return res.status(400).json({ message: "This upload has no stored video" });
+      }
+
+      const clipTranscript = transcript || upload.transcript || "";
+      if (!clipTranscript.trim()) {
+        return res.status(400).json({
+          message: "Transcribe the upload or send a transcript before generating clips",
+        });
+      }
+      if (
+        speaker === "guest" &&
+        (await storage.getSpeakerSegmentsByUpload(upload.id)).length === 0
+      ) {
+        return res.status(400).json({
+          message: "Guest-only clips need a transcribed upload with identified speakers",
         });
+      }
+
+      const payload: GenerateUploadClipsPayload = {
+        uploadId: upload.id,
+        videoKey: normalizeKey(upload.objectPath),
+        originalName: upload.originalName,
+        transcript: clipTranscript,
+        captionStyle: await resolveCaptionStyle(captions),
+        profiles: profiles ?? [],
+        framing,
+        deleteVideo: false,
+        brandProfileId: brandProfileId || upload.brandProfileId,
+        regenerate,
+        speaker,
+        tighten: resolveTightenOptions(tighten),
+      };
+      const job = await jobQueue.enqueue("generate-upload-clips", { ...payload }, {
+        uploadId: upload.id,
       });
 
-      req.pipe(bb);
+      res.status(202).json({ uploadId: upload.id, jobId: job.id });
     } catch (error) {
-      console.error("Video clipping error:", error);
-      res.status(500).json({
-        message: "Failed to generate video clips",
-        error: error instanceof Error ? error.message : String(error),
-        suggestion: "Try uploading a smaller video file",
-      });
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid clip options", errors: error.errors });
+      }
+      console.error("Upload clip generation error:", error);
+      res.status(500).json({ message: "Failed to queue clip generation" });
     }
   });
 
@@ -867,15 +1085,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Set longer timeout for comprehensive content generation
     req.setTimeout(10 * 60 * 1000); // 10 minutes
     res.setTimeout(10 * 60 * 1000); // 10 minutes
+    let stream: EventStream | null = null;
 
     try {
       const {
-        transcript,
         uploadId, // Optional: if provided, update existing upload record
         generateComprehensive = true,
         contentType = "text",
         generateAll = false,
+        brandProfileId, // Optional: overrides the upload's brand profile
+        regenerate = false, // Optional: skip the LLM cache and generate afresh
+        speaker = "all", // Optional: "guest" to write from the guest's answers only
       } = req.body;
+      let transcript: string = req.body.transcript;
 
       if (!transcript || transcript.trim().length === 0) {
         return res.status(400).json({
@@ -883,6 +1105,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      const existingUpload = uploadId ? await storage.getUpload(uploadId) : undefined;
+      if (speaker === "guest") {
+        const guest = existingUpload
+          ? await loadSpeakerTarget({ uploadId: existingUpload.id }, "guest")
+          : null;
+        if (!guest) {
+          return res.status(400).json({
+            message: "Guest-only content needs a transcribed upload with identified speakers",
+          });
+        }
+        transcript = guest.text;
+      }
+      const voice = await resolveBrandVoice(
+        brandProfileId,
+        existingUpload?.brandProfileId,
+      );
+      const cache = { uploadId: existingUpload?.id, regenerate: regenerate === true };
+      await usageMeter.attribute({ uploadId: existingUpload?.id });
+
       console.log("Generating content from upload");
       console.log("Generate comprehensive:", generateComprehensive);
       console.log("Transcript length:", transcript.length);
@@ -905,54 +1146,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (generateComprehensive) {
         // Use new comprehensive content generation (7-8 posts across all types)
         console.log("Starting comprehensive content generation...");
-        const allContent =
-          await generateAllLinkedInContent(processedTranscript);
-        console.log("Comprehensive content generation completed successfully");
 
         // Transform the comprehensive response into individual posts
         const allPosts: any[] = [];
         const timestamp = Date.now();
-
-        // Add carousel posts
-        if (allContent.carousel_posts) {
-          allContent.carousel_posts.forEach((post: any, index: number) => {
-            allPosts.push({
-              id: `upload-carousel-${timestamp}-${index}`,
-              title: post.title,
-              content: post,
-              type: "carousel",
-              platform: "linkedin",
-              createdAt: new Date().toISOString(),
-            });
-          });
-        }
-
-        // Add image posts
-        if (allContent.image_posts) {
-          allContent.image_posts.forEach((post: any, index: number) => {
-            allPosts.push({
-              id: `upload-image-${timestamp}-${index}`,
-              title: post.title,
-              content: post,
-              type: "image",
-              platform: "linkedin",
-              createdAt: new Date().toISOString(),
-            });
-          });
+        const postCounts = { carousel: 0, image: 0, text: 0 };
+        const addPost = (type: PostType, post: Record<string, unknown>) => {
+          const item = {
+            id: `upload-${type}-${timestamp}-${postCounts[type]++}`,
+            title: post.title,
+            content: post,
+            type,
+            platform: "linkedin",
+            createdAt: new Date().toISOString(),
+          };
+          allPosts.push(item);
+          stream?.send("post", item);
+        };
+        // The repaired set replaces the posts streamed so far
+        const resetPosts = () => {
+          const removed = allPosts.splice(0).map((post) => post.id);
+          postCounts.carousel = postCounts.image = postCounts.text = 0;
+          stream?.send("reset", { removed });
+        };
+
+        if (wantsEventStream(req)) {
+          stream = openEventStream(res);
         }
+        const allContent = await generateAllLinkedInContent(
+          processedTranscript,
+          voice,
+          stream
+            ? { onPost: addPost, onReset: resetPosts, signal: stream.signal, cache }
+            : { cache },
+        );
+        console.log("Comprehensive content generation completed successfully");
 
-        // Add text posts
-        if (allContent.text_posts) {
-          allContent.text_posts.forEach((post: any, index: number) => {
-            allPosts.push({
-              id: `upload-text-${timestamp}-${index}`,
-              title: post.title,
-              content: post,
-              type: "text",
-              platform: "linkedin",
-              createdAt: new Date().toISOString(),
-            });
-          });
+        if (!stream) {
+          allContent.carousel_posts.forEach((post) => addPost("carousel", post));
+          allContent.image_posts.forEach((post) => addPost("image", post));
+          allContent.text_posts.forEach((post) => addPost("text", post));
         }
 
         // Auto-create LinkedIn.md file
@@ -969,6 +1202,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           uploadRecord = await storage.updateUpload(uploadId, {
             linkedinContentMarkdown: linkedinMarkdown,
             contentItems: allPosts,
+            ...(brandProfileId ? { brandProfileId } : {}),
           });
           console.log(`Updated upload record with ID: ${uploadId}`);
         } else {
@@ -983,28 +1217,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
             linkedinContentMarkdown: linkedinMarkdown,
             contentItems: allPosts,
             videoClips: null, // Clips generated separately
+            brandProfileId: brandProfileId || null,
           });
           console.log(`Created upload record with ID: ${uploadRecord.id}`);
+          // Usage so far was recorded before the upload existed
+          await usageMeter.attribute({ uploadId: uploadRecord.id });
         }
 
-        res.json({
+        const result = {
           comprehensive: true,
           uploadId: uploadRecord?.id, // Return unique upload ID
-          posts: allPosts,
           linkedinMarkdown, // Include markdown in response for immediate download
           summary: {
             total: allPosts.length,
-            carousels: allContent.carousel_posts?.length || 0,
-            images: allContent.image_posts?.length || 0,
-            texts: allContent.text_posts?.length || 0,
+            carousels: postCounts.carousel,
+            images: postCounts.image,
+            texts: postCounts.text,
           },
-        });
+        };
+
+        if (stream) {
+          // The posts have already gone out as "post" events
+          stream.send("done", result);
+          return stream.end();
+        }
+        res.json({ ...result, posts: allPosts });
       } else {
         // Use original single-type generation for backward compatibility
         const content = await generateLinkedInContent(
           transcript,
           contentType,
           generateAll,
+          voice,
+          { cache },
         );
 
         if (generateAll && content.posts) {
@@ -1032,22 +1277,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
     } catch (error) {
+      if (stream) {
+        return sendStreamError(stream, error, "Failed to generate content from upload");
+      }
       console.error("Content generation from upload error:", error);
-      res
-        .status(500)
-        .json({ message: "Failed to generate content from upload" });
+      sendGenerationError(res, error, "Failed to generate content from upload");
     }
   });
 
   // Generate clips from uploaded content
   app.post("/api/generate-clips-from-upload", async (req, res) => {
     try {
-      const { transcript, uploadId } = req.body;
+      const { uploadId, brandProfileId, regenerate = false, speaker = "all" } = req.body;
+      let transcript: string = req.body.transcript;
 
       if (!transcript) {
         return res.status(400).json({ error: "Transcript is required" });
       }
 
+      const upload = uploadId ? await storage.getUpload(uploadId) : undefined;
+      const voice = await resolveBrandVoice(brandProfileId, upload?.brandProfileId);
+      await usageMeter.attribute({ uploadId: upload?.id });
+
+      // Prefer real timings from the stored transcription when we have them
+      let words = uploadId
+        ? toWordTimings(await storage.getTranscriptWordsByUpload(uploadId))
+        : [];
+      const fullDuration = wordsDuration(words);
+      let guestRanges: Array<{ start: number; end: number }> = [];
+
+      // Guest-only clips come from the guest's words and stay inside their turns
+      if (speaker === "guest") {
+        const guest = upload ? await loadSpeakerTarget({ uploadId: upload.id }, "guest") : null;
+        if (!guest) {
+          return res.status(400).json({
+            error: "Guest-only clips need a transcribed upload with identified speakers",
+          });
+        }
+        ({ text: transcript, words, ranges: guestRanges } = guest);
+      }
+
       console.log("Generating clips from upload");
       console.log("Transcript length:", transcript.length);
 
@@ -1057,7 +1326,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         60,
         Math.floor(transcript.split(" ").length / 2.5),
       );
-      const clips = await generateVideoClips(transcript, estimatedDuration);
+      const clips = await generateVideoClips(
+        transcript,
+        fullDuration > 0 ? fullDuration : estimatedDuration,
+        words,
+        voice,
+        { uploadId: upload?.id, regenerate: regenerate === true },
+        guestRanges,
+      );
 
       // If uploadId provided, update the upload record with video clips
       if (uploadId) {
@@ -1072,15 +1348,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(clips);
     } catch (error) {
       console.error("Error generating clips from upload:", error);
+      if (error instanceof LLMOutputError) {
+        return sendGenerationError(res, error, "Failed to generate clips");
+      }
       res.status(500).json({ error: "Failed to generate clips" });
     }
   });
 
   // AI-Powered Content Generation with Claude
   app.post("/api/sessions/:sessionId/generate-content", async (req, res) => {
+    let stream: EventStream | null = null;
+    // Streamed posts are saved one after another; each save handles its own
+    // failure so the chain never rejects and later posts are still saved
+    let saving = Promise.resolve();
+
     try {
       const { sessionId } = req.params;
-      const { contentType = "text" } = req.body; // carousel, image, text
+      const {
+        contentType = "text", // carousel, image, text
+        brandProfileId,
+        variant = 0, // which of several calls for the same type this is
+        regenerate = false, // skip the LLM cache and generate afresh
+        speaker = "all", // "guest" to write from the guest's answers only
+      } = req.body;
+
+      const session = await storage.getSession(sessionId);
+      const voice = await resolveBrandVoice(brandProfileId, session?.brandProfileId);
+      await usageMeter.attribute({ sessionId: session?.id });
 
       // Get conversation data including both questions and responses for context
       const conversations = await storage.getConversationsBySession(sessionId);
@@ -1136,11 +1430,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         });
 
-      // Create full transcript with timing
-      const fullTranscript = conversationPairs
-        .map((pair) => `Q: ${pair.question}\nA: ${pair.response}`)
+      // Create full transcript with timing. Guest-only posts are written
+      // from the answers alone.
+      let fullTranscript = conversationPairs
+        .map((pair) =>
+          speaker === "guest"
+            ? pair.response
+            : `Q: ${pair.question}\nA: ${pair.response}`,
+        )
         .join("\n\n");
 
+      // A corrected recording transcript is a better source than the live
+      // answers it was transcribed from
+      if (session?.transcriptEditedAt) {
+        const corrected =
+          speaker === "guest"
+            ? (await loadSpeakerTarget({ sessionId }, "guest"))?.text
+            : session.fullTranscript;
+        if (corrected?.trim()) fullTranscript = corrected;
+      }
+
       const conversationText = `Interview Transcript:
 ${fullTranscript}
 
@@ -1160,12 +1469,65 @@ Total Duration: ${Math.max(...conversations.map((c) => c.timestamp))} seconds`;
         conversationText.substring(0, 200) + "...",
       );
 
+      // Streamed posts are saved in the order they arrive
+      const savedPosts: ContentPiece[] = [];
+      let failedSaves = 0;
+      const savePost = (post: Record<string, unknown>) => {
+        saving = saving
+          .then(async () => {
+            const contentPiece = await storage.createContentPiece({
+              sessionId,
+              type: contentType,
+              title: (post.title as string) || "Generated Content",
+              content: post,
+              platform: "linkedin",
+            });
+            savedPosts.push(contentPiece);
+            stream?.send("post", contentPiece);
+          })
+          .catch((error) => {
+            failedSaves++;
+            console.error("Failed to save streamed post:", error);
+          });
+      };
+      // The repaired set replaces the posts saved so far
+      const resetPosts = () => {
+        saving = saving
+          .then(async () => {
+            const removed = savedPosts.splice(0).map((post) => post.id);
+            for (const id of removed) await storage.deleteContentPiece(id);
+            stream?.send("reset", { removed });
+          })
+          .catch((error) => console.error("Failed to remove replaced posts:", error));
+      };
+
+      if (wantsEventStream(req)) {
+        stream = openEventStream(res);
+      }
       const content = await generateLinkedInContent(
         conversationText,
         contentType,
         true,
+        voice,
+        {
+          variant: Number(variant) || 0,
+          cache: { sessionId, regenerate: regenerate === true },
+          ...(stream
+            ? {
+                onPost: (_type, post) => savePost(post),
+                onReset: resetPosts,
+                signal: stream.signal,
+              }
+            : {}),
+        },
       );
 
+      if (stream) {
+        await saving;
+        stream.send("done", { total: savedPosts.length, failed: failedSaves });
+        return stream.end();
+      }
+
       // Check if we got multiple posts (new batch generation)
       if (content.posts && Array.isArray(content.posts)) {
         // Save all posts to database
@@ -1195,8 +1557,13 @@ Total Duration: ${Math.max(...conversations.map((c) => c.timestamp))} seconds`;
         res.json(contentPiece);
       }
     } catch (error) {
+      // Let posts already received finish saving before answering
+      await saving;
+      if (stream) {
+        return sendStreamError(stream, error, "Failed to generate content");
+      }
       console.error("Content generation error:", error);
-      res.status(500).json({ message: "Failed to generate content" });
+      sendGenerationError(res, error, "Failed to generate content");
     }
   });
 
@@ -1286,10 +1653,44 @@ Total Duration: ${Math.max(...conversations.map((c) => c.timestamp))} seconds`;
           .json({ message: "No conversation content found" });
       }
 
+      let words = toWordTimings(
+        await storage.getTranscriptWordsBySession(sessionId),
+      );
+      const fullDuration = wordsDuration(words);
+      let guestRanges: Array<{ start: number; end: number }> = [];
+      await usageMeter.attribute({ sessionId });
+
+      // Guest-only clips come from the guest's words and stay inside their
+      // turns; without word timings the responses are the guest's words
+      if (req.body?.speaker === "guest") {
+        const guest = await loadSpeakerTarget({ sessionId }, "guest");
+        if (guest) {
+          ({ text: conversationText, words, ranges: guestRanges } = guest);
+        } else {
+          conversationText = conversations
+            .filter((c) => c.type === "user_response")
+            .map((c) => c.content)
+            .join("\n\n");
+        }
+        if (!conversationText.trim()) {
+          return res
+            .status(400)
+            .json({ message: "No guest answers found in this session" });
+        }
+      }
+
       // Use Claude to generate optimized clips
+      const voice = await resolveBrandVoice(
+        req.body?.brandProfileId,
+        session.brandProfileId,
+      );
       const clipSuggestions = await generateVideoClips(
         conversationText,
-        session.duration || 180,
+        session.duration || fullDuration || 180,
+        words,
+        voice,
+        { sessionId, regenerate: req.body?.regenerate === true },
+        guestRanges,
       );
 
       // Save clips to database
@@ -1304,107 +1705,713 @@ Total Duration: ${Math.max(...conversations.map((c) => c.timestamp))} seconds`;
           endTime: clipData.endTime,
           socialScore: clipData.socialScore,
         });
-        savedClips.push(clip);
+        // Boundary adjustments are reported but not stored
+        savedClips.push({ ...clip, adjustments: clipData.adjustments });
       }
 
       res.json(savedClips);
     } catch (error) {
       console.error("Clip generation error:", error);
-      res.status(500).json({ message: "Failed to generate clips" });
+      sendGenerationError(res, error, "Failed to generate clips");
     }
   });
 
-  // Content Pieces
-  app.get("/api/sessions/:sessionId/content", async (req, res) => {
-    try {
-      const content = await storage.getContentPiecesBySession(
-        req.params.sessionId,
-      );
-      res.json(content);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch content" });
+  // Live recording ingestion: the Recording Studio streams MediaRecorder
+  // chunks here while the interview runs, then completes the recording
+  const sendIngestError = (res: Response, error: unknown, fallback: string) => {
+    if (error instanceof RecordingIngestError) {
+      return res
+        .status(error.status)
+        .json({ message: error.message, nextIndex: error.nextIndex });
     }
-  });
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ message: fallback });
+  };
 
-  app.post("/api/content", async (req, res) => {
+  app.post("/api/sessions/:sessionId/recording", async (req, res) => {
     try {
-      const validatedData = insertContentPieceSchema.parse(req.body);
-      const content = await storage.createContentPiece(validatedData);
-      res.status(201).json(content);
+      const { mimeType } = z.object({ mimeType: z.string() }).parse(req.body);
+
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      res.status(201).json(sessionRecordings.start(session.id, mimeType));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res
           .status(400)
-          .json({ message: "Invalid content data", errors: error.errors });
+          .json({ message: "Invalid recording", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create content" });
+      sendIngestError(res, error, "Failed to start recording");
     }
   });
 
-  // Download session package (video, transcript, content)
-  app.get("/api/download-session-package/:sessionId", async (req, res) => {
-    // Set longer timeout for large package downloads
-    req.setTimeout(15 * 60 * 1000); // 15 minutes
-    res.setTimeout(15 * 60 * 1000); // 15 minutes
-
+  app.get("/api/sessions/:sessionId/recording", async (req, res) => {
     try {
-      const { sessionId } = req.params;
-      const session = await storage.getSession(sessionId);
-
+      const session = await storage.getSession(req.params.sessionId);
       if (!session) {
-        return res.status(404).json({ error: "Session not found" });
+        return res.status(404).json({ message: "Session not found" });
       }
 
-      const archiver = await import("archiver");
-      const archive = archiver.default("zip", { zlib: { level: 9 } });
-
-      res.attachment(
-        `${session.title.replace(/[^a-z0-9]/gi, "_").toLowerCase()}_package.zip`,
-      );
-      archive.pipe(res);
-
-      // Add video file if exists
-      if (session.videoUrl) {
-        const videoPath = session.videoUrl.replace("/uploads/", "uploads/");
-        try {
-          const fs = await import("fs");
-          if (fs.existsSync(videoPath)) {
-            archive.file(videoPath, { name: "video.mp4" });
-          }
-        } catch (e) {
-          console.log("Video file not found:", videoPath);
-        }
+      const state = sessionRecordings.state(session.id);
+      if (!state) {
+        return res.status(404).json({ message: "No recording in progress" });
       }
+      res.json(state);
+    } catch (error) {
+      sendIngestError(res, error, "Failed to fetch recording state");
+    }
+  });
 
-      // Add transcript
-      if (session.fullTranscript) {
-        archive.append(session.fullTranscript, { name: "transcript.txt" });
+  // Raw chunk bytes; index is the MediaRecorder chunk number from 0
+  app.put("/api/sessions/:sessionId/recording/chunks/:index", async (req, res) => {
+    try {
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
       }
 
-      // Generate and add LinkedIn content markdown
-      const [contentPieces, clips] = await Promise.all([
-        storage.getContentPiecesBySession(sessionId),
-        storage.getClipsBySession(sessionId),
-      ]);
-
-      const markdownContent = generateContentMarkdown(
-        session,
-        contentPieces,
-        clips,
+      const state = await sessionRecordings.appendChunk(
+        session.id,
+        Number(req.params.index),
+        req,
       );
-      archive.append(markdownContent, { name: "linkedin_content.md" });
-
-      archive.finalize();
+      res.json(state);
     } catch (error) {
-      console.error("Download session package error:", error);
-      res.status(500).json({ error: "Failed to create download package" });
+      sendIngestError(res, error, "Failed to store recording chunk");
     }
   });
 
-  // Download upload package (transcript, content, video clips)
-  app.post("/api/download-upload-package", async (req, res) => {
-    // Set longer timeout for large package downloads
-    req.setTimeout(15 * 60 * 1000); // 15 minutes
+  // Assemble the recording into the session's video and queue transcription
+  app.post("/api/sessions/:sessionId/recording/complete", async (req, res) => {
+    try {
+      const { chunkCount, duration } = z
+        .object({
+          chunkCount: z.number().int().min(1),
+          duration: z.number().int().min(0).optional(),
+        })
+        .parse(req.body);
+      const { sessionId } = req.params;
+
+      const { videoKey, size } = await sessionRecordings.complete(
+        sessionId,
+        chunkCount,
+        duration,
+      );
+      const job = await jobQueue.enqueue(
+        "transcribe-session",
+        { sessionId },
+        { sessionId },
+      );
+
+      res.status(202).json({ videoKey, size, jobId: job.id });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid recording", errors: error.errors });
+      }
+      sendIngestError(res, error, "Failed to complete recording");
+    }
+  });
+
+  // Make a completed resumable upload the session's recording. The uploads
+  // row only carried the bytes, so it is removed and its video key moves to
+  // sessions.videoUrl.
+  app.post("/api/sessions/:sessionId/video", async (req, res) => {
+    try {
+      const { uploadId, duration } = z
+        .object({ uploadId: z.string(), duration: z.number().int().min(0).optional() })
+        .parse(req.body);
+
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const upload = await storage.getUpload(uploadId);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      if (upload.status === "uploading") {
+        return res.status(409).json({ message: "Upload is not complete yet" });
+      }
+
+      const previousKey = sessionVideoKey(session);
+      const updated = await storage.updateSession(session.id, {
+        videoUrl: normalizeKey(upload.objectPath),
+        silenceMap: null,
+        jumpCut: null,
+        ...(duration !== undefined ? { duration } : {}),
+      });
+      await storage.deleteUpload(upload.id);
+
+      // A re-recorded session replaces its old video, and the jump cut
+      // rendered from it
+      if (previousKey !== normalizeKey(upload.objectPath)) {
+        await blobStorage.delete(previousKey).catch(() => {});
+      }
+      if (session.jumpCut) {
+        await blobStorage.delete(session.jumpCut.videoPath).catch(() => {});
+      }
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid session video", errors: error.errors });
+      }
+      console.error("Session video error:", error);
+      res.status(500).json({ message: "Failed to save session video" });
+    }
+  });
+
+  // Transcribe the session's recorded video and store its word timings
+  app.post("/api/sessions/:sessionId/transcribe", async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+
+      const session = await storage.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      if (!(await blobStorage.exists(sessionVideoKey(session)))) {
+        return res
+          .status(400)
+          .json({ message: "Video file not found for this session" });
+      }
+
+      const job = await jobQueue.enqueue(
+        "transcribe-session",
+        { sessionId },
+        { sessionId },
+      );
+
+      res.status(202).json({ jobId: job.id });
+    } catch (error) {
+      console.error("Session transcription error:", error);
+      res.status(500).json({ message: "Failed to transcribe session" });
+    }
+  });
+
+  // Find the silent stretches of the session's recording with ffmpeg's
+  // silencedetect and store them as the session's silence map
+  app.post("/api/sessions/:sessionId/silence-map", async (req, res) => {
+    try {
+      const options = silenceRequestSchema.parse(req.body ?? {});
+      const { sessionId } = req.params;
+
+      const session = await storage.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (!(await blobStorage.exists(sessionVideoKey(session)))) {
+        return res
+          .status(400)
+          .json({ message: "Video file not found for this session" });
+      }
+
+      const payload: AnalyzeSessionSilencePayload = { sessionId, options };
+      const job = await jobQueue.enqueue("analyze-session-silence", { ...payload }, {
+        sessionId,
+      });
+
+      res.status(202).json({ jobId: job.id });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid silence settings", errors: error.errors });
+      }
+      console.error("Silence analysis error:", error);
+      res.status(500).json({ message: "Failed to analyze silence" });
+    }
+  });
+
+  app.get("/api/sessions/:sessionId/silence-map", async (req, res) => {
+    try {
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (!session.silenceMap) {
+        return res
+          .status(404)
+          .json({ message: "This session's silences haven't been analyzed yet" });
+      }
+      res.json(session.silenceMap);
+    } catch (error) {
+      console.error("Silence map error:", error);
+      res.status(500).json({ message: "Failed to fetch silence map" });
+    }
+  });
+
+  // Queue rendering the whole recording with its silences cut out. The
+  // silence map is made first when the session doesn't have one.
+  app.post("/api/sessions/:sessionId/jump-cut", async (req, res) => {
+    try {
+      const { keepPause } = jumpCutRequestSchema.parse(req.body ?? {});
+      const { sessionId } = req.params;
+
+      const session = await storage.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (!(await blobStorage.exists(sessionVideoKey(session)))) {
+        return res
+          .status(400)
+          .json({ message: "Video file not found for this session" });
+      }
+
+      const payload: RenderJumpCutPayload = { sessionId, keepPause };
+      const job = await jobQueue.enqueue("render-jump-cut", { ...payload }, {
+        sessionId,
+      });
+
+      res.status(202).json({ jobId: job.id });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid jump cut settings", errors: error.errors });
+      }
+      console.error("Jump cut error:", error);
+      res.status(500).json({ message: "Failed to render jump cut" });
+    }
+  });
+
+  // Preview the jump cut's edit decision list from the stored silence map
+  app.post("/api/sessions/:sessionId/jump-cut/edit-decisions", async (req, res) => {
+    try {
+      const { keepPause } = jumpCutRequestSchema.parse(req.body ?? {});
+
+      const session = await storage.getSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (!session.silenceMap) {
+        return res
+          .status(400)
+          .json({ message: "Analyze the session's silences first" });
+      }
+
+      res.json(buildJumpCut(session.silenceMap, keepPause));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid jump cut settings", errors: error.errors });
+      }
+      console.error("Jump cut preview error:", error);
+      res.status(500).json({ message: "Failed to preview jump cut" });
+    }
+  });
+
+  app.get("/api/sessions/:sessionId/jump-cut/video", async (req, res) => {
+    try {
+      const asset = await mediaAssets.resolveJumpCut(req.params.sessionId);
+      if (!asset) {
+        return res.status(404).json({ message: "Jump cut not found" });
+      }
+
+      await sendMediaAsset(req, res, asset, { download: !!req.query.download });
+    } catch (error) {
+      console.error("Jump cut video error:", error);
+      res.status(500).json({ message: "Failed to serve jump cut" });
+    }
+  });
+
+  // Stored word timings
+  app.get("/api/sessions/:sessionId/transcript/words", async (req, res) => {
+    try {
+      const words = await storage.getTranscriptWordsBySession(
+        req.params.sessionId,
+      );
+      res.json(toWordTimings(words));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch transcript words" });
+    }
+  });
+
+  app.get("/api/uploads/:uploadId/transcript/words", async (req, res) => {
+    try {
+      const words = await storage.getTranscriptWordsByUpload(
+        req.params.uploadId,
+      );
+      res.json(toWordTimings(words));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch transcript words" });
+    }
+  });
+
+  // Phrase search over stored word timings
+  app.get("/api/sessions/:sessionId/transcript/search", async (req, res) => {
+    try {
+      const query = String(req.query.q || "");
+      if (!query.trim()) {
+        return res.status(400).json({ message: "Search query is required" });
+      }
+
+      const words = await storage.getTranscriptWordsBySession(
+        req.params.sessionId,
+      );
+      res.json(searchTranscript(toWordTimings(words), query));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search transcript" });
+    }
+  });
+
+  app.get("/api/uploads/:uploadId/transcript/search", async (req, res) => {
+    try {
+      const query = String(req.query.q || "");
+      if (!query.trim()) {
+        return res.status(400).json({ message: "Search query is required" });
+      }
+
+      const words = await storage.getTranscriptWordsByUpload(
+        req.params.uploadId,
+      );
+      res.json(searchTranscript(toWordTimings(words), query));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search transcript" });
+    }
+  });
+
+  // Word-level corrections. Corrected words replace the stored ones, so
+  // subtitles, burned captions and search pick them up, and the transcript
+  // text used for generation is rebuilt from them.
+  const sendTranscriptEditError = (res: Response, error: unknown) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid transcript edits", errors: error.errors });
+    }
+    if (error instanceof TranscriptEditError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Transcript edit error:", error);
+    res.status(500).json({ message: "Failed to edit transcript" });
+  };
+
+  app.post("/api/sessions/:sessionId/transcript/edits", async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const { edits } = transcriptEditsSchema.parse(req.body);
+
+      const words = toWordTimings(await storage.getTranscriptWordsBySession(sessionId));
+      if (words.length === 0) {
+        return res.status(400).json({ message: "This session has no word-level transcript to edit" });
+      }
+
+      const edited = applyTranscriptEdits(
+        words,
+        await storage.getSpeakerSegmentsBySession(sessionId),
+        edits,
+      );
+      await storage.saveSessionTranscript(sessionId, edited, {
+        fullTranscript: transcriptText(edited.words, edited.speakers),
+        transcriptEditedAt: new Date(),
+      });
+      console.log(`Applied ${edits.length} transcript edits to session ${sessionId}`);
+
+      res.json(edited);
+    } catch (error) {
+      sendTranscriptEditError(res, error);
+    }
+  });
+
+  app.post("/api/uploads/:uploadId/transcript/edits", async (req, res) => {
+    try {
+      const { uploadId } = req.params;
+      const { edits } = transcriptEditsSchema.parse(req.body);
+
+      const words = toWordTimings(await storage.getTranscriptWordsByUpload(uploadId));
+      if (words.length === 0) {
+        return res.status(400).json({ message: "This upload has no word-level transcript to edit" });
+      }
+
+      const edited = applyTranscriptEdits(
+        words,
+        await storage.getSpeakerSegmentsByUpload(uploadId),
+        edits,
+      );
+      await storage.saveUploadTranscript(uploadId, edited, {
+        transcript: transcriptText(edited.words, edited.speakers),
+      });
+      console.log(`Applied ${edits.length} transcript edits to upload ${uploadId}`);
+
+      res.json(edited);
+    } catch (error) {
+      sendTranscriptEditError(res, error);
+    }
+  });
+
+  // Re-run the glossary correction over a stored transcript, e.g. after
+  // adding terms. Responds with the corrected words and speakers and a report
+  // of what was replaced.
+  app.post("/api/sessions/:sessionId/transcript/glossary", async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const session = await storage.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      const glossary = await storage.getGlossaryTerms(sessionId);
+      const words = toWordTimings(await storage.getTranscriptWordsBySession(sessionId));
+      const segments = await storage.getSpeakerSegmentsBySession(sessionId);
+      const corrected = applyGlossary(words, glossary, segments);
+
+      if (corrected.report.total > 0) {
+        await storage.saveSessionTranscript(sessionId, {
+          words: corrected.words,
+          speakers: segments.length > 0 ? corrected.speakers : undefined,
+        }, {
+          fullTranscript: transcriptText(corrected.words, corrected.speakers),
+          transcriptEditedAt: new Date(),
+        });
+      }
+      console.log(`Glossary corrected ${corrected.report.total} words in session ${sessionId}`);
+
+      res.json({
+        words: corrected.words,
+        speakers: corrected.report.total > 0 ? corrected.speakers : segments,
+        report: corrected.report,
+      });
+    } catch (error) {
+      console.error("Glossary correction error:", error);
+      res.status(500).json({ message: "Failed to apply glossary" });
+    }
+  });
+
+  app.post("/api/uploads/:uploadId/transcript/glossary", async (req, res) => {
+    try {
+      const { uploadId } = req.params;
+      const upload = await storage.getUpload(uploadId);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      const glossary = await storage.getGlossaryTerms();
+      const words = toWordTimings(await storage.getTranscriptWordsByUpload(uploadId));
+      const segments = await storage.getSpeakerSegmentsByUpload(uploadId);
+      const corrected = applyGlossary(words, glossary, segments);
+
+      if (corrected.report.total > 0) {
+        await storage.saveUploadTranscript(uploadId, {
+          words: corrected.words,
+          speakers: segments.length > 0 ? corrected.speakers : undefined,
+        }, {
+          transcript: transcriptText(corrected.words, corrected.speakers),
+        });
+      }
+      console.log(`Glossary corrected ${corrected.report.total} words in upload ${uploadId}`);
+
+      res.json({
+        words: corrected.words,
+        speakers: corrected.report.total > 0 ? corrected.speakers : segments,
+        report: corrected.report,
+      });
+    } catch (error) {
+      console.error("Glossary correction error:", error);
+      res.status(500).json({ message: "Failed to apply glossary" });
+    }
+  });
+
+  // Speaker turns (interviewer or guest) over the stored transcript words
+  app.get("/api/sessions/:sessionId/speakers", async (req, res) => {
+    try {
+      res.json(await storage.getSpeakerSegmentsBySession(req.params.sessionId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch speakers" });
+    }
+  });
+
+  app.get("/api/uploads/:uploadId/speakers", async (req, res) => {
+    try {
+      res.json(await storage.getSpeakerSegmentsByUpload(req.params.uploadId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch speakers" });
+    }
+  });
+
+  // Exchange interviewer and guest when the wrong voice was taken as the
+  // guest. The labelled transcript text is rebuilt to match.
+  app.post("/api/sessions/:sessionId/speakers/swap", async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const words = toWordTimings(await storage.getTranscriptWordsBySession(sessionId));
+      const swapped = swapSpeakers(await storage.getSpeakerSegmentsBySession(sessionId));
+      await storage.saveSessionTranscript(
+        sessionId,
+        { speakers: swapped },
+        words.length > 0 ? { fullTranscript: transcriptText(words, swapped) } : {},
+      );
+      res.json(await storage.getSpeakerSegmentsBySession(sessionId));
+    } catch (error) {
+      console.error("Speaker swap error:", error);
+      res.status(500).json({ message: "Failed to swap speakers" });
+    }
+  });
+
+  app.post("/api/uploads/:uploadId/speakers/swap", async (req, res) => {
+    try {
+      const { uploadId } = req.params;
+      const words = toWordTimings(await storage.getTranscriptWordsByUpload(uploadId));
+      const swapped = swapSpeakers(await storage.getSpeakerSegmentsByUpload(uploadId));
+      await storage.saveUploadTranscript(
+        uploadId,
+        { speakers: swapped },
+        words.length > 0 ? { transcript: transcriptText(words, swapped) } : {},
+      );
+      res.json(await storage.getSpeakerSegmentsByUpload(uploadId));
+    } catch (error) {
+      console.error("Speaker swap error:", error);
+      res.status(500).json({ message: "Failed to swap speakers" });
+    }
+  });
+
+  // Content Pieces
+  app.get("/api/sessions/:sessionId/content", async (req, res) => {
+    try {
+      const content = await storage.getContentPiecesBySession(
+        req.params.sessionId,
+      );
+      res.json(content);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch content" });
+    }
+  });
+
+  // LLM cache hits and misses for a session's or upload's generations
+  app.get("/api/sessions/:sessionId/cache-stats", async (req, res) => {
+    try {
+      res.json(await llmCache.stats({ sessionId: req.params.sessionId }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch cache stats" });
+    }
+  });
+
+  app.get("/api/uploads/:uploadId/cache-stats", async (req, res) => {
+    try {
+      res.json(await llmCache.stats({ uploadId: req.params.uploadId }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch cache stats" });
+    }
+  });
+
+  // Tokens, audio minutes and cost of everything done for a session or upload
+  app.get("/api/sessions/:sessionId/usage", async (req, res) => {
+    try {
+      res.json(await usageMeter.report({ sessionId: req.params.sessionId }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch usage" });
+    }
+  });
+
+  app.get("/api/uploads/:uploadId/usage", async (req, res) => {
+    try {
+      res.json(await usageMeter.report({ uploadId: req.params.uploadId }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch usage" });
+    }
+  });
+
+  app.post("/api/content", async (req, res) => {
+    try {
+      const validatedData = insertContentPieceSchema.parse(req.body);
+      const content = await storage.createContentPiece(validatedData);
+      res.status(201).json(content);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid content data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create content" });
+    }
+  });
+
+  // Download session package (video, transcript, content)
+  app.get("/api/download-session-package/:sessionId", async (req, res) => {
+    // Set longer timeout for large package downloads
+    req.setTimeout(15 * 60 * 1000); // 15 minutes
+    res.setTimeout(15 * 60 * 1000); // 15 minutes
+
+    try {
+      const { sessionId } = req.params;
+      const session = await storage.getSession(sessionId);
+
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      const archiver = await import("archiver");
+      const archive = archiver.default("zip", { zlib: { level: 9 } });
+
+      res.attachment(
+        `${session.title.replace(/[^a-z0-9]/gi, "_").toLowerCase()}_package.zip`,
+      );
+      archive.pipe(res);
+
+      // Add video file if exists
+      const videoKey = sessionVideoKey(session);
+      try {
+        if (await blobStorage.exists(videoKey)) {
+          archive.append(await blobStorage.createReadStream(videoKey), {
+            name: "video.mp4",
+          });
+        }
+      } catch (e) {
+        console.log("Video file not found:", videoKey);
+      }
+
+      // Add transcript
+      if (session.fullTranscript) {
+        archive.append(session.fullTranscript, { name: "transcript.txt" });
+      }
+
+      // Generate and add LinkedIn content markdown
+      const [contentPieces, clips, storedWords] = await Promise.all([
+        storage.getContentPiecesBySession(sessionId),
+        storage.getClipsBySession(sessionId),
+        storage.getTranscriptWordsBySession(sessionId),
+      ]);
+
+      // Add subtitles for the full session and for each clip
+      const words = toWordTimings(storedWords);
+      if (words.length > 0) {
+        appendSubtitles(archive, words, "subtitles/transcript");
+        for (const clip of clips) {
+          appendSubtitles(
+            archive,
+            words,
+            `subtitles/clips/${clip.title.replace(/[^a-z0-9]/gi, "_").toLowerCase()}`,
+            clip,
+          );
+        }
+      }
+
+      const markdownContent = generateContentMarkdown(
+        session,
+        contentPieces,
+        clips,
+      );
+      archive.append(markdownContent, { name: "linkedin_content.md" });
+
+      archive.finalize();
+    } catch (error) {
+      console.error("Download session package error:", error);
+      res.status(500).json({ error: "Failed to create download package" });
+    }
+  });
+
+  // Download upload package (transcript, content, video clips)
+  app.post("/api/download-upload-package", async (req, res) => {
+    // Set longer timeout for large package downloads
+    req.setTimeout(15 * 60 * 1000); // 15 minutes
     res.setTimeout(15 * 60 * 1000); // 15 minutes
 
     try {
@@ -1415,6 +2422,7 @@ Total Duration: ${Math.max(...conversations.map((c) => c.timestamp))} seconds`;
       let contentData = content;
       let clipsData = clips;
       let storedMarkdown = null;
+      let words: WordTiming[] = [];
 
       if (uploadId) {
         const uploadRecord = await storage.getUpload(uploadId);
@@ -1423,6 +2431,9 @@ Total Duration: ${Math.max(...conversations.map((c) => c.timestamp))} seconds`;
           contentData = uploadRecord.contentItems || content;
           clipsData = uploadRecord.videoClips || clips;
           storedMarkdown = uploadRecord.linkedinContentMarkdown;
+          words = toWordTimings(
+            await storage.getTranscriptWordsByUpload(uploadId),
+          );
           console.log(`Using stored upload record ${uploadId}`);
         }
       }
@@ -1458,6 +2469,10 @@ Total Duration: ${Math.max(...conversations.map((c) => c.timestamp))} seconds`;
         archive.append(transcriptData, { name: "transcript.txt" });
       }
 
+      if (words.length > 0) {
+        appendSubtitles(archive, words, "subtitles/transcript");
+      }
+
       // Use stored markdown if available, otherwise generate it
       const markdownContent =
         storedMarkdown ||
@@ -1466,14 +2481,32 @@ Total Duration: ${Math.max(...conversations.map((c) => c.timestamp))} seconds`;
 
       // Add actual video clip files if they exist
       if (clipsData && clipsData.length > 0) {
-        const fs = await import("fs");
         for (const clip of clipsData) {
-          if (clip.videoPath && fs.existsSync(clip.videoPath)) {
+          if (clip.videoPath && (await blobStorage.exists(clip.videoPath))) {
             const clipFileName = `${clip.title.replace(/[^a-z0-9]/gi, "_").toLowerCase()}.mp4`;
-            archive.file(clip.videoPath, {
+            archive.append(await blobStorage.createReadStream(clip.videoPath), {
               name: `video_clips/${clipFileName}`,
             });
           }
+
+          // Platform renditions, e.g. video_clips/my_clip_tiktok.mp4
+          for (const rendition of clip.renditions || []) {
+            if (rendition.videoPath && (await blobStorage.exists(rendition.videoPath))) {
+              archive.append(await blobStorage.createReadStream(rendition.videoPath), {
+                name: `video_clips/${clip.title.replace(/[^a-z0-9]/gi, "_").toLowerCase()}_${rendition.profile}.mp4`,
+              });
+            }
+          }
+
+          // Captions sit next to the clip with the same base name
+          if (words.length > 0) {
+            appendSubtitles(
+              archive,
+              words,
+              `video_clips/${clip.title.replace(/[^a-z0-9]/gi, "_").toLowerCase()}`,
+              clip,
+            );
+          }
         }
 
         // Add clips metadata
@@ -1492,104 +2525,261 @@ Total Duration: ${Math.max(...conversations.map((c) => c.timestamp))} seconds`;
         });
       }
 
-      archive.finalize();
+      archive.finalize();
+    } catch (error) {
+      console.error("Download upload package error:", error);
+      res.status(500).json({ error: "Failed to create download package" });
+    }
+  });
+
+  // Download all upload clips as ZIP
+  app.get("/api/upload-clips/download-all", async (req, res) => {
+    try {
+      const archiver = require("archiver");
+
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader(
+        "Content-Disposition",
+        'attachment; filename="upload_clips.zip"',
+      );
+
+      const archive = archiver("zip", { zlib: { level: 9 } });
+      archive.pipe(res);
+
+      // For upload clips, we don't have actual video files, so create a text file with clip information
+      const clipInfo = `Upload Video Clips Information
+
+Note: These clips were generated from uploaded transcript content.
+To create actual video clips, you would need to upload the original video file.
+
+Generated Clip Timestamps:
+- Sample clips would be created based on transcript analysis
+- Each clip includes start/end times and social media scores
+- Download individual session clips from the Video Library for actual video files
+
+For more information, visit the Video Library section.`;
+
+      archive.append(clipInfo, { name: "clip_info.txt" });
+      archive.finalize();
+    } catch (error) {
+      console.error("Upload clips download error:", error);
+      res.status(500).json({ error: "Failed to download upload clips" });
+    }
+  });
+
+  // Create video clips from session video using generated timestamps
+  app.post("/api/sessions/:sessionId/create-clips", async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+
+      const session = await storage.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      const clips = await storage.getClips(sessionId);
+      if (!clips || clips.length === 0) {
+        return res.status(400).json({
+          error: "No clips found for this session. Generate clips first.",
+        });
+      }
+
+      // Check if video file exists
+      if (!(await blobStorage.exists(sessionVideoKey(session)))) {
+        return res
+          .status(400)
+          .json({ error: "Video file not found for this session" });
+      }
+
+      const captionStyle = await resolveCaptionStyle(req.body?.captions);
+      const tighten = resolveTightenOptions(req.body?.tighten);
+      if (captionStyle || tighten) {
+        const words = await storage.getTranscriptWordsBySession(sessionId);
+        if (words.length === 0) {
+          return res.status(400).json({
+            error:
+              "Captions and filler removal need word timings. Transcribe the session video first.",
+          });
+        }
+      }
+
+      const payload: CreateSessionClipsPayload = {
+        sessionId,
+        captionStyle,
+        tighten,
+        trimSilence: req.body?.trimSilence === true,
+      };
+      const job = await jobQueue.enqueue("create-session-clips", { ...payload }, {
+        sessionId,
+      });
+
+      res.status(202).json({ jobId: job.id });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ error: "Invalid clip options", errors: error.errors });
+      }
+      console.error("Video clipping error:", error);
+      res.status(500).json({ error: "Failed to create video clips" });
+    }
+  });
+
+  // Platform output profiles available for clip renditions
+  app.get("/api/rendition-profiles", async (req, res) => {
+    res.json(Object.values(RENDITION_PROFILES));
+  });
+
+  app.get("/api/clips/:clipId/renditions", async (req, res) => {
+    try {
+      const renditions = await storage.getClipRenditions(req.params.clipId);
+      res.json(renditions);
     } catch (error) {
-      console.error("Download upload package error:", error);
-      res.status(500).json({ error: "Failed to create download package" });
+      res.status(500).json({ error: "Failed to fetch clip renditions" });
     }
   });
 
-  // Download all upload clips as ZIP
-  app.get("/api/upload-clips/download-all", async (req, res) => {
+  // Queue rendering a session clip into one or more platform profiles.
+  // Defaults to the profile matching the clip's platform.
+  app.post("/api/clips/:clipId/renditions", async (req, res) => {
     try {
-      const archiver = require("archiver");
-
-      res.setHeader("Content-Type", "application/zip");
-      res.setHeader(
-        "Content-Disposition",
-        'attachment; filename="upload_clips.zip"',
+      const { clipId } = req.params;
+      const { profiles, framing, captions, tighten } = renditionRequestSchema.parse(
+        req.body ?? {},
       );
 
-      const archive = archiver("zip", { zlib: { level: 9 } });
-      archive.pipe(res);
-
-      // For upload clips, we don't have actual video files, so create a text file with clip information
-      const clipInfo = `Upload Video Clips Information
+      const clip = await storage.getClip(clipId);
+      if (!clip) {
+        return res.status(404).json({ error: "Clip not found" });
+      }
 
-Note: These clips were generated from uploaded transcript content.
-To create actual video clips, you would need to upload the original video file.
+      const profileIds =
+        profiles ?? [profileForPlatform(clip.platform)?.id ?? "tiktok"];
 
-Generated Clip Timestamps:
-- Sample clips would be created based on transcript analysis
-- Each clip includes start/end times and social media scores
-- Download individual session clips from the Video Library for actual video files
+      const session = await storage.getSession(clip.sessionId);
+      if (!session || !(await blobStorage.exists(sessionVideoKey(session)))) {
+        return res
+          .status(400)
+          .json({ error: "Video file not found for this session" });
+      }
 
-For more information, visit the Video Library section.`;
+      const payload: RenderClipPayload = {
+        clipId,
+        profiles: profileIds,
+        framing,
+        captionStyle: await resolveCaptionStyle(captions),
+        tighten: resolveTightenOptions(tighten),
+      };
+      const job = await jobQueue.enqueue("render-clip", { ...payload }, {
+        sessionId: clip.sessionId,
+      });
 
-      archive.append(clipInfo, { name: "clip_info.txt" });
-      archive.finalize();
+      res.status(202).json({ jobId: job.id });
     } catch (error) {
-      console.error("Upload clips download error:", error);
-      res.status(500).json({ error: "Failed to download upload clips" });
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ error: "Invalid rendition request", errors: error.errors });
+      }
+      console.error("Clip rendition error:", error);
+      res.status(500).json({ error: "Failed to render clip" });
     }
   });
 
-  // Create video clips from session video using generated timestamps
-  app.post("/api/sessions/:sessionId/create-clips", async (req, res) => {
+  // Preview the edit decision list tightening would apply to a clip, before
+  // rendering. Takes the same options as `tighten` on the render requests.
+  app.post("/api/clips/:clipId/edit-decisions", async (req, res) => {
     try {
-      const { sessionId } = req.params;
+      const options = resolveTightenOptions({ ...(req.body ?? {}), enabled: true }) ?? {};
 
-      const session = await storage.getSession(sessionId);
-      if (!session) {
-        return res.status(404).json({ error: "Session not found" });
+      const clip = await storage.getClip(req.params.clipId);
+      if (!clip) {
+        return res.status(404).json({ error: "Clip not found" });
       }
 
-      const clips = await storage.getClips(sessionId);
-      if (!clips || clips.length === 0) {
-        return res.status(400).json({
-          error: "No clips found for this session. Generate clips first.",
-        });
+      const words = toWordTimings(await storage.getTranscriptWordsBySession(clip.sessionId));
+      if (words.length === 0) {
+        return res
+          .status(400)
+          .json({ error: "Transcribe the session video to find fillers and pauses" });
+      }
+
+      // Silence trimming needs the session's silence map
+      const session = req.body?.trimSilence === true
+        ? await storage.getSession(clip.sessionId)
+        : undefined;
+      res.json(
+        planClipEdits(clip, {
+          tighten: { words, options },
+          trimSilence: session?.silenceMap ?? undefined,
+        }) ?? buildEditDecisionList(words, clip, options),
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ error: "Invalid tightening options", errors: error.errors });
       }
+      console.error("Edit decision preview error:", error);
+      res.status(500).json({ error: "Failed to preview edits" });
+    }
+  });
 
-      // Check if video file exists
-      const videoPath = `uploads/${sessionId}.mp4`;
-      const fs = await import("fs");
-      if (!fs.existsSync(videoPath)) {
+  app.post("/api/uploads/:uploadId/edit-decisions", async (req, res) => {
+    try {
+      const { startTime, endTime, ...rest } = z
+        .object({ startTime: z.number().min(0), endTime: z.number().positive() })
+        .passthrough()
+        .refine((range) => range.endTime > range.startTime, "endTime must be after startTime")
+        .parse(req.body ?? {});
+      const options = resolveTightenOptions({ ...rest, enabled: true }) ?? {};
+
+      const words = toWordTimings(await storage.getTranscriptWordsByUpload(req.params.uploadId));
+      if (words.length === 0) {
         return res
           .status(400)
-          .json({ error: "Video file not found for this session" });
+          .json({ error: "Transcribe the upload to find fillers and pauses" });
       }
 
-      const { createVideoClips } = await import("./video-clipper");
-
-      const clipRequests = clips.map((clip) => ({
-        title: clip.title,
-        description: clip.description || "",
-        startTime: clip.startTime,
-        endTime: clip.endTime,
-        socialScore: clip.socialScore || 0,
-      }));
+      res.json(buildEditDecisionList(words, { startTime, endTime }, options));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ error: "Invalid tightening options", errors: error.errors });
+      }
+      console.error("Edit decision preview error:", error);
+      res.status(500).json({ error: "Failed to preview edits" });
+    }
+  });
 
-      const clipResults = await createVideoClips(videoPath, clipRequests);
+  app.get("/api/renditions/:id/video", async (req, res) => {
+    try {
+      const asset = await mediaAssets.resolveRendition(req.params.id);
+      if (!asset) {
+        return res.status(404).json({ error: "Rendition not found" });
+      }
 
-      // Update clips in storage with video file paths
-      for (let i = 0; i < clipResults.length; i++) {
-        const clipResult = clipResults[i];
-        const originalClip = clips[i];
+      await sendMediaAsset(req, res, asset, { download: !!req.query.download });
+    } catch (error) {
+      console.error("Rendition video error:", error);
+      res.status(500).json({ error: "Failed to serve rendition" });
+    }
+  });
 
-        await storage.updateClip(originalClip.id, {
-          ...originalClip,
-          videoPath: clipResult.videoPath,
-        });
+  app.delete("/api/renditions/:id", async (req, res) => {
+    try {
+      const rendition = await storage.getClipRendition(req.params.id);
+      if (!rendition) {
+        return res.status(404).json({ error: "Rendition not found" });
       }
 
-      res.json({
-        message: `Successfully created ${clipResults.length} video clips`,
-        clips: clipResults,
-      });
+      const { cleanupClips } = await import("./video-clipper");
+      await cleanupClips([rendition.videoPath]);
+      await storage.deleteClipRendition(rendition.id);
+      res.status(204).send();
     } catch (error) {
-      console.error("Video clipping error:", error);
-      res.status(500).json({ error: "Failed to create video clips" });
+      res.status(500).json({ error: "Failed to delete rendition" });
     }
   });
 
@@ -1628,47 +2818,21 @@ For more information, visit the Video Library section.`;
     },
   );
 
-  // Serve video clip file for viewing (streaming)
+  // Serve video clip file for viewing. Supports Range requests for seeking;
+  // upload clips can pass ?uploadId= to skip searching every upload
   app.get("/api/clips/:clipId/video", async (req, res) => {
     try {
       const { clipId } = req.params;
-      console.log("Attempting to serve video for clip:", clipId);
-
-      // For upload clips, we need to find the clip file in the uploads/clips directory
-      const fs = await import("fs");
-      const path = await import("path");
-
-      // Look for the clip file by ID
-      const clipsDir = "uploads/clips";
-      if (!fs.existsSync(clipsDir)) {
-        return res.status(404).json({ error: "Clips directory not found" });
-      }
-
-      // Find files that match the clip ID pattern
-      const files = fs.readdirSync(clipsDir);
-      const clipFile = files.find((file) =>
-        file.includes(clipId.split("-").slice(-1)[0]),
+      const asset = await mediaAssets.resolveClip(
+        clipId,
+        req.query.uploadId as string | undefined,
       );
 
-      if (!clipFile) {
-        console.log("Available clip files:", files);
+      if (!asset) {
         return res.status(404).json({ error: "Clip video file not found" });
       }
 
-      const clipPath = path.join(clipsDir, clipFile);
-
-      if (!fs.existsSync(clipPath)) {
-        return res.status(404).json({ error: "Video file not found on disk" });
-      }
-
-      const stat = fs.statSync(clipPath);
-
-      res.setHeader("Content-Type", "video/mp4");
-      res.setHeader("Content-Length", stat.size);
-      res.setHeader("Accept-Ranges", "bytes");
-
-      const readStream = fs.createReadStream(clipPath);
-      readStream.pipe(res);
+      await sendMediaAsset(req, res, asset);
     } catch (error) {
       console.error("Video serving error:", error);
       res.status(500).json({ error: "Failed to serve video" });
@@ -1681,51 +2845,197 @@ For more information, visit the Video Library section.`;
       const { clipId } = req.params;
       console.log("Attempting to download clip:", clipId);
 
-      // For upload clips, we need to find the clip file in the uploads/clips directory
-      const fs = await import("fs");
-      const path = await import("path");
+      const asset = await mediaAssets.resolveClip(
+        clipId,
+        req.query.uploadId as string | undefined,
+      );
 
-      // Look for the clip file by ID
-      const clipsDir = "uploads/clips";
-      if (!fs.existsSync(clipsDir)) {
-        return res.status(404).json({ error: "Clips directory not found" });
+      if (!asset) {
+        return res.status(404).json({ error: "Clip video file not found" });
       }
 
-      // Find files that match the clip ID pattern
-      const files = fs.readdirSync(clipsDir);
-      const clipFile = files.find((file) =>
-        file.includes(clipId.split("-").slice(-1)[0]),
-      );
+      await sendMediaAsset(req, res, asset, { download: true });
+    } catch (error) {
+      console.error("Clip download error:", error);
+      res.status(500).json({ error: "Failed to download clip" });
+    }
+  });
 
-      if (!clipFile) {
-        console.log("Available clip files:", files);
+  // Time-limited direct URL for a clip, e.g. to share or hand to a CDN.
+  // S3 storage returns a presigned URL; local storage one for /api/media.
+  app.get("/api/clips/:clipId/video-url", async (req, res) => {
+    try {
+      const asset = await mediaAssets.resolveClip(
+        req.params.clipId,
+        req.query.uploadId as string | undefined,
+      );
+      if (!asset) {
         return res.status(404).json({ error: "Clip video file not found" });
       }
 
-      const clipPath = path.join(clipsDir, clipFile);
+      const expiresIn = Math.min(
+        parseInt((req.query.expiresIn as string) || "3600", 10) || 3600,
+        7 * 24 * 3600,
+      );
+      res.json({
+        url: blobStorage.getSignedUrl(asset.key, expiresIn),
+        expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+      });
+    } catch (error) {
+      console.error("Clip URL error:", error);
+      res.status(500).json({ error: "Failed to sign clip URL" });
+    }
+  });
+
+  // Signed URLs handed out by local storage
+  app.get("/api/media/*", async (req, res) => {
+    try {
+      if (!(blobStorage instanceof LocalBlobStorage)) {
+        return res.status(404).json({ error: "Media not found" });
+      }
+
+      const key = normalizeKey((req.params as Record<string, string>)[0]);
+      const valid = blobStorage.verifySignedUrl(
+        key,
+        parseInt(req.query.expires as string, 10),
+        (req.query.signature as string) || "",
+      );
+      if (!valid) {
+        return res.status(403).json({ error: "Invalid or expired media URL" });
+      }
+
+      await sendMediaAsset(req, res, {
+        key,
+        contentType: contentTypeForKey(key),
+        fileName: path.basename(key),
+      });
+    } catch (error) {
+      console.error("Media serving error:", error);
+      res.status(500).json({ error: "Failed to serve media" });
+    }
+  });
 
-      if (!fs.existsSync(clipPath)) {
-        return res.status(404).json({ error: "Video file not found on disk" });
+  // Download captions for a single clip, re-based to the clip's start time.
+  // Upload clips aren't in the clips table, so they need ?uploadId=
+  app.get("/api/clips/:clipId/subtitles.:format(srt|vtt)", async (req, res) => {
+    try {
+      const { clipId } = req.params;
+      const format = req.params.format as SubtitleFormat;
+      const uploadId = req.query.uploadId as string | undefined;
+
+      let clip:
+        | { title: string; startTime: number; endTime: number; edits?: EditDecisionList | null }
+        | undefined;
+      let words: WordTiming[] = [];
+
+      const sessionClip = await storage.getClip(clipId);
+      if (sessionClip) {
+        clip = sessionClip;
+        words = toWordTimings(
+          await storage.getTranscriptWordsBySession(sessionClip.sessionId),
+        );
+      } else if (uploadId) {
+        const uploadRecord = await storage.getUpload(uploadId);
+        const uploadClips = (uploadRecord?.videoClips as any[]) || [];
+        clip = uploadClips.find((c) => c.id === clipId);
+        words = toWordTimings(
+          await storage.getTranscriptWordsByUpload(uploadId),
+        );
       }
 
-      const fileName = clipFile;
-      const stat = fs.statSync(clipPath);
+      if (!clip) {
+        return res.status(404).json({ error: "Clip not found" });
+      }
+      if (words.length === 0) {
+        return res
+          .status(404)
+          .json({ error: "No word timings stored for this clip's transcript" });
+      }
 
-      res.setHeader("Content-Type", "video/mp4");
-      res.setHeader("Content-Length", stat.size);
+      const fileName = `${clip.title.replace(/[^a-z0-9]/gi, "_").toLowerCase()}.${format}`;
+      res.setHeader("Content-Type", SUBTITLE_CONTENT_TYPES[format]);
       res.setHeader(
         "Content-Disposition",
         `attachment; filename="${fileName}"`,
       );
-
-      const readStream = fs.createReadStream(clipPath);
-      readStream.pipe(res);
+      res.send(renderSubtitles(words, format, clip));
     } catch (error) {
-      console.error("Clip download error:", error);
-      res.status(500).json({ error: "Failed to download clip" });
+      console.error("Clip subtitles error:", error);
+      res.status(500).json({ error: "Failed to create subtitles" });
     }
   });
 
+  // Download captions for a whole session or upload
+  app.get(
+    "/api/sessions/:sessionId/subtitles.:format(srt|vtt)",
+    async (req, res) => {
+      try {
+        const { sessionId } = req.params;
+        const format = req.params.format as SubtitleFormat;
+
+        const session = await storage.getSession(sessionId);
+        if (!session) {
+          return res.status(404).json({ error: "Session not found" });
+        }
+
+        const words = toWordTimings(
+          await storage.getTranscriptWordsBySession(sessionId),
+        );
+        if (words.length === 0) {
+          return res
+            .status(404)
+            .json({ error: "No word timings stored for this session" });
+        }
+
+        const fileName = `${session.title.replace(/[^a-z0-9]/gi, "_").toLowerCase()}.${format}`;
+        res.setHeader("Content-Type", SUBTITLE_CONTENT_TYPES[format]);
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${fileName}"`,
+        );
+        res.send(renderSubtitles(words, format));
+      } catch (error) {
+        console.error("Session subtitles error:", error);
+        res.status(500).json({ error: "Failed to create subtitles" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/uploads/:uploadId/subtitles.:format(srt|vtt)",
+    async (req, res) => {
+      try {
+        const { uploadId } = req.params;
+        const format = req.params.format as SubtitleFormat;
+
+        const uploadRecord = await storage.getUpload(uploadId);
+        if (!uploadRecord) {
+          return res.status(404).json({ error: "Upload not found" });
+        }
+
+        const words = toWordTimings(
+          await storage.getTranscriptWordsByUpload(uploadId),
+        );
+        if (words.length === 0) {
+          return res
+            .status(404)
+            .json({ error: "No word timings stored for this upload" });
+        }
+
+        const fileName = `${uploadRecord.originalName.replace(/\.[^/.]+$/, "").replace(/[^a-z0-9]/gi, "_").toLowerCase()}.${format}`;
+        res.setHeader("Content-Type", SUBTITLE_CONTENT_TYPES[format]);
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${fileName}"`,
+        );
+        res.send(renderSubtitles(words, format));
+      } catch (error) {
+        console.error("Upload subtitles error:", error);
+        res.status(500).json({ error: "Failed to create subtitles" });
+      }
+    },
+  );
+
   // Download all clips from a session as ZIP
   app.get("/api/sessions/:sessionId/download-clips", async (req, res) => {
     try {
@@ -1741,8 +3051,6 @@ For more information, visit the Video Library section.`;
       }
 
       const archiver = await import("archiver");
-      const fs = await import("fs");
-      const path = await import("path");
 
       const archive = archiver.default("zip", { zlib: { level: 9 } });
 
@@ -1755,9 +3063,11 @@ For more information, visit the Video Library section.`;
 
       // Add each video clip to the archive
       for (const clip of clipsWithVideos) {
-        if (fs.existsSync(clip.videoPath!)) {
+        if (await blobStorage.exists(clip.videoPath!)) {
           const fileName = `${clip.title.replace(/[^a-z0-9]/gi, "_").toLowerCase()}.mp4`;
-          archive.file(clip.videoPath!, { name: fileName });
+          archive.append(await blobStorage.createReadStream(clip.videoPath!), {
+            name: fileName,
+          });
         }
       }
 
@@ -1787,6 +3097,279 @@ For more information, visit the Video Library section.`;
   return httpServer;
 }
 
+const NO_VIDEO_PROVIDED = "No video file provided";
+
+// Text-only uploads record a placeholder instead of a storage key
+async function uploadVideoExists(objectPath: string): Promise<boolean> {
+  try {
+    return await blobStorage.exists(objectPath);
+  } catch {
+    return false;
+  }
+}
+
+type ReceivedVideo =
+  | {
+      videoKey: string;
+      originalName: string;
+      mimeType: string;
+      fileSize: number;
+      fields: Record<string, string>;
+    }
+  | { error: string; fields: Record<string, string> };
+
+// Stream a multipart video upload to a temp file and store it under videos/,
+// collecting the other form fields alongside it
+function receiveVideoUpload(
+  req: Request,
+  bb: busboy.Busboy,
+): Promise<ReceivedVideo> {
+  return new Promise((resolve, reject) => {
+    const fields: Record<string, string> = {};
+    let videoPath: string | null = null;
+    let originalName: string | null = null;
+    let mimeType = "video/mp4";
+    let fileSize = 0;
+    let uploadError: Error | null = null;
+    let writeFinished: Promise<void> = Promise.resolve();
+
+    bb.on("field", (name, val) => {
+      fields[name] = val;
+    });
+
+    bb.on("file", (name, file, info) => {
+      const { filename } = info;
+
+      if (!filename || !info.mimeType.startsWith("video/")) {
+        uploadError = new Error(
+          "Invalid file type. Please upload a video file.",
+        );
+        file.resume(); // Drain the file stream
+        return;
+      }
+
+      originalName = filename;
+      mimeType = info.mimeType;
+      videoPath = path.join(
+        "/tmp",
+        `upload_${Date.now()}_${filename.replace(/[^a-z0-9._-]/gi, "_")}`,
+      );
+
+      console.log(`Streaming upload started: ${filename} (${mimeType})`);
+
+      const writeStream = createWriteStream(videoPath);
+      writeFinished = new Promise((done) => writeStream.on("close", done));
+
+      file.on("data", (data) => {
+        fileSize += data.length;
+        // Log progress every 10MB
+        if (fileSize % (10 * 1024 * 1024) < data.length) {
+          console.log(
+            `Upload progress: ${Math.round(fileSize / 1024 / 1024)}MB`,
+          );
+        }
+      });
+
+      file.on("limit", () => {
+        uploadError = new Error("File too large. Maximum size is 500MB.");
+      });
+
+      file.on("error", (err) => {
+        uploadError = err;
+      });
+
+      file.pipe(writeStream);
+
+      writeStream.on("error", (err) => {
+        uploadError = err;
+      });
+    });
+
+    bb.on("finish", async () => {
+      await writeFinished;
+
+      if (uploadError || !videoPath || !originalName) {
+        if (videoPath && existsSync(videoPath)) unlinkSync(videoPath);
+        if (uploadError) console.error("Upload error:", uploadError);
+        return resolve({
+          error: uploadError ? uploadError.message : NO_VIDEO_PROVIDED,
+          fields,
+        });
+      }
+
+      console.log(
+        `Streaming upload completed: ${originalName} (${Math.round(fileSize / 1024 / 1024)}MB)`,
+      );
+
+      try {
+        const videoKey = `videos/${path.basename(videoPath).replace(/^upload_/, "")}`;
+        await blobStorage.putFile(videoKey, videoPath, mimeType);
+        resolve({ videoKey, originalName, mimeType, fileSize, fields });
+      } catch (error) {
+        if (existsSync(videoPath)) unlinkSync(videoPath);
+        reject(error);
+      }
+    });
+
+    bb.on("error", reject);
+
+    req.pipe(bb);
+  });
+}
+
+// Model output that still failed validation after repair attempts is a bad
+// upstream response, reported with its issues rather than as a server fault
+function sendGenerationError(res: Response, error: unknown, message: string) {
+  if (error instanceof LLMOutputError) {
+    return res.status(502).json({ message, error: error.message, ...error.toJSON() });
+  }
+  return res.status(500).json({ message });
+}
+
+// Content generation streams server-sent events when the client asks for
+// text/event-stream: a "post" event per validated post, then "done" or
+// "error". Closing the connection cancels the model request.
+function wantsEventStream(req: Request): boolean {
+  return (req.headers.accept || "").includes("text/event-stream");
+}
+
+function openEventStream(res: Response) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  return {
+    signal: controller.signal,
+    send(event: string, data: unknown) {
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    },
+    end() {
+      res.end();
+    },
+  };
+}
+
+type EventStream = ReturnType<typeof openEventStream>;
+
+function sendStreamError(stream: EventStream, error: unknown, message: string) {
+  if (stream.signal.aborted) {
+    console.log(`${message}: cancelled by the client`);
+    return;
+  }
+  console.error(message, error);
+  stream.send(
+    "error",
+    error instanceof LLMOutputError
+      ? { message, error: error.message, ...error.toJSON() }
+      : { message },
+  );
+  stream.end();
+}
+
+// Caption request sent with clip rendering: an optional stored preset plus
+// per-request overrides on top of it
+const captionRequestSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    presetId: z.string().optional(),
+    style: captionStyleSchema.partial().optional(),
+  })
+  .optional();
+
+// Tightening sent with clip rendering: cut fillers and false starts, and
+// shorten pauses over maxPause seconds (null keeps every pause)
+const tightenRequestSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    removeFillers: z.boolean().optional(),
+    maxPause: z.number().min(0.3).max(10).nullable().optional(),
+    crossfade: z.number().min(0).max(0.5).optional(),
+  })
+  .optional();
+
+const renditionRequestSchema = z.object({
+  profiles: z
+    .array(z.string().refine((id) => id in RENDITION_PROFILES, "Unknown profile"))
+    .min(1)
+    .optional(),
+  framing: z.enum(["crop", "blur"]).default("crop"),
+  captions: captionRequestSchema,
+  tighten: tightenRequestSchema,
+});
+
+const uploadClipsRequestSchema = renditionRequestSchema.extend({
+  transcript: z.string().optional(),
+  brandProfileId: z.string().optional(),
+  regenerate: z.boolean().optional(),
+  speaker: z.enum(["all", "guest"]).optional(),
+});
+
+// Resolve a caption request into a full style, or null when captions are off
+async function resolveCaptionStyle(input: unknown): Promise<CaptionStyle | null> {
+  const request = captionRequestSchema.parse(input);
+  if (!request || !request.enabled) {
+    return null;
+  }
+
+  const preset = request.presetId
+    ? await storage.getCaptionPreset(request.presetId)
+    : undefined;
+
+  return captionStyleSchema.parse({
+    ...(preset?.style || {}),
+    ...(request.style || {}),
+  });
+}
+
+// Settings for ffmpeg's silencedetect; omitted values use the defaults in
+// silence-map.ts
+const silenceRequestSchema = z.object({
+  noiseDb: z.number().min(-90).max(-10).optional(),
+  minSilence: z.number().min(0.1).max(10).optional(),
+});
+
+const jumpCutRequestSchema = z.object({
+  keepPause: z.number().min(0).max(2).optional(),
+});
+
+// Resolve a tightening request into option overrides, or null when it is off
+function resolveTightenOptions(input: unknown): Partial<TightenOptions> | null {
+  const request = tightenRequestSchema.parse(input);
+  if (!request || !request.enabled) {
+    return null;
+  }
+
+  const options: Partial<TightenOptions> = {};
+  if (request.removeFillers !== undefined) options.removeFillers = request.removeFillers;
+  if (request.maxPause !== undefined) options.maxPause = request.maxPause;
+  if (request.crossfade !== undefined) options.crossfade = request.crossfade;
+  return options;
+}
+
+// Helper function to add SRT and WebVTT captions to a ZIP archive
+function appendSubtitles(
+  archive: Archiver,
+  words: WordTiming[],
+  baseName: string,
+  range?: { startTime: number; endTime: number; edits?: EditDecisionList | null },
+) {
+  archive.append(renderSubtitles(words, "srt", range), {
+    name: `${baseName}.srt`,
+  });
+  archive.append(renderSubtitles(words, "vtt", range), {
+    name: `${baseName}.vtt`,
+  });
+}
+
 // Helper function to generate markdown content for sessions
 function generateContentMarkdown(
   session: any,
@@ -0,0 +1,198 @@
+import fs from "fs";
+import path from "path";
+import type { Readable } from "stream";
+import { storage } from "./storage";
+import { blobStorage, sessionVideoKey } from "./blob-storage";
+
+// Live ingestion of a session recording. The browser sends each MediaRecorder
+// chunk as it is produced; chunks are numbered and appended in order to a
+// staging file, so by the time recording stops only the last few seconds are
+// still in flight. Completing the recording moves the assembled video into
+// blob storage as the session's video.
+
+export interface IngestState {
+  mimeType: string;
+  nextIndex: number; // next chunk expected
+  size: number;
+  startedAt: string;
+}
+
+export class RecordingIngestError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public nextIndex?: number,
+  ) {
+    super(message);
+  }
+}
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+export class SessionRecordingIngest {
+  // Sessions with a chunk being written
+  private writing = new Set<string>();
+
+  constructor(private stagingDir: string) {}
+
+  // Session IDs come straight from the URL, so anything that could leave
+  // the staging directory is refused before it becomes part of a path
+  private stagingName(sessionId: string): string {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new RecordingIngestError(400, "Invalid session ID");
+    }
+    return `session_${sessionId}`;
+  }
+
+  private dataPath(sessionId: string): string {
+    return path.join(this.stagingDir, this.stagingName(sessionId));
+  }
+
+  private statePath(sessionId: string): string {
+    return path.join(this.stagingDir, `${this.stagingName(sessionId)}.json`);
+  }
+
+  // Kept on disk next to the data so ingestion survives a server restart
+  state(sessionId: string): IngestState | undefined {
+    const file = this.statePath(sessionId);
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : undefined;
+  }
+
+  private saveState(sessionId: string, state: IngestState) {
+    fs.writeFileSync(this.statePath(sessionId), JSON.stringify(state));
+  }
+
+  // Begin (or restart) a recording, discarding anything staged before
+  start(sessionId: string, mimeType: string): IngestState {
+    if (!mimeType.startsWith("video/") && !mimeType.startsWith("audio/")) {
+      throw new RecordingIngestError(415, "Recordings must be audio or video");
+    }
+
+    fs.mkdirSync(this.stagingDir, { recursive: true });
+    fs.writeFileSync(this.dataPath(sessionId), "");
+    const state: IngestState = {
+      mimeType,
+      nextIndex: 0,
+      size: 0,
+      startedAt: new Date().toISOString(),
+    };
+    this.saveState(sessionId, state);
+    return state;
+  }
+
+  async appendChunk(sessionId: string, index: number, body: Readable): Promise<IngestState> {
+    const state = this.state(sessionId);
+    if (!state) {
+      throw new RecordingIngestError(404, "No recording in progress for this session");
+    }
+    if (!Number.isInteger(index) || index < 0) {
+      throw new RecordingIngestError(400, "Chunk index must be a non-negative integer");
+    }
+
+    // A retry of a chunk that already arrived
+    if (index < state.nextIndex) {
+      body.resume();
+      return state;
+    }
+    if (index > state.nextIndex) {
+      body.resume();
+      throw new RecordingIngestError(
+        409,
+        `Expected chunk ${state.nextIndex}, got ${index}`,
+        state.nextIndex,
+      );
+    }
+    if (this.writing.has(sessionId)) {
+      body.resume();
+      throw new RecordingIngestError(409, "Chunk is already being written", state.nextIndex);
+    }
+
+    this.writing.add(sessionId);
+    try {
+      const dataPath = this.dataPath(sessionId);
+      let received = 0;
+
+      await new Promise<void>((resolve, reject) => {
+        const out = fs.createWriteStream(dataPath, { flags: "a" });
+        body.on("data", (chunk: Buffer) => {
+          received += chunk.length;
+        });
+        body.on("aborted", () => {
+          out.destroy();
+          reject(new RecordingIngestError(400, "Chunk upload was interrupted"));
+        });
+        body.on("error", reject);
+        out.on("error", reject);
+        out.on("finish", resolve);
+        body.pipe(out);
+      }).catch((error) => {
+        // Drop a partial chunk so the retry appends cleanly
+        fs.truncateSync(dataPath, state.size);
+        throw error;
+      });
+
+      const next: IngestState = {
+        ...state,
+        nextIndex: state.nextIndex + 1,
+        size: state.size + received,
+      };
+      this.saveState(sessionId, next);
+      return next;
+    } finally {
+      this.writing.delete(sessionId);
+    }
+  }
+
+  // Store the assembled recording as the session's video
+  async complete(
+    sessionId: string,
+    chunkCount: number,
+    duration?: number,
+  ): Promise<{ videoKey: string; size: number }> {
+    const state = this.state(sessionId);
+    if (!state) {
+      throw new RecordingIngestError(404, "No recording in progress for this session");
+    }
+    if (state.nextIndex < chunkCount) {
+      throw new RecordingIngestError(
+        409,
+        `Missing chunks: received ${state.nextIndex} of ${chunkCount}`,
+        state.nextIndex,
+      );
+    }
+
+    const session = await storage.getSession(sessionId);
+    if (!session) {
+      throw new RecordingIngestError(404, "Session not found");
+    }
+
+    const extension = state.mimeType.includes("mp4") ? "mp4" : "webm";
+    const videoKey = `sessions/${sessionId}.${extension}`;
+    const previousKey = sessionVideoKey(session);
+
+    await blobStorage.putFile(videoKey, this.dataPath(sessionId), state.mimeType);
+    // Silences and the jump cut belonged to the previous recording
+    await storage.updateSession(sessionId, {
+      videoUrl: videoKey,
+      status: "completed",
+      silenceMap: null,
+      jumpCut: null,
+      ...(duration !== undefined ? { duration } : {}),
+    });
+    fs.unlinkSync(this.statePath(sessionId));
+
+    if (previousKey !== videoKey) {
+      await blobStorage.delete(previousKey).catch(() => {});
+    }
+    if (session.jumpCut) {
+      await blobStorage.delete(session.jumpCut.videoPath).catch(() => {});
+    }
+
+    console.log(`Session ${sessionId} recording stored: ${videoKey} (${state.size} bytes)`);
+    return { videoKey, size: state.size };
+  }
+}
+
+export const sessionRecordings = new SessionRecordingIngest(
+  process.env.UPLOAD_STAGING_DIR || "uploads/partial",
+);
@@ -0,0 +1,177 @@
+import type { EditDecisionList, SilenceMap } from "@shared/schema";
+import { editDecisionList } from "./clip-tightening";
+
+// Silence maps. ffmpeg's silencedetect filter lists every stretch of a
+// recording's audio quieter than noiseDb for at least minSilence seconds.
+// The map is stored on the session and used to trim dead air from the head
+// and tail of clips, and to cut the whole interview into a jump-cut edit.
+// Unlike tightening (clip-tightening.ts) it needs no transcript, so it also
+// catches silence the transcriber left out of the word timings.
+
+export interface SilenceOptions {
+  noiseDb: number;
+  minSilence: number;
+}
+
+export const DEFAULT_SILENCE_OPTIONS: SilenceOptions = {
+  noiseDb: parseFloat(process.env.SILENCE_NOISE_DB || "-35"),
+  minSilence: parseFloat(process.env.SILENCE_MIN_SECONDS || "0.5"),
+};
+
+// Silence left before the first sound and after the last one of a trimmed clip
+const TRIM_PADDING = parseFloat(process.env.SILENCE_TRIM_PADDING || "0.15");
+// A clip edge this close to a silence counts as being in it, so a breath or
+// the tail of the previous sentence is trimmed along with the dead air
+const EDGE_TOLERANCE = 0.3;
+// Trimming that leaves less than this keeps the clip as it was
+const MIN_TRIMMED_SECONDS = 1;
+
+// Silence kept at each jump cut, so speech doesn't start on the cut
+export const DEFAULT_JUMP_CUT_PAUSE = parseFloat(process.env.JUMP_CUT_KEEP_PAUSE || "0.3");
+
+type Range = { startTime: number; endTime: number };
+type Cut = EditDecisionList["cuts"][number];
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+// silencedetect logs "silence_start: 12.34" and "silence_end: 15.6 |
+// silence_duration: 3.26". Silence running to the end of the file has no end.
+export function parseSilenceDetect(output: string, duration: number): SilenceMap["silences"] {
+  const silences: SilenceMap["silences"] = [];
+  let start: number | null = null;
+
+  for (const line of output.split(/\r?\n/)) {
+    const startMatch = line.match(/silence_start: (-?[\d.]+)/);
+    if (startMatch) {
+      start = Math.max(0, parseFloat(startMatch[1]));
+      continue;
+    }
+    const endMatch = line.match(/silence_end: ([\d.]+)/);
+    if (endMatch && start !== null) {
+      silences.push({ start: round(start), end: round(parseFloat(endMatch[1])) });
+      start = null;
+    }
+  }
+  if (start !== null && duration > start) {
+    silences.push({ start: round(start), end: round(duration) });
+  }
+  return silences;
+}
+
+// Run silencedetect over a recording's audio
+export async function detectSilences(
+  mediaPath: string,
+  overrides: Partial<SilenceOptions> = {},
+  onProgress?: (seconds: number, duration: number) => void,
+): Promise<SilenceMap> {
+  const { spawn } = await import("child_process");
+  const options = { ...DEFAULT_SILENCE_OPTIONS, ...overrides };
+
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn("ffmpeg", [
+      "-i", mediaPath,
+      "-vn", // Audio only
+      "-af", `silencedetect=noise=${options.noiseDb}dB:d=${options.minSilence}`,
+      "-f", "null",
+      "-"
+    ]);
+
+    let output = "";
+    let duration = 0;
+    ffmpeg.stderr.on("data", (data) => {
+      const text = data.toString();
+      output += text;
+
+      const durationMatch = text.match(/Duration: (\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+      if (durationMatch) {
+        duration =
+          parseInt(durationMatch[1]) * 3600 + parseInt(durationMatch[2]) * 60 + parseFloat(durationMatch[3]);
+      }
+      const timeMatch = text.match(/time=(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+      if (timeMatch && onProgress) {
+        onProgress(
+          parseInt(timeMatch[1]) * 3600 + parseInt(timeMatch[2]) * 60 + parseFloat(timeMatch[3]),
+          duration
+        );
+      }
+    });
+
+    ffmpeg.on("close", (code) => {
+      if (code !== 0) {
+        reject(new Error(`Silence detection failed: ${output.slice(-2000)}`));
+        return;
+      }
+      // Browser recordings often carry no duration in their header; the
+      // last progress time is how far ffmpeg actually read
+      const times = output.match(/time=(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/g) || [];
+      const lastTime = times.length > 0 ? times[times.length - 1].slice(5).split(":").map(Number) : null;
+      const readDuration = lastTime ? lastTime[0] * 3600 + lastTime[1] * 60 + lastTime[2] : 0;
+      const total = round(duration || readDuration);
+
+      resolve({
+        noiseDb: options.noiseDb,
+        minSilence: options.minSilence,
+        duration: total,
+        silences: parseSilenceDetect(output, total),
+        analyzedAt: new Date().toISOString(),
+      });
+    });
+
+    ffmpeg.on("error", reject);
+  });
+}
+
+// Total seconds of silence in a map
+export function silentSeconds(map: SilenceMap): number {
+  return round(map.silences.reduce((total, s) => total + (s.end - s.start), 0));
+}
+
+// Move a clip's start past the silence it begins in and its end back to
+// where the silence it ends in starts, leaving a little padding
+export function trimToSound(range: Range, map: SilenceMap, padding = TRIM_PADDING): Range {
+  let { startTime, endTime } = range;
+
+  const head = map.silences.find(
+    (s) => s.start <= range.startTime + EDGE_TOLERANCE && s.end > range.startTime,
+  );
+  if (head) startTime = Math.max(range.startTime, head.end - padding);
+
+  const tail = map.silences.find(
+    (s) => s.start < range.endTime && s.end >= range.endTime - EDGE_TOLERANCE,
+  );
+  if (tail) endTime = Math.min(range.endTime, tail.start + padding);
+
+  if (endTime - startTime < MIN_TRIMMED_SECONDS) return range;
+  return { startTime: round(startTime), endTime: round(endTime) };
+}
+
+// Head and tail cuts that trimToSound would make, as EDL cuts
+export function silenceTrimCuts(range: Range, map: SilenceMap): { trimmed: Range; head?: Cut; tail?: Cut } {
+  const trimmed = trimToSound(range, map);
+  return {
+    trimmed,
+    head: trimmed.startTime > range.startTime
+      ? { start: range.startTime, end: trimmed.startTime, reason: "silence" }
+      : undefined,
+    tail: trimmed.endTime < range.endTime
+      ? { start: trimmed.endTime, end: range.endTime, reason: "silence" }
+      : undefined,
+  };
+}
+
+// Jump-cut edit of the whole recording: every silence is cut down to
+// keepPause (split either side of the cut), and silence at the very start and
+// end is removed. Joins are hard cuts.
+export function buildJumpCut(map: SilenceMap, keepPause = DEFAULT_JUMP_CUT_PAUSE): EditDecisionList {
+  const half = keepPause / 2;
+  const cuts: Cut[] = [];
+
+  for (const silence of map.silences) {
+    const start = silence.start <= 0 ? 0 : silence.start + half;
+    const end = silence.end >= map.duration ? map.duration : silence.end - half;
+    if (end - start <= 0) continue;
+    cuts.push({ start, end, reason: "silence" });
+  }
+
+  return editDecisionList({ startTime: 0, endTime: map.duration }, cuts, 0);
+}
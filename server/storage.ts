@@ -1,8 +1,18 @@
-import { sessions, questions, conversations, clips, contentPieces, uploads, type Session, type InsertSession, type Question, type InsertQuestion, type Conversation, type InsertConversation, type Clip, type InsertClip, type ContentPiece, type InsertContentPiece, type Upload, type InsertUpload } from "@shared/schema";
+import { sessions, questions, conversations, clips, contentPieces, uploads, type Session, type InsertSession, type Question, type InsertQuestion, type Conversation, type InsertConversation, type Clip, type InsertClip, type ContentPiece, type InsertContentPiece, type Upload, type InsertUpload, transcriptWords, type TranscriptWord, captionPresets, type CaptionPreset, type InsertCaptionPreset, clipRenditions, type ClipRendition, type InsertClipRendition, jobs, type Job, type InsertJob, brandProfiles, type BrandProfile, type InsertBrandProfile, llmCacheEntries, type LLMCacheEntry, type InsertLLMCacheEntry, llmCacheLookups, type LLMCacheLookup, type InsertLLMCacheLookup, usageEvents, type UsageEvent, type InsertUsageEvent, speakerSegments, type SpeakerSegment, glossaryTerms, type GlossaryTerm, type InsertGlossaryTerm } from "@shared/schema";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { eq, and, or, asc, desc, inArray, isNull, gte, lt, lte, sql } from "drizzle-orm";
+import type { WordTiming } from "./transcription";
+import type { SpeakerTurn } from "./diarization";
 import { randomUUID } from "crypto";
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Parts of a stored transcript to replace; omitted parts are kept
+export interface TranscriptUpdate {
+  words?: WordTiming[];
+  speakers?: SpeakerTurn[];
+}
+
 export interface IStorage {
   // Sessions
   getSession(id: string): Promise<Session | undefined>;
@@ -44,6 +54,68 @@ export interface IStorage {
   createUpload(upload: InsertUpload): Promise<Upload>;
   updateUpload(id: string, upload: Partial<InsertUpload>): Promise<Upload | undefined>;
   deleteUpload(id: string): Promise<boolean>;
+
+  // Transcript Words
+  getTranscriptWordsBySession(sessionId: string): Promise<TranscriptWord[]>;
+  getTranscriptWordsByUpload(uploadId: string): Promise<TranscriptWord[]>;
+  setSessionTranscriptWords(sessionId: string, words: WordTiming[]): Promise<number>;
+  setUploadTranscriptWords(uploadId: string, words: WordTiming[]): Promise<number>;
+
+  // Speaker Segments
+  getSpeakerSegmentsBySession(sessionId: string): Promise<SpeakerSegment[]>;
+  getSpeakerSegmentsByUpload(uploadId: string): Promise<SpeakerSegment[]>;
+  setSessionSpeakerSegments(sessionId: string, turns: SpeakerTurn[]): Promise<number>;
+  setUploadSpeakerSegments(uploadId: string, turns: SpeakerTurn[]): Promise<number>;
+
+  // Words, speakers and the transcript text built from them, written together
+  saveSessionTranscript(sessionId: string, transcript: TranscriptUpdate, session: Partial<InsertSession>): Promise<void>;
+  saveUploadTranscript(uploadId: string, transcript: TranscriptUpdate, upload: Partial<InsertUpload>): Promise<void>;
+
+  // Glossary Terms
+  getGlossaryTerms(sessionId?: string): Promise<GlossaryTerm[]>;
+  createGlossaryTerm(term: InsertGlossaryTerm): Promise<GlossaryTerm>;
+  updateGlossaryTerm(id: string, term: Partial<InsertGlossaryTerm>): Promise<GlossaryTerm | undefined>;
+  deleteGlossaryTerm(id: string): Promise<boolean>;
+
+  // Caption Presets
+  getCaptionPreset(id: string): Promise<CaptionPreset | undefined>;
+  getCaptionPresets(): Promise<CaptionPreset[]>;
+  createCaptionPreset(preset: InsertCaptionPreset): Promise<CaptionPreset>;
+  updateCaptionPreset(id: string, preset: Partial<InsertCaptionPreset>): Promise<CaptionPreset | undefined>;
+  deleteCaptionPreset(id: string): Promise<boolean>;
+
+  // Brand Profiles
+  getBrandProfile(id: string): Promise<BrandProfile | undefined>;
+  getBrandProfiles(): Promise<BrandProfile[]>;
+  createBrandProfile(profile: InsertBrandProfile): Promise<BrandProfile>;
+  updateBrandProfile(id: string, profile: Partial<InsertBrandProfile>): Promise<BrandProfile | undefined>;
+  deleteBrandProfile(id: string): Promise<boolean>;
+
+  // Clip Renditions
+  getClipRendition(id: string): Promise<ClipRendition | undefined>;
+  getClipRenditions(clipId: string): Promise<ClipRendition[]>;
+  createClipRendition(rendition: InsertClipRendition): Promise<ClipRendition>;
+  deleteClipRendition(id: string): Promise<boolean>;
+
+  // Jobs
+  getJob(id: string): Promise<Job | undefined>;
+  getJobs(filter?: { sessionId?: string; uploadId?: string; active?: boolean }): Promise<Job[]>;
+  createJob(job: InsertJob): Promise<Job>;
+  updateJob(id: string, job: Partial<Job>): Promise<Job | undefined>;
+  claimNextJob(): Promise<Job | undefined>;
+  requeueRunningJobs(): Promise<{ requeued: number; failed: number }>;
+
+  // LLM Cache
+  getLLMCacheEntry(key: string): Promise<LLMCacheEntry | undefined>;
+  saveLLMCacheEntry(entry: InsertLLMCacheEntry): Promise<LLMCacheEntry>;
+  recordLLMCacheHit(key: string): Promise<void>;
+  createLLMCacheLookup(lookup: InsertLLMCacheLookup): Promise<LLMCacheLookup>;
+  getLLMCacheLookups(filter: { sessionId?: string; uploadId?: string }): Promise<LLMCacheLookup[]>;
+
+  // Usage Events
+  createUsageEvent(event: InsertUsageEvent): Promise<UsageEvent>;
+  getUsageEvents(filter: { sessionId?: string; uploadId?: string }): Promise<UsageEvent[]>;
+  assignUsageEvents(ids: string[], owner: { sessionId?: string; uploadId?: string }): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -325,6 +397,476 @@ export class DatabaseStorage implements IStorage {
     const result = await db.delete(uploads).where(eq(uploads.id, id));
     return (result.rowCount ?? 0) > 0;
   }
+
+  // Transcript Words
+  async getTranscriptWordsBySession(sessionId: string): Promise<TranscriptWord[]> {
+    return await db
+      .select()
+      .from(transcriptWords)
+      .where(eq(transcriptWords.sessionId, sessionId))
+      .orderBy(asc(transcriptWords.position));
+  }
+
+  async getTranscriptWordsByUpload(uploadId: string): Promise<TranscriptWord[]> {
+    return await db
+      .select()
+      .from(transcriptWords)
+      .where(eq(transcriptWords.uploadId, uploadId))
+      .orderBy(asc(transcriptWords.position));
+  }
+
+  async setSessionTranscriptWords(sessionId: string, words: WordTiming[]): Promise<number> {
+    return this.replaceTranscriptWords(eq(transcriptWords.sessionId, sessionId), { sessionId }, words);
+  }
+
+  async setUploadTranscriptWords(uploadId: string, words: WordTiming[]): Promise<number> {
+    return this.replaceTranscriptWords(eq(transcriptWords.uploadId, uploadId), { uploadId }, words);
+  }
+
+  // Replace a transcript's words in one transaction
+  private async replaceTranscriptWords(
+    ownerFilter: ReturnType<typeof eq>,
+    owner: { sessionId?: string; uploadId?: string },
+    words: WordTiming[],
+  ): Promise<number> {
+    await db.transaction((tx) => this.writeTranscriptWords(tx, ownerFilter, owner, words));
+    return words.length;
+  }
+
+  // Inserts in batches to stay under the Postgres parameter limit for long
+  // recordings
+  private async writeTranscriptWords(
+    tx: Transaction,
+    ownerFilter: ReturnType<typeof eq>,
+    owner: { sessionId?: string; uploadId?: string },
+    words: WordTiming[],
+  ): Promise<void> {
+    const BATCH_SIZE = 1000;
+
+    await tx.delete(transcriptWords).where(ownerFilter);
+
+    for (let i = 0; i < words.length; i += BATCH_SIZE) {
+      await tx.insert(transcriptWords).values(
+        words.slice(i, i + BATCH_SIZE).map((w, offset) => ({
+          id: randomUUID(),
+          sessionId: owner.sessionId ?? null,
+          uploadId: owner.uploadId ?? null,
+          position: i + offset,
+          word: w.word,
+          startTime: w.start,
+          endTime: w.end,
+          createdAt: new Date(),
+        })),
+      );
+    }
+  }
+
+  // Speaker Segments
+  async getSpeakerSegmentsBySession(sessionId: string): Promise<SpeakerSegment[]> {
+    return await db
+      .select()
+      .from(speakerSegments)
+      .where(eq(speakerSegments.sessionId, sessionId))
+      .orderBy(asc(speakerSegments.startPosition));
+  }
+
+  async getSpeakerSegmentsByUpload(uploadId: string): Promise<SpeakerSegment[]> {
+    return await db
+      .select()
+      .from(speakerSegments)
+      .where(eq(speakerSegments.uploadId, uploadId))
+      .orderBy(asc(speakerSegments.startPosition));
+  }
+
+  async setSessionSpeakerSegments(sessionId: string, turns: SpeakerTurn[]): Promise<number> {
+    return this.replaceSpeakerSegments(eq(speakerSegments.sessionId, sessionId), { sessionId }, turns);
+  }
+
+  async setUploadSpeakerSegments(uploadId: string, turns: SpeakerTurn[]): Promise<number> {
+    return this.replaceSpeakerSegments(eq(speakerSegments.uploadId, uploadId), { uploadId }, turns);
+  }
+
+  private async replaceSpeakerSegments(
+    ownerFilter: ReturnType<typeof eq>,
+    owner: { sessionId?: string; uploadId?: string },
+    turns: SpeakerTurn[],
+  ): Promise<number> {
+    await db.transaction((tx) => this.writeSpeakerSegments(tx, ownerFilter, owner, turns));
+    return turns.length;
+  }
+
+  private async writeSpeakerSegments(
+    tx: Transaction,
+    ownerFilter: ReturnType<typeof eq>,
+    owner: { sessionId?: string; uploadId?: string },
+    turns: SpeakerTurn[],
+  ): Promise<void> {
+    await tx.delete(speakerSegments).where(ownerFilter);
+    if (turns.length === 0) return;
+    await tx.insert(speakerSegments).values(
+      turns.map((turn) => ({
+        ...turn,
+        sessionId: owner.sessionId ?? null,
+        uploadId: owner.uploadId ?? null,
+      })),
+    );
+  }
+
+  // Edits, glossary corrections and speaker swaps change the words or turns
+  // and the text rebuilt from them; a failure part way must not leave them
+  // disagreeing
+  async saveSessionTranscript(
+    sessionId: string,
+    transcript: TranscriptUpdate,
+    session: Partial<InsertSession>,
+  ): Promise<void> {
+    await db.transaction(async (tx) => {
+      if (transcript.words) {
+        await this.writeTranscriptWords(tx, eq(transcriptWords.sessionId, sessionId), { sessionId }, transcript.words);
+      }
+      if (transcript.speakers) {
+        await this.writeSpeakerSegments(tx, eq(speakerSegments.sessionId, sessionId), { sessionId }, transcript.speakers);
+      }
+      if (Object.keys(session).length > 0) {
+        await tx.update(sessions).set(session).where(eq(sessions.id, sessionId));
+      }
+    });
+  }
+
+  async saveUploadTranscript(
+    uploadId: string,
+    transcript: TranscriptUpdate,
+    upload: Partial<InsertUpload>,
+  ): Promise<void> {
+    await this.ensureInitialized();
+    await db.transaction(async (tx) => {
+      if (transcript.words) {
+        await this.writeTranscriptWords(tx, eq(transcriptWords.uploadId, uploadId), { uploadId }, transcript.words);
+      }
+      if (transcript.speakers) {
+        await this.writeSpeakerSegments(tx, eq(speakerSegments.uploadId, uploadId), { uploadId }, transcript.speakers);
+      }
+      if (Object.keys(upload).length > 0) {
+        await tx.update(uploads).set(upload).where(eq(uploads.id, uploadId));
+      }
+    });
+  }
+
+  // Glossary Terms: the workspace glossary plus the session's own terms
+  async getGlossaryTerms(sessionId?: string): Promise<GlossaryTerm[]> {
+    const owner = sessionId
+      ? or(isNull(glossaryTerms.sessionId), eq(glossaryTerms.sessionId, sessionId))
+      : isNull(glossaryTerms.sessionId);
+    return await db.select().from(glossaryTerms).where(owner).orderBy(asc(glossaryTerms.term));
+  }
+
+  async createGlossaryTerm(insertTerm: InsertGlossaryTerm): Promise<GlossaryTerm> {
+    const [newTerm] = await db
+      .insert(glossaryTerms)
+      .values({
+        id: randomUUID(),
+        ...insertTerm,
+        createdAt: new Date()
+      })
+      .returning();
+    return newTerm;
+  }
+
+  async updateGlossaryTerm(id: string, term: Partial<InsertGlossaryTerm>): Promise<GlossaryTerm | undefined> {
+    const [updatedTerm] = await db
+      .update(glossaryTerms)
+      .set(term)
+      .where(eq(glossaryTerms.id, id))
+      .returning();
+    return updatedTerm || undefined;
+  }
+
+  async deleteGlossaryTerm(id: string): Promise<boolean> {
+    const result = await db.delete(glossaryTerms).where(eq(glossaryTerms.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Caption Presets
+  async getCaptionPreset(id: string): Promise<CaptionPreset | undefined> {
+    const [preset] = await db.select().from(captionPresets).where(eq(captionPresets.id, id));
+    return preset || undefined;
+  }
+
+  async getCaptionPresets(): Promise<CaptionPreset[]> {
+    return await db.select().from(captionPresets);
+  }
+
+  async createCaptionPreset(insertPreset: InsertCaptionPreset): Promise<CaptionPreset> {
+    const [newPreset] = await db
+      .insert(captionPresets)
+      .values({
+        id: randomUUID(),
+        ...insertPreset,
+        createdAt: new Date()
+      })
+      .returning();
+    return newPreset;
+  }
+
+  async updateCaptionPreset(id: string, preset: Partial<InsertCaptionPreset>): Promise<CaptionPreset | undefined> {
+    const [updatedPreset] = await db
+      .update(captionPresets)
+      .set(preset)
+      .where(eq(captionPresets.id, id))
+      .returning();
+    return updatedPreset || undefined;
+  }
+
+  async deleteCaptionPreset(id: string): Promise<boolean> {
+    const result = await db.delete(captionPresets).where(eq(captionPresets.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Brand Profiles
+  async getBrandProfile(id: string): Promise<BrandProfile | undefined> {
+    const [profile] = await db.select().from(brandProfiles).where(eq(brandProfiles.id, id));
+    return profile || undefined;
+  }
+
+  async getBrandProfiles(): Promise<BrandProfile[]> {
+    return await db.select().from(brandProfiles).orderBy(asc(brandProfiles.name));
+  }
+
+  async createBrandProfile(insertProfile: InsertBrandProfile): Promise<BrandProfile> {
+    const [newProfile] = await db
+      .insert(brandProfiles)
+      .values({
+        id: randomUUID(),
+        ...insertProfile,
+        createdAt: new Date()
+      })
+      .returning();
+    return newProfile;
+  }
+
+  async updateBrandProfile(id: string, profile: Partial<InsertBrandProfile>): Promise<BrandProfile | undefined> {
+    const [updatedProfile] = await db
+      .update(brandProfiles)
+      .set(profile)
+      .where(eq(brandProfiles.id, id))
+      .returning();
+    return updatedProfile || undefined;
+  }
+
+  async deleteBrandProfile(id: string): Promise<boolean> {
+    const result = await db.delete(brandProfiles).where(eq(brandProfiles.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Clip Renditions
+  async getClipRendition(id: string): Promise<ClipRendition | undefined> {
+    const [rendition] = await db.select().from(clipRenditions).where(eq(clipRenditions.id, id));
+    return rendition || undefined;
+  }
+
+  async getClipRenditions(clipId: string): Promise<ClipRendition[]> {
+    return await db
+      .select()
+      .from(clipRenditions)
+      .where(eq(clipRenditions.clipId, clipId))
+      .orderBy(asc(clipRenditions.createdAt));
+  }
+
+  async createClipRendition(insertRendition: InsertClipRendition): Promise<ClipRendition> {
+    const [newRendition] = await db
+      .insert(clipRenditions)
+      .values({
+        id: randomUUID(),
+        ...insertRendition,
+        createdAt: new Date()
+      })
+      .returning();
+    return newRendition;
+  }
+
+  async deleteClipRendition(id: string): Promise<boolean> {
+    const result = await db.delete(clipRenditions).where(eq(clipRenditions.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Jobs
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job || undefined;
+  }
+
+  async getJobs(filter: { sessionId?: string; uploadId?: string; active?: boolean } = {}): Promise<Job[]> {
+    const conditions = [];
+    if (filter.sessionId) conditions.push(eq(jobs.sessionId, filter.sessionId));
+    if (filter.uploadId) conditions.push(eq(jobs.uploadId, filter.uploadId));
+    if (filter.active) conditions.push(inArray(jobs.status, ["queued", "running"]));
+
+    return await db
+      .select()
+      .from(jobs)
+      .where(and(...conditions))
+      .orderBy(desc(jobs.createdAt))
+      .limit(50);
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [newJob] = await db
+      .insert(jobs)
+      .values({
+        id: randomUUID(),
+        ...insertJob,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
+      .returning();
+    return newJob;
+  }
+
+  async updateJob(id: string, job: Partial<Job>): Promise<Job | undefined> {
+    const [updatedJob] = await db
+      .update(jobs)
+      .set({ ...job, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return updatedJob || undefined;
+  }
+
+  // Atomically take the oldest runnable job. SKIP LOCKED lets several workers
+  // poll the same table without claiming the same row.
+  async claimNextJob(): Promise<Job | undefined> {
+    return await db.transaction(async (tx) => {
+      const [next] = await tx
+        .select()
+        .from(jobs)
+        .where(
+          and(
+            eq(jobs.status, "queued"),
+            lte(jobs.runAfter, new Date()),
+            lt(jobs.attempts, jobs.maxAttempts),
+          ),
+        )
+        .orderBy(asc(jobs.createdAt))
+        .limit(1)
+        .for("update", { skipLocked: true });
+
+      if (!next) return undefined;
+
+      const [claimed] = await tx
+        .update(jobs)
+        .set({ status: "running", attempts: next.attempts + 1, updatedAt: new Date() })
+        .where(eq(jobs.id, next.id))
+        .returning();
+      return claimed;
+    });
+  }
+
+  // Jobs left running by a previous process will never finish; queue them
+  // again unless they have used up their attempts. A job that takes the
+  // process down with it would otherwise be retried after every restart.
+  async requeueRunningJobs(): Promise<{ requeued: number; failed: number }> {
+    return await db.transaction(async (tx) => {
+      const failed = await tx
+        .update(jobs)
+        .set({
+          status: "failed",
+          error: "Interrupted by a server restart on its last attempt",
+          message: "Failed",
+          updatedAt: new Date(),
+          completedAt: new Date(),
+        })
+        .where(and(eq(jobs.status, "running"), gte(jobs.attempts, jobs.maxAttempts)));
+      const requeued = await tx
+        .update(jobs)
+        .set({ status: "queued", message: "Requeued after restart", updatedAt: new Date() })
+        .where(eq(jobs.status, "running"));
+      return { requeued: requeued.rowCount ?? 0, failed: failed.rowCount ?? 0 };
+    });
+  }
+
+  // LLM Cache
+  async getLLMCacheEntry(key: string): Promise<LLMCacheEntry | undefined> {
+    const [entry] = await db.select().from(llmCacheEntries).where(eq(llmCacheEntries.key, key));
+    return entry || undefined;
+  }
+
+  // Regenerated output replaces the previous entry for the same key
+  async saveLLMCacheEntry(entry: InsertLLMCacheEntry): Promise<LLMCacheEntry> {
+    const [saved] = await db
+      .insert(llmCacheEntries)
+      .values({ ...entry, createdAt: new Date() })
+      .onConflictDoUpdate({
+        target: llmCacheEntries.key,
+        set: { output: entry.output, hits: 0, createdAt: new Date(), lastHitAt: null },
+      })
+      .returning();
+    return saved;
+  }
+
+  async recordLLMCacheHit(key: string): Promise<void> {
+    await db
+      .update(llmCacheEntries)
+      .set({ hits: sql`${llmCacheEntries.hits} + 1`, lastHitAt: new Date() })
+      .where(eq(llmCacheEntries.key, key));
+  }
+
+  async createLLMCacheLookup(insertLookup: InsertLLMCacheLookup): Promise<LLMCacheLookup> {
+    const [lookup] = await db
+      .insert(llmCacheLookups)
+      .values({
+        id: randomUUID(),
+        ...insertLookup,
+        createdAt: new Date()
+      })
+      .returning();
+    return lookup;
+  }
+
+  async getLLMCacheLookups(filter: { sessionId?: string; uploadId?: string }): Promise<LLMCacheLookup[]> {
+    const conditions = [];
+    if (filter.sessionId) conditions.push(eq(llmCacheLookups.sessionId, filter.sessionId));
+    if (filter.uploadId) conditions.push(eq(llmCacheLookups.uploadId, filter.uploadId));
+
+    return await db
+      .select()
+      .from(llmCacheLookups)
+      .where(and(...conditions))
+      .orderBy(asc(llmCacheLookups.createdAt));
+  }
+
+  // Usage Events
+  async createUsageEvent(insertEvent: InsertUsageEvent): Promise<UsageEvent> {
+    const [event] = await db
+      .insert(usageEvents)
+      .values({
+        id: randomUUID(),
+        ...insertEvent,
+        createdAt: new Date()
+      })
+      .returning();
+    return event;
+  }
+
+  async getUsageEvents(filter: { sessionId?: string; uploadId?: string }): Promise<UsageEvent[]> {
+    const conditions = [];
+    if (filter.sessionId) conditions.push(eq(usageEvents.sessionId, filter.sessionId));
+    if (filter.uploadId) conditions.push(eq(usageEvents.uploadId, filter.uploadId));
+
+    return await db
+      .select()
+      .from(usageEvents)
+      .where(and(...conditions))
+      .orderBy(asc(usageEvents.createdAt));
+  }
+
+  // Attribute events recorded before their session or upload existed
+  async assignUsageEvents(ids: string[], owner: { sessionId?: string; uploadId?: string }): Promise<number> {
+    if (ids.length === 0) return 0;
+    const result = await db
+      .update(usageEvents)
+      .set(owner)
+      .where(inArray(usageEvents.id, ids));
+    return result.rowCount ?? 0;
+  }
 }
 
 export const storage = new DatabaseStorage();
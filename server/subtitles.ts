@@ -0,0 +1,203 @@
+import type { EditDecisionList } from "@shared/schema";
+import type { WordTiming } from "./transcription";
+
+export type SubtitleFormat = "srt" | "vtt";
+
+export interface SubtitleCue {
+  start: number; // seconds
+  end: number; // seconds
+  lines: string[];
+}
+
+export interface SubtitleOptions {
+  maxCharsPerLine: number;
+  maxLines: number;
+  maxCueDuration: number; // seconds
+  minCueDuration: number; // seconds
+  maxWordGap: number; // a silence longer than this starts a new cue
+}
+
+// Broadcast-style defaults: two lines of up to 42 characters, on screen
+// for between 1 and 6 seconds
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  maxCharsPerLine: 42,
+  maxLines: 2,
+  maxCueDuration: 6,
+  minCueDuration: 1,
+  maxWordGap: 1.5,
+};
+
+// Words that fall inside [startTime, endTime], shifted so the range starts at 0
+export function wordsForRange(
+  words: WordTiming[],
+  startTime: number,
+  endTime: number,
+): WordTiming[] {
+  return words
+    .filter((w) => w.end > startTime && w.start < endTime)
+    .map((w) => ({
+      word: w.word,
+      start: Math.max(0, w.start - startTime),
+      end: Math.min(endTime, w.end) - startTime,
+    }));
+}
+
+// Words kept by a tightened clip's edit decision list, on the rendered
+// clip's timeline. Words in the cuts are dropped.
+export function wordsForEdit(
+  words: WordTiming[],
+  edits: Pick<EditDecisionList, "segments">,
+): WordTiming[] {
+  const kept: WordTiming[] = [];
+  for (const segment of edits.segments) {
+    const shift = segment.outputStart - segment.start;
+    for (const w of words) {
+      if (w.end <= segment.start || w.start >= segment.end) continue;
+      // Mostly cut away: the word was removed, not kept
+      const overlap = Math.min(w.end, segment.end) - Math.max(w.start, segment.start);
+      if (overlap < (w.end - w.start) / 2) continue;
+      kept.push({
+        word: w.word,
+        start: Math.max(w.start, segment.start) + shift,
+        end: Math.min(w.end, segment.end) + shift,
+      });
+    }
+  }
+  return kept;
+}
+
+// Split cue text into at most maxLines lines, keeping lines roughly balanced
+function wrapLines(tokens: string[], options: SubtitleOptions): string[] {
+  const text = tokens.join(" ");
+  if (text.length <= options.maxCharsPerLine || options.maxLines === 1) {
+    return [text];
+  }
+
+  // Pick the break point that minimises the longer of the two lines
+  let bestIndex = 1;
+  let bestLength = Infinity;
+  for (let i = 1; i < tokens.length; i++) {
+    const first = tokens.slice(0, i).join(" ").length;
+    const second = tokens.slice(i).join(" ").length;
+    const longest = Math.max(first, second);
+    if (longest < bestLength) {
+      bestLength = longest;
+      bestIndex = i;
+    }
+  }
+
+  return [tokens.slice(0, bestIndex).join(" "), tokens.slice(bestIndex).join(" ")];
+}
+
+export function buildCues(
+  words: WordTiming[],
+  options: Partial<SubtitleOptions> = {},
+): SubtitleCue[] {
+  const opts = { ...DEFAULT_SUBTITLE_OPTIONS, ...options };
+  const maxChars = opts.maxCharsPerLine * opts.maxLines;
+  const groups: WordTiming[][] = [];
+  let current: WordTiming[] = [];
+
+  const cueText = (group: WordTiming[]) =>
+    group.map((w) => w.word.trim()).join(" ");
+
+  for (const word of words) {
+    if (!word.word.trim()) continue;
+
+    if (current.length > 0) {
+      const previous = current[current.length - 1];
+      const wouldBe = cueText([...current, word]);
+      const endsSentence = /[.!?]["')\]]?$/.test(previous.word.trim());
+
+      if (
+        wouldBe.length > maxChars ||
+        word.end - current[0].start > opts.maxCueDuration ||
+        word.start - previous.end > opts.maxWordGap ||
+        (endsSentence && cueText(current).length >= opts.maxCharsPerLine / 2)
+      ) {
+        groups.push(current);
+        current = [];
+      }
+    }
+
+    current.push(word);
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups.map((group, index) => {
+    const start = group[0].start;
+    const nextStart = index + 1 < groups.length ? groups[index + 1][0].start : Infinity;
+    // Hold short cues on screen long enough to read, without overlapping the next one
+    const end = Math.min(
+      Math.max(group[group.length - 1].end, start + opts.minCueDuration),
+      nextStart,
+    );
+
+    return {
+      start,
+      end,
+      lines: wrapLines(group.map((w) => w.word.trim()), opts),
+    };
+  });
+}
+
+function formatTimestamp(seconds: number, separator: "," | "."): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return (
+    `${hours.toString().padStart(2, "0")}:` +
+    `${minutes.toString().padStart(2, "0")}:` +
+    `${secs.toString().padStart(2, "0")}${separator}` +
+    ms.toString().padStart(3, "0")
+  );
+}
+
+export function toSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n` +
+        `${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n` +
+        `${cue.lines.join("\n")}\n`,
+    )
+    .join("\n");
+}
+
+export function toVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map(
+      (cue) =>
+        `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n` +
+        `${cue.lines.join("\n")}\n`,
+    )
+    .join("\n");
+
+  return `WEBVTT\n\n${body}`;
+}
+
+// Render words as a subtitle file. With a range the cues are re-based so the
+// range start is 00:00:00; a range carrying edits (a tightened clip) follows
+// the rendered clip's timeline instead.
+export function renderSubtitles(
+  words: WordTiming[],
+  format: SubtitleFormat,
+  range?: { startTime: number; endTime: number; edits?: EditDecisionList | null },
+  options: Partial<SubtitleOptions> = {},
+): string {
+  const source = range?.edits
+    ? wordsForEdit(words, range.edits)
+    : range
+      ? wordsForRange(words, range.startTime, range.endTime)
+      : words;
+  const cues = buildCues(source, options);
+  return format === "srt" ? toSrt(cues) : toVtt(cues);
+}
+
+export const SUBTITLE_CONTENT_TYPES: Record<SubtitleFormat, string> = {
+  srt: "application/x-subrip; charset=utf-8",
+  vtt: "text/vtt; charset=utf-8",
+};
@@ -0,0 +1,335 @@
+import { createHash } from "crypto";
+import {
+  completeJSON,
+  segmentDigestSchema,
+  type SegmentDigest,
+} from "./llm-output";
+import { llmCache, type CacheScope } from "./llm-cache";
+
+// Map-reduce for long transcripts. An hour-long interview (and its word
+// timings) doesn't fit well in one prompt, so the transcript is split into
+// parts, each part is condensed into a summary, insights, exact quotes and
+// candidate clip moments, and posts and clips are then generated from the
+// combined digest.
+
+type TimedWord = { word: string; start: number; end: number };
+
+// Prompt material (transcript plus word timings) above this size is digested
+const DIGEST_THRESHOLD_CHARS = parseInt(
+  process.env.DIGEST_THRESHOLD_CHARS || "40000",
+  10,
+);
+
+// Target size of each transcript part
+const DIGEST_SEGMENT_CHARS = parseInt(
+  process.env.DIGEST_SEGMENT_CHARS || "12000",
+  10,
+);
+
+// Parts digested at once
+const DIGEST_CONCURRENCY = 3;
+
+// Words between timestamp markers in timed parts
+const MARKER_EVERY_WORDS = 40;
+
+// Word timings kept either side of a candidate moment for clip prompts
+const MOMENT_CONTEXT_SECONDS = 10;
+
+// Digests of recent transcripts; a session's content is generated with
+// several calls over the same transcript
+const MAX_CACHED_DIGESTS = 20;
+const digestCache = new Map<string, Promise<TranscriptDigest>>();
+
+export interface DigestOptions {
+  // Stops this caller waiting; a digest other requests share keeps running
+  signal?: AbortSignal;
+  // Digests are reused even when regenerating; only the posts or clips are new
+  cache?: CacheScope;
+}
+
+export interface TranscriptSegment {
+  index: number;
+  text: string;
+  startTime?: number;
+  endTime?: number;
+  words?: TimedWord[];
+}
+
+export interface TranscriptDigest {
+  parts: Array<SegmentDigest & { index: number; startTime?: number; endTime?: number }>;
+  text: string; // the digest as prompt material
+}
+
+// "word(12.3s)" per word in clip prompts
+function timingSize(words?: TimedWord[]): number {
+  return (words?.length ?? 0) * 12;
+}
+
+export function needsDigest(text: string, words?: TimedWord[]): boolean {
+  return text.length + timingSize(words) > DIGEST_THRESHOLD_CHARS;
+}
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.floor(seconds % 60);
+  return `${minutes}:${rest.toString().padStart(2, "0")}`;
+}
+
+// Timed parts carry a [Ns] marker every few dozen words so quotes and
+// moments can be placed
+function splitWords(words: TimedWord[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let current: TimedWord[] = [];
+  let length = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const lines: string[] = [];
+    for (let i = 0; i < current.length; i += MARKER_EVERY_WORDS) {
+      const line = current.slice(i, i + MARKER_EVERY_WORDS);
+      lines.push(`[${line[0].start.toFixed(1)}s] ${line.map((w) => w.word.trim()).join(" ")}`);
+    }
+    segments.push({
+      index: segments.length,
+      text: lines.join("\n"),
+      startTime: current[0].start,
+      endTime: current[current.length - 1].end,
+      words: current,
+    });
+    current = [];
+    length = 0;
+  };
+
+  for (const word of words) {
+    current.push(word);
+    length += word.word.length + 1;
+    // End parts at a sentence boundary once they are big enough
+    if (length >= DIGEST_SEGMENT_CHARS && /[.!?]["']?$/.test(word.word.trim())) {
+      flush();
+    } else if (length >= DIGEST_SEGMENT_CHARS * 1.5) {
+      flush();
+    }
+  }
+  flush();
+  return segments;
+}
+
+// Untimed transcripts are split between paragraphs (Q&A pairs), or between
+// sentences when a paragraph is too long on its own
+function splitText(text: string): TranscriptSegment[] {
+  const pieces = text
+    .split(/\n\s*\n/)
+    .flatMap((paragraph) =>
+      paragraph.length > DIGEST_SEGMENT_CHARS
+        ? paragraph.split(/(?<=[.!?])\s+/)
+        : [paragraph],
+    )
+    .filter((piece) => piece.trim());
+
+  const segments: TranscriptSegment[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (current && current.length + piece.length > DIGEST_SEGMENT_CHARS) {
+      segments.push({ index: segments.length, text: current });
+      current = "";
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+  if (current) segments.push({ index: segments.length, text: current });
+  return segments;
+}
+
+export function splitTranscript(text: string, words?: TimedWord[]): TranscriptSegment[] {
+  return words && words.length > 0 ? splitWords(words) : splitText(text);
+}
+
+async function digestSegment(
+  segment: TranscriptSegment,
+  total: number,
+  options: DigestOptions,
+): Promise<SegmentDigest> {
+  const timed = segment.startTime !== undefined && segment.endTime !== undefined;
+  const range = timed
+    ? ` (${formatTime(segment.startTime!)} to ${formatTime(segment.endTime!)})`
+    : "";
+
+  const prompt = `You are taking notes on part ${segment.index + 1} of ${total}${range} of a long interview transcript. LinkedIn posts and short video clips will later be written from the notes on every part, without the transcript, so capture everything worth using.
+
+TRANSCRIPT PART:
+"""
+${segment.text}
+"""
+
+Return JSON only:
+{
+  "summary": "3-5 sentences on what is discussed in this part",
+  "insights": ["A specific lesson, claim, story or number, with the concrete details given"],
+  "quotes": [{"text": "A strong sentence copied exactly from the transcript"${timed ? ', "time": number (seconds, from the nearest [Ns] marker before it)' : ""}}],
+  "moments": [${timed ? '{"title": "Short title", "startTime": number, "endTime": number, "why": "Why this would make a strong clip", "score": number (1-100)}' : ""}]
+}
+
+Rules:
+- Use only what is said in this part; never invent details
+- Copy quotes word for word
+- Up to 8 insights and 5 quotes${timed ? "\n- Moments are self-contained stretches of 15-90 seconds that would work as social video clips; take their times from the [Ns] markers" : "\n- Leave moments empty; this transcript has no timings"}`;
+
+  const { value } = await llmCache.getOrGenerate(
+    { task: "digest", transcript: segment.text, variant: { index: segment.index, total } },
+    { ...options.cache, regenerate: false },
+    () =>
+      completeJSON(
+        {
+          task: "digest",
+          prompt,
+          maxTokens: 4000,
+          signal: options.signal,
+          context: { transcript: segment.text, words: segment.words },
+        },
+        segmentDigestSchema,
+      ),
+  );
+  return value;
+}
+
+function formatDigest(digest: TranscriptDigest["parts"]): string {
+  const parts = digest.map((part) => {
+    const range =
+      part.startTime !== undefined && part.endTime !== undefined
+        ? ` (${formatTime(part.startTime)} to ${formatTime(part.endTime)})`
+        : "";
+    const lines = [`PART ${part.index + 1}${range}`, `Summary: ${part.summary}`];
+    if (part.insights.length > 0) {
+      lines.push("Insights:", ...part.insights.map((insight) => `- ${insight}`));
+    }
+    if (part.quotes.length > 0) {
+      lines.push(
+        "Quotes:",
+        ...part.quotes.map((quote) =>
+          quote.time !== undefined
+            ? `- "${quote.text}" (${quote.time.toFixed(1)}s)`
+            : `- "${quote.text}"`,
+        ),
+      );
+    }
+    if (part.moments.length > 0) {
+      lines.push(
+        "Candidate clip moments:",
+        ...part.moments.map(
+          (moment) =>
+            `- ${moment.startTime.toFixed(1)}s to ${moment.endTime.toFixed(1)}s: ${moment.title} (score ${moment.score}) - ${moment.why}`,
+        ),
+      );
+    }
+    return lines.join("\n");
+  });
+
+  return `DIGEST OF A LONG INTERVIEW (the transcript was condensed part by part; quotes are exact)
+
+${parts.join("\n\n")}`;
+}
+
+async function buildDigest(
+  text: string,
+  words: TimedWord[] | undefined,
+  options: DigestOptions,
+): Promise<TranscriptDigest> {
+  const segments = splitTranscript(text, words);
+  console.log(
+    `Digesting long transcript (${text.length} chars) in ${segments.length} parts`,
+  );
+
+  const results: SegmentDigest[] = new Array(segments.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < segments.length) {
+      const segment = segments[next++];
+      results[segment.index] = await digestSegment(segment, segments.length, options);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(DIGEST_CONCURRENCY, segments.length) }, worker),
+  );
+
+  const parts = results.map((result, index) => ({
+    ...result,
+    index,
+    startTime: segments[index].startTime,
+    endTime: segments[index].endTime,
+  }));
+  return { parts, text: formatDigest(parts) };
+}
+
+export function digestTranscript(
+  text: string,
+  words?: TimedWord[],
+  options: DigestOptions = {},
+): Promise<TranscriptDigest> {
+  const key = createHash("sha256")
+    .update(text)
+    .update(words && words.length > 0 ? JSON.stringify(words) : "")
+    .digest("hex");
+
+  let digest = digestCache.get(key);
+  if (!digest) {
+    // Built without any one caller's signal, so a caller that gives up
+    // doesn't fail the digest for the others waiting on it
+    digest = buildDigest(text, words, { cache: options.cache });
+    digestCache.set(key, digest);
+    // Failed digests are retried next time
+    digest.catch(() => digestCache.delete(key));
+    if (digestCache.size > MAX_CACHED_DIGESTS) {
+      digestCache.delete(digestCache.keys().next().value!);
+    }
+  }
+  return untilAborted(digest, options.signal);
+}
+
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new Error("Request was aborted"));
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new Error("Request was aborted"));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+// Transcript text for a content prompt: the transcript itself, or its digest
+// when it is too long
+export async function contentSource(
+  text: string,
+  options: DigestOptions = {},
+): Promise<string> {
+  if (!needsDigest(text)) return text;
+  return (await digestTranscript(text, undefined, options)).text;
+}
+
+// Word timings around each candidate moment (falling back to quotes), so clip
+// boundaries can still be placed on exact words without the full timing list
+export function momentTimings(words: TimedWord[], digest: TranscriptDigest): string {
+  const windows = digest.parts.flatMap((part) =>
+    part.moments.length > 0
+      ? part.moments.map((moment) => ({
+          label: moment.title,
+          start: moment.startTime,
+          end: moment.endTime,
+        }))
+      : part.quotes
+          .filter((quote) => quote.time !== undefined)
+          .map((quote) => ({ label: quote.text.slice(0, 60), start: quote.time!, end: quote.time! + 30 })),
+  );
+
+  return windows
+    .map((window) => {
+      const around = words.filter(
+        (w) =>
+          w.start >= window.start - MOMENT_CONTEXT_SECONDS &&
+          w.end <= window.end + MOMENT_CONTEXT_SECONDS,
+      );
+      if (around.length === 0) return "";
+      return `[${window.label}] ${around.map((w) => `${w.word}(${w.start.toFixed(1)}s)`).join(" ")}`;
+    })
+    .filter(Boolean)
+    .join("\n");
+}
@@ -0,0 +1,149 @@
+import { z } from "zod";
+import type { WordTiming } from "./transcription";
+import { toTurns, type Speaker, type SpeakerSpan, type SpeakerTurn } from "./diarization";
+
+// Word-level transcript corrections. Edits address words by position in the
+// transcript as it stands when the edit is applied, so a batch is applied in
+// order. Timings are always kept: a corrected word keeps its times, merged
+// words span both, and split words share the original's time in proportion
+// to their length. Speakers are tracked per word so merges and splits keep
+// turns intact.
+
+export const transcriptEditSchema = z.discriminatedUnion("op", [
+  // Correct a misheard word
+  z.object({
+    op: z.literal("replace"),
+    position: z.number().int().min(0),
+    word: z.string().trim().min(1),
+  }),
+  // Join a word with the one after it ("Lin" "Kedin" -> "LinkedIn")
+  z.object({
+    op: z.literal("merge"),
+    position: z.number().int().min(0),
+    word: z.string().trim().min(1).optional(), // defaults to both joined
+  }),
+  // Break a word into several ("gotomarket" -> "go-to" "market")
+  z.object({
+    op: z.literal("split"),
+    position: z.number().int().min(0),
+    words: z.array(z.string().trim().min(1)).min(2),
+  }),
+  // Give a run of words (inclusive) to the other speaker
+  z.object({
+    op: z.literal("speaker"),
+    from: z.number().int().min(0),
+    to: z.number().int().min(0),
+    speaker: z.enum(["interviewer", "guest"]),
+  }),
+]);
+
+export const transcriptEditsSchema = z.object({
+  edits: z.array(transcriptEditSchema).min(1).max(500),
+});
+
+export type TranscriptEdit = z.infer<typeof transcriptEditSchema>;
+
+export class TranscriptEditError extends Error {}
+
+export interface EditedTranscript {
+  words: WordTiming[];
+  speakers: SpeakerTurn[]; // empty when the transcript has no speakers
+}
+
+function checkPosition(words: WordTiming[], position: number) {
+  if (position >= words.length) {
+    throw new TranscriptEditError(
+      `Word ${position} does not exist (the transcript has ${words.length} words)`,
+    );
+  }
+}
+
+export function applyTranscriptEdits(
+  original: WordTiming[],
+  segments: SpeakerSpan[],
+  edits: TranscriptEdit[],
+): EditedTranscript {
+  const words = original.map((word) => ({ ...word }));
+  const hasSpeakers = segments.length > 0;
+  const speakers: Speaker[] = words.map(() => "guest");
+  for (const segment of segments) {
+    for (let i = segment.startPosition; i <= segment.endPosition && i < words.length; i++) {
+      speakers[i] = segment.speaker as Speaker;
+    }
+  }
+
+  for (const edit of edits) {
+    switch (edit.op) {
+      case "replace":
+        checkPosition(words, edit.position);
+        words[edit.position].word = edit.word;
+        break;
+
+      case "merge": {
+        checkPosition(words, edit.position + 1);
+        const [first, second] = words.slice(edit.position, edit.position + 2);
+        words.splice(edit.position, 2, {
+          word: edit.word ?? `${first.word.trim()}${second.word.trim()}`,
+          start: first.start,
+          end: second.end,
+        });
+        speakers.splice(edit.position + 1, 1);
+        break;
+      }
+
+      case "split": {
+        checkPosition(words, edit.position);
+        const { start, end } = words[edit.position];
+        const totalLength = edit.words.reduce((sum, word) => sum + word.length, 0);
+        let cursor = start;
+        const parts = edit.words.map((word, i) => {
+          const partEnd =
+            i === edit.words.length - 1
+              ? end
+              : cursor + ((end - start) * word.length) / totalLength;
+          const part = { word, start: cursor, end: partEnd };
+          cursor = partEnd;
+          return part;
+        });
+        words.splice(edit.position, 1, ...parts);
+        speakers.splice(edit.position, 1, ...parts.map(() => speakers[edit.position]));
+        break;
+      }
+
+      case "speaker":
+        if (edit.to < edit.from) {
+          throw new TranscriptEditError("Speaker edits need from <= to");
+        }
+        checkPosition(words, edit.to);
+        for (let i = edit.from; i <= edit.to; i++) speakers[i] = edit.speaker;
+        break;
+    }
+  }
+
+  const relabelled = edits.some((edit) => edit.op === "speaker");
+  return {
+    words,
+    speakers: hasSpeakers || relabelled ? toTurns(words, speakers, "edited") : [],
+  };
+}
+
+// Transcript text rebuilt from corrected words: a labelled paragraph per
+// turn when speakers are known, otherwise the words in order
+export function transcriptText(
+  words: WordTiming[],
+  speakers: Array<Pick<SpeakerSpan, "speaker" | "startPosition" | "endPosition">>,
+): string {
+  if (speakers.length === 0) {
+    return words.map((w) => w.word.trim()).join(" ");
+  }
+  return speakers
+    .map((turn) => {
+      const label = turn.speaker === "guest" ? "Guest" : "Interviewer";
+      const text = words
+        .slice(turn.startPosition, turn.endPosition + 1)
+        .map((w) => w.word.trim())
+        .join(" ");
+      return `${label}: ${text}`;
+    })
+    .join("\n\n");
+}
@@ -0,0 +1,60 @@
+import type { TranscriptWord } from "@shared/schema";
+import type { WordTiming } from "./transcription";
+
+export interface TranscriptSearchMatch {
+  position: number; // index of the first matched word
+  startTime: number;
+  endTime: number;
+  text: string; // the matched words as spoken
+  context: string; // surrounding words for display
+}
+
+// Convert stored rows back into the { word, start, end } shape Whisper returns
+export function toWordTimings(rows: TranscriptWord[]): WordTiming[] {
+  return rows.map((row) => ({
+    word: row.word,
+    start: row.startTime,
+    end: row.endTime,
+  }));
+}
+
+export function wordsDuration(words: WordTiming[]): number {
+  return words.length > 0 ? words[words.length - 1].end : 0;
+}
+
+function normalizeToken(token: string): string {
+  return token.toLowerCase().replace(/[^a-z0-9']+/g, "");
+}
+
+// Case- and punctuation-insensitive phrase search over word timings
+export function searchTranscript(
+  words: WordTiming[],
+  query: string,
+  contextWords: number = 8,
+): TranscriptSearchMatch[] {
+  const needle = query.split(/\s+/).map(normalizeToken).filter(Boolean);
+  if (needle.length === 0) return [];
+
+  const haystack = words.map((w) => normalizeToken(w.word));
+  const matches: TranscriptSearchMatch[] = [];
+
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (!needle.every((token, offset) => haystack[i + offset] === token)) {
+      continue;
+    }
+
+    const last = i + needle.length - 1;
+    matches.push({
+      position: i,
+      startTime: words[i].start,
+      endTime: words[last].end,
+      text: words.slice(i, last + 1).map((w) => w.word.trim()).join(" "),
+      context: words
+        .slice(Math.max(0, i - contextWords), last + 1 + contextWords)
+        .map((w) => w.word.trim())
+        .join(" "),
+    });
+  }
+
+  return matches;
+}
@@ -0,0 +1,278 @@
+import fs from "fs";
+import path from "path";
+import { OpenAIWhisperProvider } from "./openai";
+import { convertToWav16k, extractAudioFromVideo, getAudioDuration } from "./audio";
+import { usageMeter } from "./usage";
+
+export interface WordTiming {
+  word: string;
+  start: number; // seconds
+  end: number; // seconds
+}
+
+export interface TranscriptionResult {
+  text: string;
+  duration: number;
+  words?: WordTiming[];
+}
+
+export interface TranscribeOptions {
+  prompt?: string; // vocabulary hint, for backends that accept one
+}
+
+export interface ITranscriptionProvider {
+  readonly name: string;
+  readonly model: string;
+  // filename is the caller's original name for the audio, used for logging
+  // and by the fixture provider to pick a recording
+  transcribe(
+    audioPath: string,
+    filename: string,
+    options?: TranscribeOptions,
+  ): Promise<TranscriptionResult>;
+}
+
+// Runs a local whisper.cpp build. WHISPER_CPP_BIN is the CLI binary
+// (whisper-cli, or main in older builds) and WHISPER_CPP_MODEL the ggml model.
+export class LocalWhisperProvider implements ITranscriptionProvider {
+  readonly name = "whisper-cpp";
+  readonly model: string;
+
+  constructor(
+    private binaryPath: string,
+    private modelPath: string,
+    private language: string = "en",
+  ) {
+    this.model = path.basename(modelPath);
+  }
+
+  async transcribe(
+    audioPath: string,
+    filename: string,
+    options: TranscribeOptions = {},
+  ): Promise<TranscriptionResult> {
+    const { spawn } = await import("child_process");
+
+    const base = path.join("/tmp", `whisper_${Date.now()}`);
+    const wavPath = `${base}.wav`;
+    const jsonPath = `${base}.json`;
+
+    try {
+      await convertToWav16k(audioPath, wavPath);
+      const audioDuration = await getAudioDuration(wavPath);
+
+      console.log(`Transcribing ${filename} locally with whisper.cpp (${audioDuration.toFixed(1)}s)`);
+
+      await new Promise<void>((resolve, reject) => {
+        // -ml 1 -sow emits one segment per word, which gives us word timings
+        const whisper = spawn(this.binaryPath, [
+          "-m", this.modelPath,
+          "-f", wavPath,
+          "-l", this.language,
+          "-ml", "1",
+          "-sow",
+          "-oj",
+          "-of", base,
+          ...(options.prompt ? ["--prompt", options.prompt] : []),
+        ]);
+
+        let errorOutput = "";
+        whisper.stderr.on("data", (data) => {
+          errorOutput += data.toString();
+        });
+
+        whisper.on("close", (code) => {
+          if (code === 0) {
+            resolve();
+          } else {
+            reject(new Error(`whisper.cpp failed with code ${code}: ${errorOutput}`));
+          }
+        });
+
+        whisper.on("error", reject);
+      });
+
+      const output = JSON.parse(fs.readFileSync(jsonPath, "utf-8")) as {
+        transcription?: Array<{
+          offsets: { from: number; to: number }; // milliseconds
+          text: string;
+        }>;
+      };
+
+      const words: WordTiming[] = (output.transcription || [])
+        .filter((segment) => segment.text.trim().length > 0)
+        .map((segment) => ({
+          word: segment.text.trim(),
+          start: segment.offsets.from / 1000,
+          end: segment.offsets.to / 1000,
+        }));
+
+      return {
+        text: words.map((w) => w.word).join(" "),
+        duration: audioDuration || (words.length > 0 ? words[words.length - 1].end : 0),
+        words,
+      };
+    } finally {
+      for (const file of [wavPath, jsonPath]) {
+        if (fs.existsSync(file)) fs.unlinkSync(file);
+      }
+    }
+  }
+}
+
+// Replays stored word-timing JSON instead of transcribing. TRANSCRIPTION_FIXTURE
+// is either a single JSON file or a directory holding `<name>.json` files
+// (matched on the uploaded file's base name) and a `default.json` fallback.
+// The JSON has Whisper's verbose_json shape: { text?, duration?, words }.
+export class FixtureTranscriptionProvider implements ITranscriptionProvider {
+  readonly name = "fixture";
+  readonly model = "fixture";
+
+  constructor(private fixturePath: string) {}
+
+  async transcribe(_audioPath: string, filename: string): Promise<TranscriptionResult> {
+    const fixtureFile = this.resolveFixture(filename);
+    console.log(`Replaying transcription fixture ${fixtureFile} for ${filename}`);
+
+    const fixture = JSON.parse(fs.readFileSync(fixtureFile, "utf-8")) as {
+      text?: string;
+      duration?: number;
+      words?: WordTiming[];
+    };
+
+    const words = (fixture.words || []).map((w) => ({
+      word: w.word,
+      start: Number(w.start),
+      end: Number(w.end),
+    }));
+
+    return {
+      text: fixture.text ?? words.map((w) => w.word.trim()).join(" "),
+      duration: fixture.duration ?? (words.length > 0 ? words[words.length - 1].end : 0),
+      words,
+    };
+  }
+
+  private resolveFixture(filename: string): string {
+    if (!fs.statSync(this.fixturePath).isDirectory()) {
+      return this.fixturePath;
+    }
+
+    const candidates = [
+      `${path.parse(filename).name}.json`,
+      "default.json",
+    ].map((name) => path.join(this.fixturePath, name));
+
+    const match = candidates.find((candidate) => fs.existsSync(candidate));
+    if (!match) {
+      throw new Error(`No transcription fixture found for ${filename} in ${this.fixturePath}`);
+    }
+    return match;
+  }
+}
+
+// TRANSCRIPTION_PROVIDER selects the backend: "openai" (default),
+// "whisper-cpp" or "fixture".
+export function createTranscriptionProvider(
+  env: NodeJS.ProcessEnv = process.env,
+): ITranscriptionProvider {
+  const provider = (env.TRANSCRIPTION_PROVIDER || "openai").toLowerCase();
+
+  switch (provider) {
+    case "openai":
+      return new OpenAIWhisperProvider();
+    case "whisper-cpp":
+      if (!env.WHISPER_CPP_MODEL) {
+        throw new Error(
+          "WHISPER_CPP_MODEL must be set when TRANSCRIPTION_PROVIDER is whisper-cpp",
+        );
+      }
+      return new LocalWhisperProvider(
+        env.WHISPER_CPP_BIN || "whisper-cli",
+        env.WHISPER_CPP_MODEL,
+      );
+    case "fixture":
+      if (!env.TRANSCRIPTION_FIXTURE) {
+        throw new Error(
+          "TRANSCRIPTION_FIXTURE must be set when TRANSCRIPTION_PROVIDER is fixture",
+        );
+      }
+      return new FixtureTranscriptionProvider(env.TRANSCRIPTION_FIXTURE);
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER: ${provider}`);
+  }
+}
+
+// Records the audio minutes of every transcription against the current
+// session or upload (see server/usage.ts)
+export class MeteredTranscriber implements ITranscriptionProvider {
+  constructor(private provider: ITranscriptionProvider) {}
+
+  get name() {
+    return this.provider.name;
+  }
+
+  get model() {
+    return this.provider.model;
+  }
+
+  async transcribe(
+    audioPath: string,
+    filename: string,
+    options?: TranscribeOptions,
+  ): Promise<TranscriptionResult> {
+    const result = await this.provider.transcribe(audioPath, filename, options);
+    await usageMeter.recordTranscription(this.name, this.model, result.duration);
+    return result;
+  }
+}
+
+export const transcriber: ITranscriptionProvider = new MeteredTranscriber(
+  createTranscriptionProvider(),
+);
+
+// Transcribe an in-memory audio buffer with the configured provider
+export async function transcribeAudioBuffer(
+  audioBuffer: Buffer,
+  filename: string,
+  options?: TranscribeOptions,
+): Promise<TranscriptionResult> {
+  // Create a temporary file from the buffer
+  const tempFilePath = path.join("/tmp", `temp_${Date.now()}_${path.basename(filename)}`);
+
+  try {
+    fs.writeFileSync(tempFilePath, audioBuffer);
+    return await transcriber.transcribe(tempFilePath, filename, options);
+  } finally {
+    // Clean up temp file
+    if (fs.existsSync(tempFilePath)) {
+      fs.unlinkSync(tempFilePath);
+    }
+  }
+}
+
+// Direct file transcription method with automatic audio extraction
+export async function transcribeAudioFile(
+  filePath: string,
+): Promise<TranscriptionResult> {
+  // Create a temporary audio file path
+  const audioPath = path.join(path.dirname(filePath), `audio_${Date.now()}.mp3`);
+
+  try {
+    // First, extract audio from video file and convert to MP3 (compatible format)
+    console.log("Extracting audio from video file...");
+    await extractAudioFromVideo(filePath, audioPath);
+
+    return await transcriber.transcribe(audioPath, path.basename(filePath));
+  } catch (error) {
+    console.error("Transcription error:", error);
+    throw new Error(
+      `Failed to transcribe audio: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  } finally {
+    // Clean up temporary audio file
+    if (fs.existsSync(audioPath)) {
+      fs.unlinkSync(audioPath);
+    }
+  }
+}
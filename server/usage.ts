@@ -0,0 +1,189 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { storage } from "./storage";
+import type { InsertUsageEvent, UsageEvent } from "@shared/schema";
+
+// Token and audio-minute accounting. Every LLM completion and transcription
+// is recorded as a usage event with its cost, attributed to whichever session
+// or upload the surrounding request or job is working on. Attribution travels
+// with the async call chain, so helpers deep in generation (digests, repair
+// retries) don't need the session passed down to them.
+
+export interface UsageOwner {
+  sessionId?: string | null;
+  uploadId?: string | null;
+}
+
+interface UsageState extends UsageOwner {
+  // Events recorded before the owner was known (e.g. content generated before
+  // its upload record is created)
+  unattributed: string[];
+}
+
+// USD per million tokens. LLM_PRICE_INPUT / LLM_PRICE_OUTPUT price any other
+// model, e.g. a hosted OpenAI-compatible one.
+const TOKEN_PRICES: Record<string, { input: number; output: number }> = {
+  "claude-sonnet-4-20250514": { input: 3, output: 15 },
+  "claude-3-7-sonnet-20250219": { input: 3, output: 15 },
+  "claude-3-5-sonnet-20241022": { input: 3, output: 15 },
+  "claude-3-5-haiku-20241022": { input: 0.8, output: 4 },
+  "claude-opus-4-20250514": { input: 15, output: 75 },
+};
+
+// USD per audio minute, by transcription provider
+const TRANSCRIPTION_PRICES: Record<string, number> = {
+  openai: 0.006,
+  "whisper-cpp": 0,
+  fixture: 0,
+};
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  audioMinutes: number;
+  costUsd: number;
+  unpricedCalls: number; // calls to models without a known price
+}
+
+export interface UsageReport extends UsageTotals {
+  byTask: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+}
+
+function tokenCost(provider: string, model: string, inputTokens: number, outputTokens: number) {
+  if (provider === "mock") return 0;
+  const envPrice =
+    process.env.LLM_PRICE_INPUT || process.env.LLM_PRICE_OUTPUT
+      ? {
+          input: parseFloat(process.env.LLM_PRICE_INPUT || "0"),
+          output: parseFloat(process.env.LLM_PRICE_OUTPUT || "0"),
+        }
+      : undefined;
+  const price = TOKEN_PRICES[model] ?? envPrice;
+  if (!price) return null;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    audioMinutes: 0,
+    costUsd: 0,
+    unpricedCalls: 0,
+  };
+}
+
+function addEvent(totals: UsageTotals, event: UsageEvent) {
+  totals.calls++;
+  totals.inputTokens += event.inputTokens;
+  totals.outputTokens += event.outputTokens;
+  totals.audioMinutes += event.audioSeconds / 60;
+  if (event.costUsd === null) {
+    totals.unpricedCalls++;
+  } else {
+    totals.costUsd += event.costUsd;
+  }
+}
+
+export class UsageMeter {
+  private context = new AsyncLocalStorage<UsageState>();
+
+  // Attribute everything fn does (including async work it starts) to owner
+  run<T>(owner: UsageOwner, fn: () => T): T {
+    return this.context.run({ ...owner, unattributed: [] }, fn);
+  }
+
+  // Attribute the rest of the current request or job to owner. Events it
+  // already recorded without an owner are assigned to it too.
+  async attribute(owner: UsageOwner) {
+    const state = this.context.getStore();
+    if (!state) {
+      console.warn("Usage attributed outside a request or job; ignoring");
+      return;
+    }
+
+    Object.assign(state, owner);
+    const ids = state.unattributed.splice(0);
+    await this.safely("assign", () =>
+      storage.assignUsageEvents(ids, {
+        sessionId: state.sessionId ?? undefined,
+        uploadId: state.uploadId ?? undefined,
+      }),
+    );
+  }
+
+  async recordCompletion(
+    task: string,
+    completion: {
+      provider: string;
+      model: string;
+      usage: { inputTokens: number; outputTokens: number };
+    },
+  ) {
+    const { inputTokens, outputTokens } = completion.usage;
+    await this.record({
+      kind: "llm",
+      provider: completion.provider,
+      model: completion.model,
+      task,
+      inputTokens,
+      outputTokens,
+      audioSeconds: 0,
+      costUsd: tokenCost(completion.provider, completion.model, inputTokens, outputTokens),
+    });
+  }
+
+  async recordTranscription(provider: string, model: string, audioSeconds: number) {
+    const pricePerMinute = TRANSCRIPTION_PRICES[provider];
+    await this.record({
+      kind: "transcription",
+      provider,
+      model,
+      task: "transcription",
+      inputTokens: 0,
+      outputTokens: 0,
+      audioSeconds,
+      costUsd: pricePerMinute === undefined ? null : (audioSeconds / 60) * pricePerMinute,
+    });
+  }
+
+  async report(owner: { sessionId?: string; uploadId?: string }): Promise<UsageReport> {
+    const events = await storage.getUsageEvents(owner);
+    const report: UsageReport = { ...emptyTotals(), byTask: {}, byModel: {} };
+
+    for (const event of events) {
+      addEvent(report, event);
+      addEvent((report.byTask[event.task] ??= emptyTotals()), event);
+      addEvent((report.byModel[`${event.provider}/${event.model}`] ??= emptyTotals()), event);
+    }
+    return report;
+  }
+
+  private async record(event: Omit<InsertUsageEvent, "sessionId" | "uploadId">) {
+    const state = this.context.getStore();
+    const saved = await this.safely("record", () =>
+      storage.createUsageEvent({
+        ...event,
+        sessionId: state?.sessionId ?? null,
+        uploadId: state?.uploadId ?? null,
+      }),
+    );
+    if (saved && state && !state.sessionId && !state.uploadId) {
+      state.unattributed.push(saved.id);
+    }
+  }
+
+  // Accounting must never fail the call it is measuring
+  private async safely<T>(action: string, run: () => Promise<T>): Promise<T | undefined> {
+    try {
+      return await run();
+    } catch (error) {
+      console.warn(`Usage ${action} failed:`, error);
+      return undefined;
+    }
+  }
+}
+
+export const usageMeter = new UsageMeter();
@@ -1,6 +1,20 @@
 import ffmpeg from 'fluent-ffmpeg';
 import fs from 'fs';
 import path from 'path';
+import type { CaptionStyle, EditDecisionList, SilenceMap } from '@shared/schema';
+import type { WordTiming } from './transcription';
+import { buildAssSubtitles } from './captions';
+import { buildEditDecisionList, editDecisionList, type TightenOptions } from './clip-tightening';
+import { silenceTrimCuts } from './silence-map';
+import { wordsForEdit } from './subtitles';
+import {
+  findCenterOfInterest,
+  cropRegion,
+  reframeFilter,
+  type FramingMode,
+  type RenditionProfile,
+} from './reframe';
+import { blobStorage } from './blob-storage';
 
 export interface ClipRequest {
   title: string;
@@ -11,41 +25,215 @@ export interface ClipRequest {
 }
 
 export interface ClipResult extends ClipRequest {
-  videoPath: string;
+  // Position of the request in the clips passed in; failed and invalid
+  // clips are skipped, so results don't line up with the requests
+  sourceIndex: number;
+  videoPath: string; // storage key
   duration: number;
+  edits?: EditDecisionList; // set when the clip was tightened or trimmed
 }
 
+export interface ClipRenderOptions {
+  // Burn word-by-word captions into each clip
+  captions?: {
+    words: WordTiming[];
+    style: CaptionStyle;
+  };
+  // Reframe into a platform profile and enforce its maximum duration
+  rendition?: {
+    profile: RenditionProfile;
+    framing: FramingMode;
+  };
+  // Cut fillers, false starts and long pauses found in the word timings,
+  // joining what is kept with crossfades
+  tighten?: {
+    words: WordTiming[];
+    options: Partial<TightenOptions>;
+  };
+  // Trim silence from the head and tail of each clip
+  trimSilence?: SilenceMap;
+  // Overall progress across all clips, 0-100
+  onProgress?: (percent: number) => void;
+}
+
+// Longest clip cut from a source. Suggested clips are already held to
+// CLIP_MAX_SECONDS (clip-boundaries.ts); this guards hand-entered ones.
+const MAX_CLIP_SECONDS = 300;
+
+// Paths inside an ffmpeg filter argument need ':' and '\' escaped
+function escapeFilterPath(filePath: string): string {
+  return filePath.replace(/\\/g, '\\\\').replace(/:/g, '\\:').replace(/'/g, "\\'");
+}
+
+// filter_complex for a tightened clip: each kept segment is trimmed out of
+// the (already seeked) input and joined to the previous one with a crossfade,
+// or a plain concat when the crossfade is 0. videoFilters run on the result.
+function tightenedFilterGraph(
+  edits: EditDecisionList,
+  videoFilters: string[],
+  fps: number,
+  hasAudio: boolean
+): string {
+  const graph: string[] = [];
+  const { segments, crossfade } = edits;
+
+  segments.forEach((segment, k) => {
+    const start = (segment.start - edits.sourceStart).toFixed(3);
+    const end = (segment.end - edits.sourceStart).toFixed(3);
+    // xfade needs matching frame rates and timebases on both inputs
+    graph.push(`[0:v]trim=start=${start}:end=${end},setpts=PTS-STARTPTS,fps=${fps},settb=AVTB[v${k}]`);
+    if (hasAudio) {
+      graph.push(`[0:a]atrim=start=${start}:end=${end},asetpts=PTS-STARTPTS[a${k}]`);
+    }
+  });
+
+  let video = 'v0';
+  let audio = 'a0';
+  for (let k = 1; k < segments.length; k++) {
+    if (crossfade > 0) {
+      graph.push(
+        `[${video}][v${k}]xfade=transition=fade:duration=${crossfade}:offset=${segments[k].outputStart.toFixed(3)}[vx${k}]`
+      );
+      if (hasAudio) graph.push(`[${audio}][a${k}]acrossfade=d=${crossfade}[ax${k}]`);
+    } else {
+      graph.push(`[${video}][v${k}]concat=n=2:v=1:a=0[vx${k}]`);
+      if (hasAudio) graph.push(`[${audio}][a${k}]concat=n=2:v=0:a=1[ax${k}]`);
+    }
+    video = `vx${k}`;
+    audio = `ax${k}`;
+  }
+
+  graph.push(`[${video}]${videoFilters.length > 0 ? videoFilters.join(',') : 'null'}[vout]`);
+  if (hasAudio) graph.push(`[${audio}]anull[aout]`);
+  return graph.join(';');
+}
+
+// Edits for one clip: silence trimmed from its ends, then fillers and pauses
+// cut from what is left. Undefined when there is nothing to cut.
+export function planClipEdits(
+  clip: { startTime: number; endTime: number },
+  options: Pick<ClipRenderOptions, 'tighten' | 'trimSilence'>
+): EditDecisionList | undefined {
+  const { trimmed, head, tail } = options.trimSilence
+    ? silenceTrimCuts(clip, options.trimSilence)
+    : { trimmed: clip, head: undefined, tail: undefined };
+  const tightened = options.tighten
+    ? buildEditDecisionList(options.tighten.words, trimmed, options.tighten.options)
+    : undefined;
+
+  const cuts = [
+    ...(head ? [head] : []),
+    ...(tightened ? tightened.cuts : []),
+    ...(tail ? [tail] : []),
+  ];
+  if (cuts.length === 0) return undefined;
+  return editDecisionList(clip, cuts, tightened ? tightened.crossfade : 0);
+}
+
+// Cut clips from a local video file. Each clip is rendered to /tmp and then
+// stored under outputPrefix; results carry the storage key.
 export async function createVideoClips(
   inputVideoPath: string, 
   clips: ClipRequest[], 
-  outputDir: string = 'uploads/clips'
+  outputPrefix: string = 'clips',
+  options: ClipRenderOptions = {}
 ): Promise<ClipResult[]> {
-  // Ensure output directory exists
-  if (!fs.existsSync(outputDir)) {
-    fs.mkdirSync(outputDir, { recursive: true });
-  }
+  const { captions, rendition, tighten, trimSilence } = options;
+  const sourceSize = captions || rendition || tighten || trimSilence
+    ? await getVideoInfo(inputVideoPath)
+    : { width: 0, height: 0, fps: 30, hasAudio: true };
+  // Caption layout is scaled to the output frame
+  const outputSize = rendition ? rendition.profile : sourceSize;
 
   const results: ClipResult[] = [];
   
   for (let i = 0; i < clips.length; i++) {
-    const clip = clips[i];
-    const duration = clip.endTime - clip.startTime;
+    let clip = clips[i];
+    let duration = clip.endTime - clip.startTime;
+
+    if (rendition && duration > rendition.profile.maxDuration) {
+      console.log(
+        `Trimming clip ${i} from ${duration}s to ${rendition.profile.label}'s ${rendition.profile.maxDuration}s limit`
+      );
+      duration = rendition.profile.maxDuration;
+      clip = { ...clip, endTime: clip.startTime + duration };
+    }
     
-    // Skip clips that are too short or invalid
-    if (duration <= 0 || duration > 300) {
+    if (duration > MAX_CLIP_SECONDS) {
+      console.warn(
+        `Trimming clip ${i} from ${duration}s to the ${MAX_CLIP_SECONDS}s limit`
+      );
+      duration = MAX_CLIP_SECONDS;
+      clip = { ...clip, endTime: clip.startTime + duration };
+    }
+
+    // Skip clips that are empty or inverted
+    if (duration <= 0) {
       console.warn(`Skipping invalid clip ${i}: duration ${duration}s`);
       continue;
     }
 
+    // Only worth the filter graph when something is actually cut
+    const edits = planClipEdits(clip, { tighten, trimSilence });
+    if (edits) {
+      console.log(
+        `Editing clip ${i}: ${edits.cuts.length} cuts, ${edits.originalDuration}s -> ${edits.editedDuration}s`
+      );
+    }
+
     const timestamp = Date.now();
     const fileName = `clip_${timestamp}_${i}.mp4`;
-    const outputPath = path.join(outputDir, fileName);
+    const outputPath = path.join('/tmp', fileName);
+    const outputKey = `${outputPrefix}/${fileName}`;
+    const captionsPath = captions
+      ? path.join('/tmp', `captions_${timestamp}_${i}.ass`)
+      : null;
 
     try {
+      const filters: string[] = [];
+
+      if (rendition) {
+        const crop = rendition.framing === 'crop'
+          ? await findCenterOfInterest(
+              inputVideoPath,
+              sourceSize,
+              rendition.profile,
+              clip.startTime,
+              duration
+            ).then((center) => cropRegion(sourceSize, rendition.profile, center.x, center.y))
+          : undefined;
+        filters.push(reframeFilter(rendition.profile, rendition.framing, crop));
+      }
+
+      if (captions && captionsPath) {
+        fs.writeFileSync(
+          captionsPath,
+          edits
+            ? buildAssSubtitles(wordsForEdit(captions.words, edits), captions.style, outputSize)
+            : buildAssSubtitles(captions.words, captions.style, outputSize, clip)
+        );
+        filters.push(`subtitles='${escapeFilterPath(captionsPath)}'`);
+      }
+
       await new Promise<void>((resolve, reject) => {
-        ffmpeg(inputVideoPath)
-          .setStartTime(clip.startTime)
-          .setDuration(duration)
+        const command = ffmpeg(inputVideoPath).setStartTime(clip.startTime);
+
+        if (edits) {
+          // Read only the clip's range; the segments are trimmed from it
+          command
+            .inputOptions(['-t', String(duration)])
+            .complexFilter(
+              tightenedFilterGraph(edits, filters, sourceSize.fps, sourceSize.hasAudio),
+              sourceSize.hasAudio ? ['vout', 'aout'] : ['vout']
+            );
+        } else {
+          command.setDuration(duration);
+          if (filters.length > 0) {
+            command.videoFilters(filters.join(','));
+          }
+        }
+
+        command
           .output(outputPath)
           .videoCodec('libx264')
           .audioCodec('aac')
@@ -62,6 +250,9 @@ export async function createVideoClips(
           .on('progress', (progress) => {
             if (progress.percent) {
               console.log(`Clip ${i+1} progress: ${Math.round(progress.percent)}%`);
+              options.onProgress?.(
+                ((i + Math.min(100, progress.percent) / 100) / clips.length) * 100
+              );
             }
           })
           .on('end', () => {
@@ -75,26 +266,111 @@ export async function createVideoClips(
           .run();
       });
 
+      await blobStorage.putFile(outputKey, outputPath, 'video/mp4');
+
       results.push({
         ...clip,
-        videoPath: outputPath,
-        duration: duration
+        sourceIndex: i,
+        videoPath: outputKey,
+        duration: edits ? edits.editedDuration : duration,
+        ...(edits ? { edits } : {})
       });
 
     } catch (error) {
       console.error(`Failed to create clip ${i+1}:`, error);
       // Continue with other clips even if one fails
+    } finally {
+      if (captionsPath && fs.existsSync(captionsPath)) {
+        fs.unlinkSync(captionsPath);
+      }
+      // Only left behind when ffmpeg or the upload to storage failed
+      if (fs.existsSync(outputPath)) {
+        fs.unlinkSync(outputPath);
+      }
     }
   }
 
   return results;
 }
 
+// Render a long edit (the jump-cut of a whole interview) in one pass. Rather
+// than trimming each segment out as tightenedFilterGraph does, which would
+// buffer the rest of the recording at every join, frames outside the kept
+// segments are dropped with select and the timestamps rewritten. The filter
+// graph goes through a script file since it can outgrow a command argument.
+export async function renderEditDecisionList(
+  inputVideoPath: string,
+  edits: EditDecisionList,
+  outputPrefix: string,
+  onProgress?: (percent: number) => void
+): Promise<{ videoPath: string; duration: number }> {
+  const { fps, hasAudio } = await getVideoInfo(inputVideoPath);
+  const keep = edits.segments
+    .map((segment) => `between(t,${segment.start.toFixed(3)},${segment.end.toFixed(3)})`)
+    .join('+');
+
+  const graph = [`[0:v]fps=${fps},select='${keep}',setpts=N/FRAME_RATE/TB[vout]`];
+  if (hasAudio) graph.push(`[0:a]aselect='${keep}',asetpts=N/SR/TB[aout]`);
+
+  const timestamp = Date.now();
+  const fileName = `edit_${timestamp}.mp4`;
+  const outputPath = path.join('/tmp', fileName);
+  const scriptPath = path.join('/tmp', `edit_${timestamp}.filter`);
+  fs.writeFileSync(scriptPath, graph.join(';\n'));
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg(inputVideoPath)
+        .outputOptions([
+          '-filter_complex_script', scriptPath,
+          '-map', '[vout]',
+          ...(hasAudio ? ['-map', '[aout]'] : []),
+          '-movflags', 'faststart',
+          '-preset', 'fast',
+          '-crf', '23'
+        ])
+        .output(outputPath)
+        .videoCodec('libx264')
+        .audioCodec('aac')
+        .format('mp4')
+        .on('start', (commandLine) => {
+          console.log(`Rendering ${edits.segments.length} segments to ${fileName}`);
+          console.log('FFmpeg command:', commandLine);
+        })
+        .on('progress', (progress) => {
+          // percent is measured against the source, which is longer than
+          // the output; the output timemark is measured against the edit
+          const [hours, minutes, seconds] = String(progress.timemark || '0:0:0').split(':').map(Number);
+          const rendered = hours * 3600 + minutes * 60 + seconds;
+          if (rendered > 0 && edits.editedDuration > 0) {
+            onProgress?.(Math.min(100, (rendered / edits.editedDuration) * 100));
+          }
+        })
+        .on('end', () => resolve())
+        .on('error', (err) => {
+          console.error('Error rendering edit:', err);
+          reject(err);
+        })
+        .run();
+    });
+
+    const outputKey = `${outputPrefix}/${fileName}`;
+    await blobStorage.putFile(outputKey, outputPath, 'video/mp4');
+    return { videoPath: outputKey, duration: edits.editedDuration };
+  } finally {
+    for (const file of [scriptPath, outputPath]) {
+      if (fs.existsSync(file)) fs.unlinkSync(file);
+    }
+  }
+}
+
 export async function getVideoInfo(videoPath: string): Promise<{
   duration: number;
   width: number;
   height: number;
   format: string;
+  fps: number;
+  hasAudio: boolean;
 }> {
   return new Promise((resolve, reject) => {
     ffmpeg.ffprobe(videoPath, (err, metadata) => {
@@ -104,26 +380,29 @@ export async function getVideoInfo(videoPath: string): Promise<{
       }
 
       const videoStream = metadata.streams.find(stream => stream.codec_type === 'video');
-      
+      // "30000/1001"; browser recordings can report 0/0 or 1000/1
+      const [num, den] = (videoStream?.avg_frame_rate || '').split('/').map(Number);
+      const fps = den > 0 && num / den >= 1 && num / den <= 60 ? Math.round((num / den) * 100) / 100 : 30;
+
       resolve({
         duration: metadata.format.duration || 0,
         width: videoStream?.width || 0,
         height: videoStream?.height || 0,
-        format: metadata.format.format_name || 'unknown'
+        format: metadata.format.format_name || 'unknown',
+        fps,
+        hasAudio: metadata.streams.some(stream => stream.codec_type === 'audio')
       });
     });
   });
 }
 
-export function cleanupClips(clipPaths: string[]) {
-  clipPaths.forEach(clipPath => {
+export async function cleanupClips(clipKeys: string[]) {
+  for (const clipKey of clipKeys) {
     try {
-      if (fs.existsSync(clipPath)) {
-        fs.unlinkSync(clipPath);
-        console.log(`Cleaned up clip: ${clipPath}`);
-      }
+      await blobStorage.delete(clipKey);
+      console.log(`Cleaned up clip: ${clipKey}`);
     } catch (error) {
-      console.warn(`Failed to cleanup clip ${clipPath}:`, error);
+      console.warn(`Failed to cleanup clip ${clipKey}:`, error);
     }
-  });
+  }
 }
\ No newline at end of file
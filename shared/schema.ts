@@ -1,8 +1,43 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, jsonb, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, bigint, jsonb, timestamp, boolean, real, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Edit decision list for a clip rendered with fillers, false starts, long
+// pauses or silence cut out: the source ranges kept (in seconds), where each
+// starts in the rendered output, and what was removed between them
+export const editDecisionListSchema = z.object({
+  sourceStart: z.number(),
+  sourceEnd: z.number(),
+  segments: z.array(z.object({ start: z.number(), end: z.number(), outputStart: z.number() })),
+  cuts: z.array(z.object({
+    start: z.number(),
+    end: z.number(),
+    reason: z.enum(["filler", "false-start", "pause", "silence"]),
+    text: z.string().optional(),
+  })),
+  crossfade: z.number(), // seconds each join overlaps
+  originalDuration: z.number(),
+  editedDuration: z.number(),
+});
+
+// Silent stretches of a session's audio found by ffmpeg's silencedetect,
+// with the settings used to find them
+export const silenceMapSchema = z.object({
+  noiseDb: z.number(), // audio quieter than this counts as silence
+  minSilence: z.number(), // shortest silence reported, seconds
+  duration: z.number(),
+  silences: z.array(z.object({ start: z.number(), end: z.number() })),
+  analyzedAt: z.string(),
+});
+
+// The whole interview rendered with its silences cut out
+export const jumpCutSchema = z.object({
+  videoPath: z.string(), // storage key
+  edits: editDecisionListSchema,
+  renderedAt: z.string(),
+});
+
 export const sessions = pgTable("sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   title: text("title").notNull(),
@@ -13,6 +48,10 @@ export const sessions = pgTable("sessions", {
   targetDuration: varchar("target_duration").notNull().default("15-20 minutes"),
   videoUrl: text("video_url"),
   fullTranscript: text("full_transcript"), // complete transcript with timing
+  transcriptEditedAt: timestamp("transcript_edited_at"), // last word-level correction
+  silenceMap: jsonb("silence_map").$type<z.infer<typeof silenceMapSchema>>(),
+  jumpCut: jsonb("jump_cut").$type<z.infer<typeof jumpCutSchema>>(),
+  brandProfileId: varchar("brand_profile_id").references(() => brandProfiles.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -47,6 +86,7 @@ export const clips = pgTable("clips", {
   platform: varchar("platform").notNull(), // tiktok, instagram, youtube
   videoUrl: text("video_url"),
   videoPath: text("video_path"), // Path to the clipped video file
+  edits: jsonb("edits").$type<z.infer<typeof editDecisionListSchema>>(), // set when the file was rendered tightened
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -64,18 +104,201 @@ export const uploads = pgTable("uploads", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   originalName: text("original_name").notNull(), // Original file name
   objectPath: text("object_path").notNull(), // Path to stored file
-  fileSize: integer("file_size").notNull(), // File size in bytes
+  fileSize: bigint("file_size", { mode: "number" }).notNull(), // File size in bytes
   mimeType: varchar("mime_type").notNull(), // File MIME type
   transcript: text("transcript"), // Extracted transcript
-  status: varchar("status").notNull(), // processing status
+  status: varchar("status").notNull(), // uploading, uploaded, transcribing, transcription-failed, transcribed, content-generated
   createdAt: timestamp("created_at").defaultNow().notNull(),
   // Additional columns for enhanced functionality
   linkedinContentMarkdown: text("linkedin_content_markdown"), // Auto-generated markdown
   contentItems: jsonb("content_items"), // Generated LinkedIn content
   videoClips: jsonb("video_clips"), // Generated video clips
+  brandProfileId: varchar("brand_profile_id").references(() => brandProfiles.id, { onDelete: "set null" }),
+});
+
+// Word-level timings from transcription, owned by either a session or an upload
+export const transcriptWords = pgTable("transcript_words", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id, { onDelete: "cascade" }),
+  uploadId: varchar("upload_id").references(() => uploads.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(), // word index within the transcript
+  word: text("word").notNull(),
+  startTime: real("start_time").notNull(), // seconds
+  endTime: real("end_time").notNull(), // seconds
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("transcript_words_session_idx").on(table.sessionId, table.position),
+  index("transcript_words_upload_idx").on(table.uploadId, table.position),
+]);
+
+// Who is speaking when. Each segment covers a run of transcript words
+// (positions are inclusive) spoken by the interviewer or the guest.
+export const speakerSegments = pgTable("speaker_segments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id, { onDelete: "cascade" }),
+  uploadId: varchar("upload_id").references(() => uploads.id, { onDelete: "cascade" }),
+  speaker: varchar("speaker").notNull(), // interviewer, guest
+  startPosition: integer("start_position").notNull(), // first word index
+  endPosition: integer("end_position").notNull(), // last word index
+  startTime: real("start_time").notNull(), // seconds
+  endTime: real("end_time").notNull(), // seconds
+  source: varchar("source").notNull(), // conversations, audio, edited
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("speaker_segments_session_idx").on(table.sessionId, table.startPosition),
+  index("speaker_segments_upload_idx").on(table.uploadId, table.startPosition),
+]);
+
+// Names and terms transcription tends to get wrong. Terms without a session
+// form the workspace glossary and apply to every recording; a session's own
+// terms are added to them.
+export const glossaryTerms = pgTable("glossary_terms", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id, { onDelete: "cascade" }),
+  term: text("term").notNull(), // correct spelling, e.g. "LangChain"
+  aliases: jsonb("aliases").$type<string[]>().notNull().default([]), // misheard forms, e.g. "lang chain"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("glossary_terms_session_idx").on(table.sessionId),
+]);
+
+// Burned-in caption styling. Colours are #RRGGBB.
+export const captionStyleSchema = z.object({
+  fontName: z.string().min(1).default("Arial"),
+  fontSize: z.number().int().min(8).max(200).default(64), // at 1080p
+  primaryColor: z.string().regex(/^#[0-9a-fA-F]{6}$/).default("#FFFFFF"),
+  highlightColor: z.string().regex(/^#[0-9a-fA-F]{6}$/).default("#FFD400"),
+  outlineColor: z.string().regex(/^#[0-9a-fA-F]{6}$/).default("#000000"),
+  outlineWidth: z.number().min(0).max(20).default(3),
+  position: z.enum(["bottom", "middle", "top"]).default("bottom"),
+  marginV: z.number().int().min(0).max(1000).default(80),
+  maxWordsPerLine: z.number().int().min(1).max(12).default(4),
+  highlightWords: z.boolean().default(true), // word-by-word highlighting
+  uppercase: z.boolean().default(false),
+});
+
+export const captionPresets = pgTable("caption_presets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  style: jsonb("style").$type<z.infer<typeof captionStyleSchema>>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertSessionSchema = createInsertSchema(sessions).omit({
+// Brand voice used when writing posts and clip captions. Sessions and uploads
+// can each pick one; without one a neutral default voice is used.
+export const brandPerspectives = ["company", "personal", "third-person"] as const;
+export const emojiPolicies = ["none", "sparing", "allowed"] as const;
+
+export const brandProfiles = pgTable("brand_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  companyName: text("company_name"),
+  website: text("website"),
+  perspective: varchar("perspective").notNull().default("company"), // company, personal, third-person
+  tone: text("tone").notNull(), // e.g. "authoritative, educative and direct"
+  styleReference: text("style_reference"), // writer or account to emulate
+  bannedWords: jsonb("banned_words").$type<string[]>().notNull().default([]),
+  emojiPolicy: varchar("emoji_policy").notNull().default("none"), // none, sparing, allowed
+  ctaStyle: text("cta_style"), // how posts should close
+  examplePosts: jsonb("example_posts").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A clip re-rendered for a platform profile (e.g. 9:16 for TikTok). One clip
+// can have several renditions.
+export const clipRenditions = pgTable("clip_renditions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clipId: varchar("clip_id").notNull().references(() => clips.id, { onDelete: "cascade" }),
+  profile: varchar("profile").notNull(), // tiktok, reels, shorts, square, portrait
+  aspectRatio: varchar("aspect_ratio").notNull(), // 9:16, 1:1, 4:5
+  framing: varchar("framing").notNull(), // crop, blur
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  duration: real("duration").notNull(), // seconds, after the platform limit
+  videoPath: text("video_path").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("clip_renditions_clip_idx").on(table.clipId),
+]);
+
+// Background media processing (transcription, clip rendering). The worker in
+// server/jobs.ts claims queued rows and reports progress back onto them.
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: varchar("type").notNull(), // transcribe-upload, generate-upload-clips, ...
+  status: varchar("status").notNull().default("queued"), // queued, running, completed, failed
+  payload: jsonb("payload").notNull(),
+  result: jsonb("result"),
+  error: text("error"),
+  progress: integer("progress").notNull().default(0), // percent
+  message: text("message"), // current step, for display
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAfter: timestamp("run_after").defaultNow().notNull(), // retry backoff
+  sessionId: varchar("session_id").references(() => sessions.id, { onDelete: "cascade" }),
+  uploadId: varchar("upload_id").references(() => uploads.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("jobs_status_idx").on(table.status, table.runAfter),
+]);
+
+// Validated LLM output, content-addressed by what produced it: transcript,
+// prompt template version, brand voice and model. Generating the same content
+// again is answered from here instead of re-billing the prompt.
+export const llmCacheEntries = pgTable("llm_cache_entries", {
+  key: varchar("key").primaryKey(), // sha256 of the parts below
+  task: varchar("task").notNull(), // all-content, content, clips, digest
+  model: varchar("model").notNull(), // provider/model
+  promptVersion: integer("prompt_version").notNull(),
+  transcriptHash: varchar("transcript_hash").notNull(),
+  brandHash: varchar("brand_hash"),
+  output: jsonb("output").notNull(),
+  hits: integer("hits").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastHitAt: timestamp("last_hit_at"),
+});
+
+// One row per cacheable generation call, for hit/miss reporting per session
+// or upload
+export const llmCacheLookups = pgTable("llm_cache_lookups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: varchar("key").notNull(),
+  task: varchar("task").notNull(),
+  outcome: varchar("outcome").notNull(), // hit, miss, bypass (regenerate)
+  sessionId: varchar("session_id").references(() => sessions.id, { onDelete: "cascade" }),
+  uploadId: varchar("upload_id").references(() => uploads.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("llm_cache_lookups_session_idx").on(table.sessionId),
+  index("llm_cache_lookups_upload_idx").on(table.uploadId),
+]);
+
+// Metered model and transcription calls, attributed to the session or upload
+// they were made for, so the cost of processing each interview can be reported
+export const usageEvents = pgTable("usage_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  kind: varchar("kind").notNull(), // llm, transcription
+  provider: varchar("provider").notNull(),
+  model: varchar("model").notNull(),
+  task: varchar("task").notNull(), // LLM task, or "transcription"
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  audioSeconds: real("audio_seconds").notNull().default(0),
+  costUsd: real("cost_usd"), // null when the model's price is unknown
+  sessionId: varchar("session_id").references(() => sessions.id, { onDelete: "cascade" }),
+  uploadId: varchar("upload_id").references(() => uploads.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("usage_events_session_idx").on(table.sessionId),
+  index("usage_events_upload_idx").on(table.uploadId),
+]);
+
+export const insertSessionSchema = createInsertSchema(sessions, {
+  silenceMap: silenceMapSchema.nullable().optional(),
+  jumpCut: jumpCutSchema.nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -90,7 +313,9 @@ export const insertConversationSchema = createInsertSchema(conversations).omit({
   createdAt: true,
 });
 
-export const insertClipSchema = createInsertSchema(clips).omit({
+export const insertClipSchema = createInsertSchema(clips, {
+  edits: editDecisionListSchema.nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -105,6 +330,59 @@ export const insertUploadSchema = createInsertSchema(uploads).omit({
   createdAt: true,
 });
 
+export const insertTranscriptWordSchema = createInsertSchema(transcriptWords).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertClipRenditionSchema = createInsertSchema(clipRenditions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertLLMCacheLookupSchema = createInsertSchema(llmCacheLookups).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertUsageEventSchema = createInsertSchema(usageEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCaptionPresetSchema = createInsertSchema(captionPresets, {
+  style: captionStyleSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBrandProfileSchema = createInsertSchema(brandProfiles, {
+  name: z.string().trim().min(1),
+  tone: z.string().trim().min(1),
+  perspective: z.enum(brandPerspectives),
+  emojiPolicy: z.enum(emojiPolicies),
+  bannedWords: z.array(z.string().trim().min(1)).max(200),
+  examplePosts: z.array(z.string().trim().min(1).max(5000)).max(5),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGlossaryTermSchema = createInsertSchema(glossaryTerms, {
+  term: z.string().trim().min(1).max(100),
+  aliases: z.array(z.string().trim().min(1).max(100)).max(50),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 export type InsertSession = z.infer<typeof insertSessionSchema>;
 export type Session = typeof sessions.$inferSelect;
 
@@ -122,3 +400,35 @@ export type ContentPiece = typeof contentPieces.$inferSelect;
 
 export type InsertUpload = z.infer<typeof insertUploadSchema>;
 export type Upload = typeof uploads.$inferSelect;
+
+export type InsertTranscriptWord = z.infer<typeof insertTranscriptWordSchema>;
+export type TranscriptWord = typeof transcriptWords.$inferSelect;
+
+export type SpeakerSegment = typeof speakerSegments.$inferSelect;
+
+export type InsertGlossaryTerm = z.infer<typeof insertGlossaryTermSchema>;
+export type GlossaryTerm = typeof glossaryTerms.$inferSelect;
+
+export type InsertClipRendition = z.infer<typeof insertClipRenditionSchema>;
+export type ClipRendition = typeof clipRenditions.$inferSelect;
+
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Job = typeof jobs.$inferSelect;
+
+export type LLMCacheEntry = typeof llmCacheEntries.$inferSelect;
+export type InsertLLMCacheEntry = typeof llmCacheEntries.$inferInsert;
+export type InsertLLMCacheLookup = z.infer<typeof insertLLMCacheLookupSchema>;
+export type LLMCacheLookup = typeof llmCacheLookups.$inferSelect;
+
+export type InsertUsageEvent = z.infer<typeof insertUsageEventSchema>;
+export type UsageEvent = typeof usageEvents.$inferSelect;
+
+export type CaptionStyle = z.infer<typeof captionStyleSchema>;
+export type EditDecisionList = z.infer<typeof editDecisionListSchema>;
+export type SilenceMap = z.infer<typeof silenceMapSchema>;
+export type JumpCut = z.infer<typeof jumpCutSchema>;
+export type InsertCaptionPreset = z.infer<typeof insertCaptionPresetSchema>;
+export type CaptionPreset = typeof captionPresets.$inferSelect;
+
+export type InsertBrandProfile = z.infer<typeof insertBrandProfileSchema>;
+export type BrandProfile = typeof brandProfiles.$inferSelect;